@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { getDayRange, getUserTimeZone } from '@/lib/org-settings'
+import { auditEventQuerySchema } from '@/lib/validations'
+import { parsePagination } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/audit-events - Search the audit trail of writes (admin only)
+// Filters: entityType, entityId, actorId, action, from/to (YYYY-MM-DD, viewer's timezone), search (summary or entity id)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'audit.view')
+
+    const searchParams = request.nextUrl.searchParams
+    const entityType = searchParams.get('entityType')
+    const entityId = searchParams.get('entityId')
+    const actorId = searchParams.get('actorId')
+    const action = searchParams.get('action')
+    const search = searchParams.get('search')
+    const { from, to } = auditEventQuerySchema.parse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    })
+    const { page, limit, skip } = parsePagination(searchParams, 25)
+
+    const where: any = {}
+    if (entityType && entityType !== 'all') {
+      where.entityType = entityType
+    }
+    if (entityId) {
+      where.entityId = entityId
+    }
+    if (actorId && actorId !== 'all') {
+      where.actorId = actorId
+    }
+    if (action && action !== 'all') {
+      where.action = action
+    }
+    if (from || to) {
+      // Days in the viewer's timezone
+      const zone = await getUserTimeZone(session.id)
+      where.createdAt = {}
+      if (from) {
+        where.createdAt.gte = getDayRange(from, zone)!.gte
+      }
+      if (to) {
+        where.createdAt.lte = getDayRange(to, zone)!.lte
+      }
+    }
+    if (search) {
+      where.OR = [
+        { summary: { contains: search, mode: 'insensitive' } },
+        { entityId: { contains: search } },
+      ]
+    }
+
+    const [events, total, actions] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+        include: {
+          actor: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+        },
+      }),
+      prisma.auditEvent.count({ where }),
+      // Distinct actions for the filter dropdown
+      prisma.auditEvent.findMany({
+        distinct: ['action'],
+        select: { action: true },
+        orderBy: { action: 'asc' },
+      }),
+    ])
+
+    return NextResponse.json({
+      events,
+      actions: actions.map((a) => a.action),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching audit events:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { verifyPassword } from '@/lib/auth'
+import { getSession } from '@/lib/session'
+import { recordAuditEvent } from '@/lib/audit'
+import { disableTwoFactorSchema } from '@/lib/validations'
+
+// POST /api/auth/2fa/disable - Turn off 2FA for the current user (requires password)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = disableTwoFactorSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.id },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.twoFactorRequired) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for your account' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await verifyPassword(validatedData.password, user.password))) {
+      return NextResponse.json(
+        { error: 'Password is incorrect' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totpEnabled: false,
+        totpEnabledAt: null,
+        totpSecret: null,
+        totpRecoveryCodes: [],
+        lastTotpStep: null,
+      },
+    })
+
+    await recordAuditEvent({
+      actorId: user.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'disable_2fa',
+      summary: 'Disabled two-factor authentication',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('2FA disable error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
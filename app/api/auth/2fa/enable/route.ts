@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { createSession, getSession, revokeAllUserSessions } from '@/lib/session'
+import { recordAuditEvent } from '@/lib/audit'
+import { enableTwoFactorSchema } from '@/lib/validations'
+import { verifyTotp, generateRecoveryCodes, hashRecoveryCode } from '@/lib/totp'
+
+// POST /api/auth/2fa/enable - Confirm enrollment with a code; returns recovery codes once
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession({ allow: ['enrollTwoFactor'] })
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = enableTwoFactorSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.id },
+      select: { id: true, totpEnabled: true, totpSecret: true, mustChangePassword: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.totpEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first' },
+        { status: 400 }
+      )
+    }
+
+    const step = verifyTotp(user.totpSecret, validatedData.code)
+    if (step === null) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totpEnabled: true,
+        totpEnabledAt: new Date(),
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        lastTotpStep: step,
+      },
+    })
+
+    // Sign out other devices, which never passed the second factor, and reissue this session
+    await revokeAllUserSessions(user.id)
+    await createSession(session, { mustChangePassword: user.mustChangePassword })
+
+    await recordAuditEvent({
+      actorId: user.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'enable_2fa',
+      summary: 'Enabled two-factor authentication',
+    })
+
+    return NextResponse.json({ success: true, recoveryCodes })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('2FA enable error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
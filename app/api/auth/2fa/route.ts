@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/auth/2fa - Two-factor status for the current user
+export async function GET() {
+  const session = await getSession({ allow: ['enrollTwoFactor'] })
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.id },
+    select: {
+      totpEnabled: true,
+      totpEnabledAt: true,
+      totpRecoveryCodes: true,
+      twoFactorRequired: true,
+    },
+  })
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    enabled: user.totpEnabled,
+    enabledAt: user.totpEnabledAt,
+    required: user.twoFactorRequired,
+    recoveryCodesRemaining: user.totpRecoveryCodes.length,
+  })
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import QRCode from 'qrcode'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { generateTotpSecret, getTotpUri } from '@/lib/totp'
+
+// POST /api/auth/2fa/setup - Start TOTP enrollment: returns a new secret and QR code
+// The secret stays inactive until confirmed with a code at /api/auth/2fa/enable
+export async function POST() {
+  try {
+    const session = await getSession({ allow: ['enrollTwoFactor'] })
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.id },
+      select: { totpEnabled: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.totpEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      )
+    }
+
+    const secret = generateTotpSecret()
+    await prisma.user.update({
+      where: { id: session.id },
+      data: { totpSecret: secret },
+    })
+
+    const otpauthUri = getTotpUri(secret, session.username)
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri)
+
+    return NextResponse.json({ secret, otpauthUri, qrCodeDataUrl })
+  } catch (error) {
+    console.error('2FA setup error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
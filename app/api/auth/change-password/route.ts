@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { hashPassword, verifyPassword } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { createSession, getSession, revokeAllUserSessions } from '@/lib/session'
+import { changePasswordSchema, passwordSchema } from '@/lib/validations'
+
+// POST /api/auth/change-password - Change the current user's password
+export async function POST(request: NextRequest) {
+  try {
+    // 2FA enrollment may still be pending: the password is changed first
+    const session = await getSession({ allow: ['changePassword', 'enrollTwoFactor'] })
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = changePasswordSchema.parse(body)
+    passwordSchema(session.username).parse(validatedData.newPassword)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.id },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const isValidPassword = await verifyPassword(validatedData.currentPassword, user.password)
+    if (!isValidPassword) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      )
+    }
+
+    if (await verifyPassword(validatedData.newPassword, user.password)) {
+      return NextResponse.json(
+        { error: 'New password must be different from the current password' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await hashPassword(validatedData.newPassword),
+        passwordChangedAt: new Date(),
+        mustChangePassword: false,
+      },
+    })
+
+    // Sign out other devices and issue a fresh session for this one
+    await revokeAllUserSessions(user.id)
+    await createSession(session, { mustEnrollTwoFactor: user.twoFactorRequired && !user.totpEnabled })
+
+    await recordAuditEvent({
+      actorId: user.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'change_password',
+      summary: 'Changed own password',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: error.errors?.[0]?.message || 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Change password error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
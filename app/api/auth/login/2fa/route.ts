@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getClientIp, UserRole } from '@/lib/auth'
+import { createSession } from '@/lib/session'
+import { verifyLoginChallenge } from '@/lib/session-token'
+import { verifyTwoFactorSchema } from '@/lib/validations'
+import { verifyTotp, hashRecoveryCode } from '@/lib/totp'
+import { checkLoginThrottle, recordFailedLogin, recordSuccessfulLogin } from '@/lib/login-protection'
+
+// POST /api/auth/login/2fa - Second login step: exchange a challenge token and TOTP/recovery code for a session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = verifyTwoFactorSchema.parse(body)
+
+    const ipAddress = getClientIp(request.headers)
+    const userAgent = request.headers.get('user-agent')
+
+    const userId = await verifyLoginChallenge(validatedData.challengeToken)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Login expired, please sign in again', expired: true },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    })
+
+    if (!user || !user.isActive || !user.totpEnabled || !user.totpSecret) {
+      return NextResponse.json(
+        { error: 'Login expired, please sign in again', expired: true },
+        { status: 401 }
+      )
+    }
+
+    // Codes are brute-forceable too, so they share the password lockout and backoff
+    const throttle = await checkLoginThrottle(user.username, ipAddress)
+    if (!throttle.allowed) {
+      await recordFailedLogin({
+        username: user.username,
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        reason: throttle.reason === 'locked' ? 'locked' : 'throttled',
+      })
+
+      return NextResponse.json(
+        {
+          error:
+            throttle.reason === 'locked'
+              ? 'Account is temporarily locked due to too many failed login attempts'
+              : 'Too many failed login attempts. Please wait before trying again',
+          retryAfter: throttle.retryAfterSeconds,
+        },
+        {
+          status: throttle.reason === 'locked' ? 423 : 429,
+          headers: { 'Retry-After': String(throttle.retryAfterSeconds ?? 1) },
+        }
+      )
+    }
+
+    let isValidCode = false
+
+    // Each time step is accepted once: the guarded update fails for a replay racing this request
+    const step = verifyTotp(user.totpSecret, validatedData.code, user.lastTotpStep)
+    if (step !== null) {
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, OR: [{ lastTotpStep: null }, { lastTotpStep: { lt: step } }] },
+        data: { lastTotpStep: step },
+      })
+      isValidCode = count === 1
+    }
+
+    // Fall back to a single-use recovery code, consumed only if the stored codes are unchanged
+    // since we read them, so parallel requests can't use the same code twice
+    if (step === null) {
+      const codeHash = hashRecoveryCode(validatedData.code)
+      if (user.totpRecoveryCodes.includes(codeHash)) {
+        const { count } = await prisma.user.updateMany({
+          where: { id: user.id, totpRecoveryCodes: { equals: user.totpRecoveryCodes } },
+          data: {
+            totpRecoveryCodes: user.totpRecoveryCodes.filter((hash) => hash !== codeHash),
+          },
+        })
+        isValidCode = count === 1
+      }
+    }
+
+    if (!isValidCode) {
+      await recordFailedLogin({
+        username: user.username,
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        reason: 'invalid_two_factor',
+      })
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 401 }
+      )
+    }
+
+    await recordSuccessfulLogin({
+      username: user.username,
+      userId: user.id,
+      ipAddress,
+      userAgent,
+    })
+
+    await createSession(
+      {
+        id: user.id,
+        username: user.username,
+        role: user.role as UserRole,
+      },
+      { mustChangePassword: user.mustChangePassword }
+    )
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+      },
+      mustChangePassword: user.mustChangePassword,
+    })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('2FA login error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
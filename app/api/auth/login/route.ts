@@ -1,20 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { verifyPassword } from '@/lib/auth'
+import { verifyPassword, getClientIp, UserRole } from '@/lib/auth'
 import { createSession } from '@/lib/session'
+import { signLoginChallenge } from '@/lib/session-token'
 import { loginSchema } from '@/lib/validations'
+import { checkLoginThrottle, recordFailedLogin, recordSuccessfulLogin } from '@/lib/login-protection'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const validatedData = loginSchema.parse(body)
 
+    const ipAddress = getClientIp(request.headers)
+    const userAgent = request.headers.get('user-agent')
+
+    // Refuse before checking the password if the account is locked or attempts are coming too fast
+    const throttle = await checkLoginThrottle(validatedData.username, ipAddress)
+    if (!throttle.allowed) {
+      await recordFailedLogin({
+        username: validatedData.username,
+        ipAddress,
+        userAgent,
+        reason: throttle.reason === 'locked' ? 'locked' : 'throttled',
+      })
+
+      return NextResponse.json(
+        {
+          error:
+            throttle.reason === 'locked'
+              ? 'Account is temporarily locked due to too many failed login attempts'
+              : 'Too many failed login attempts. Please wait before trying again',
+          retryAfter: throttle.retryAfterSeconds,
+        },
+        {
+          status: throttle.reason === 'locked' ? 423 : 429,
+          headers: { 'Retry-After': String(throttle.retryAfterSeconds ?? 1) },
+        }
+      )
+    }
+
     // Find user by username
     const user = await prisma.user.findUnique({
       where: { username: validatedData.username },
     })
 
-    if (!user) {
+    // The system user has no usable password, but is never allowed to try
+    if (!user || user.isSystem) {
+      await recordFailedLogin({
+        username: validatedData.username,
+        ipAddress,
+        userAgent,
+        reason: 'unknown_user',
+      })
       return NextResponse.json(
         { error: 'Invalid username or password' },
         { status: 401 }
@@ -23,21 +60,64 @@ export async function POST(request: NextRequest) {
 
     // Verify password
     const isValidPassword = await verifyPassword(validatedData.password, user.password)
-    
+
     if (!isValidPassword) {
+      await recordFailedLogin({
+        username: user.username,
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        reason: 'invalid_password',
+      })
       return NextResponse.json(
         { error: 'Invalid username or password' },
         { status: 401 }
       )
     }
 
-    // Create session
-    await createSession({
-      id: user.id,
+    // Deactivated users keep their history but can no longer sign in
+    if (!user.isActive) {
+      await recordFailedLogin({
+        username: user.username,
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        reason: 'deactivated',
+      })
+      return NextResponse.json(
+        { error: 'This account has been deactivated' },
+        { status: 403 }
+      )
+    }
+
+    // Second step: the session is only created once the TOTP code is verified at /api/auth/login/2fa
+    if (user.totpEnabled) {
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challengeToken: await signLoginChallenge(user.id),
+      })
+    }
+
+    await recordSuccessfulLogin({
       username: user.username,
-      role: user.role as 'admin' | 'lead_gen' | 'outreach',
+      userId: user.id,
+      ipAddress,
+      userAgent,
     })
 
+    // Create session
+    await createSession(
+      {
+        id: user.id,
+        username: user.username,
+        role: user.role as UserRole,
+      },
+      {
+        mustChangePassword: user.mustChangePassword,
+        mustEnrollTwoFactor: user.twoFactorRequired,
+      }
+    )
+
     return NextResponse.json({
       success: true,
       user: {
@@ -45,6 +125,8 @@ export async function POST(request: NextRequest) {
         username: user.username,
         role: user.role,
       },
+      mustChangePassword: user.mustChangePassword,
+      mustEnrollTwoFactor: user.twoFactorRequired,
     })
   } catch (error: any) {
     if (error.name === 'ZodError') {
@@ -61,4 +143,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { getSession, revokeAllUserSessions, deleteSession } from '@/lib/session'
+
+// POST /api/auth/logout-all - Log the current user out of all devices
+export async function POST() {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const revoked = await revokeAllUserSessions(session.id)
+  await deleteSession()
+
+  return NextResponse.json({ success: true, revoked })
+}
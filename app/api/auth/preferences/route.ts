@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { recordAuditEvent } from '@/lib/audit'
+import { userPreferencesSchema } from '@/lib/validations'
+import { getOrgSettings } from '@/lib/org-settings'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/auth/preferences - The current user's timezone (null = org default) and the org timezone
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [user, settings] = await Promise.all([
+      prisma.user.findUnique({ where: { id: session.id }, select: { timezone: true } }),
+      getOrgSettings(),
+    ])
+
+    return NextResponse.json({ timezone: user?.timezone ?? null, orgTimezone: settings.timezone })
+  } catch (error: any) {
+    console.error('Error fetching preferences:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/auth/preferences - Set the current user's timezone
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = userPreferencesSchema.parse(body)
+
+    const before = await prisma.user.findUnique({ where: { id: session.id }, select: { timezone: true } })
+    const user = await prisma.user.update({
+      where: { id: session.id },
+      data: { timezone: validatedData.timezone },
+      select: { timezone: true },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: session.id,
+      action: 'update',
+      before,
+      after: user,
+    })
+
+    return NextResponse.json({ timezone: user.timezone })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: error.errors?.[0]?.message || 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating preferences:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
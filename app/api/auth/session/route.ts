@@ -1,13 +1,17 @@
 import { NextResponse } from 'next/server'
 import { getSession } from '@/lib/session'
+import { getUserTimeZone } from '@/lib/org-settings'
 
 export async function GET() {
-  const session = await getSession()
+  // Also answers for accounts that still have to change their password or enroll in 2FA, so the
+  // account page loads
+  const session = await getSession({ allow: ['changePassword', 'enrollTwoFactor'] })
   
   if (!session) {
     return NextResponse.json({ user: null }, { status: 401 })
   }
 
-  return NextResponse.json({ user: session })
+  // The resolved timezone (own or org) so pages can show dates the way the server buckets them
+  return NextResponse.json({ user: { ...session, timezone: await getUserTimeZone(session.id) } })
 }
 
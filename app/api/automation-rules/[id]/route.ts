@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { AUTOMATION_RULE_INCLUDE, validateRuleReferences } from '@/lib/automation'
+import { automationRuleSchema } from '@/lib/validations'
+
+// PATCH /api/automation-rules/[id] - Update a rule, e.g. pause it or change its condition (admin only)
+// The body is merged into the stored rule and the result validated as a whole
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'automation.manage')
+
+    const rule = await prisma.automationRule.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const {
+      id: _id,
+      createdById: _createdById,
+      lastRunAt: _lastRunAt,
+      createdAt: _createdAt,
+      updatedAt: _updatedAt,
+      ...storedFields
+    } = rule
+    const validatedData = automationRuleSchema.parse({ ...storedFields, ...body })
+
+    const referenceError = await validateRuleReferences(validatedData)
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 })
+    }
+
+    const updatedRule = await prisma.automationRule.update({
+      where: { id: rule.id },
+      data: validatedData,
+      include: AUTOMATION_RULE_INCLUDE,
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'automation_rule',
+      entityId: rule.id,
+      action: 'update',
+      before: rule,
+      after: updatedRule,
+    })
+
+    return NextResponse.json({ rule: updatedRule })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating automation rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/automation-rules/[id] - Delete a rule and its run history (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'automation.manage')
+
+    const rule = await prisma.automationRule.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 })
+    }
+
+    await prisma.automationRule.delete({
+      where: { id: params.id },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'automation_rule',
+      entityId: rule.id,
+      action: 'delete',
+      before: rule,
+      after: null,
+      summary: `Deleted rule ${rule.name}`,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error deleting automation rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
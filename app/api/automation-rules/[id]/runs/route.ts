@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// GET /api/automation-rules/[id]/runs - Run history of a rule, newest first (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'automation.manage')
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200)
+
+    const rule = await prisma.automationRule.findUnique({
+      where: { id: params.id },
+      select: { id: true, name: true },
+    })
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 })
+    }
+
+    const runs = await prisma.automationRuleRun.findMany({
+      where: { ruleId: rule.id },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json({ rule, runs })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching automation rule runs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
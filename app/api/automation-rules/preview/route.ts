@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { previewAutomationRules, previewFollowUpTasks } from '@/lib/automation'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// GET /api/automation-rules/preview - Dry run of the active rules, or of ?ruleId= (admin only)
+// Lists the leads each rule would act on, plus the follow-up tasks the run would create when
+// previewing all active rules; nothing is written
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'automation.manage')
+
+    const { searchParams } = new URL(request.url)
+    const ruleId = searchParams.get('ruleId')
+    const [rules, followUpTasks] = await Promise.all([
+      previewAutomationRules(ruleId),
+      ruleId ? [] : previewFollowUpTasks(),
+    ])
+
+    return NextResponse.json({
+      rules,
+      followUpTasks,
+      totalMatched: rules.reduce((sum, rule) => sum + rule.matched, 0),
+      generatedAt: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error previewing automation rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
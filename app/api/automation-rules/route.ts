@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { AUTOMATION_RULE_INCLUDE, validateRuleReferences } from '@/lib/automation'
+import { automationRuleSchema } from '@/lib/validations'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// GET /api/automation-rules - List automation rules with their latest run (admin only)
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'automation.manage')
+
+    const rules = await prisma.automationRule.findMany({
+      include: AUTOMATION_RULE_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({ rules })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching automation rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/automation-rules - Create an automation rule (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'automation.manage')
+
+    const body = await request.json()
+    const validatedData = automationRuleSchema.parse(body)
+
+    const referenceError = await validateRuleReferences(validatedData)
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 })
+    }
+
+    const rule = await prisma.automationRule.create({
+      data: {
+        ...validatedData,
+        createdById: session.id,
+      },
+      include: AUTOMATION_RULE_INCLUDE,
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'automation_rule',
+      entityId: rule.id,
+      action: 'create',
+      before: null,
+      after: rule,
+      summary: `Created rule ${rule.name}`,
+    })
+
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating automation rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
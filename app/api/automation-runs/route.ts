@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// GET /api/automation-runs - Recent automation runs with their per-rule results, newest first (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'automation.manage')
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100)
+
+    const runs = await prisma.automationRun.findMany({
+      include: {
+        ruleRuns: {
+          include: { rule: { select: { id: true, name: true } } },
+          orderBy: { startedAt: 'asc' },
+        },
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json({ runs })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching automation runs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
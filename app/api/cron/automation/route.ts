@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { runAutomationRules } from '@/lib/automation'
+import { previewAutomationRules, previewFollowUpTasks, runAutomationRules } from '@/lib/automation'
+import { getSession } from '@/lib/session'
+import { can } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
 /**
- * Cron endpoint for running automation rules
+ * Cron endpoint for running automation rules (the active AutomationRule rows, see lib/automation.ts)
  * This endpoint should be called periodically (e.g., daily at midnight)
  * 
  * For Vercel Cron, configure in vercel.json
@@ -14,26 +16,63 @@ export const runtime = 'nodejs'
  * Security: In production, this should be protected with:
  * 1. Vercel Cron secret (automatically handled by Vercel)
  * 2. Or a custom auth token via Authorization header
+ *
+ * Dry run: ?dryRun=true returns the leads each active rule would act on and the follow-up tasks
+ * that would be created, and writes nothing.
+ * Because it only reads, admins can also call it from a logged-in session.
  */
 export async function GET(request: NextRequest) {
   try {
    
     const cronHeader = request.headers.get('x-vercel-cron')
     const isProduction = process.env.VERCEL === '1'
+    const { searchParams } = new URL(request.url)
+    const dryRun = ['1', 'true'].includes(searchParams.get('dryRun') ?? '')
     
     if (isProduction && !cronHeader) {
-      console.warn('[Cron] Unauthorized access attempt (missing x-vercel-cron header)')
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      const session = dryRun ? await getSession() : null
+      if (!can(session, 'automation.manage')) {
+        console.warn('[Cron] Unauthorized access attempt (missing x-vercel-cron header)')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
     }
 
     if (!isProduction && !cronHeader) {
       console.log('[Cron] Local test mode - allowing execution without Vercel header')
     }
 
+    if (dryRun) {
+      const [rules, followUpTasks] = await Promise.all([previewAutomationRules(), previewFollowUpTasks()])
+      console.log(
+        `[Cron] Dry run: ${rules.reduce((sum, rule) => sum + rule.matched, 0)} leads would be affected, ${followUpTasks.reduce((sum, preview) => sum + preview.matched, 0)} follow-up tasks created`
+      )
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        timestamp: new Date().toISOString(),
+        rules,
+        followUpTasks,
+      })
+    }
+
     console.log('[Cron] Running automation rules...')
     const result = await runAutomationRules()
+
+    // Overlapping cron hit: the run already in progress handles everything
+    if (result.skipped) {
+      return NextResponse.json(
+        {
+          success: false,
+          timestamp: new Date().toISOString(),
+          ...result,
+        },
+        { status: 409 }
+      )
+    }
     
-    console.log(`[Cron] Automation completed: ${result.transitioned} leads transitioned`)
+    console.log(
+      `[Cron] Automation completed: ${result.transitioned} leads transitioned, ${result.tasksCreated} tasks created, ${result.reassigned} leads reassigned, ${result.followUpTasks} follow-up tasks created`
+    )
     
     return NextResponse.json({
       success: true,
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { syncTaskBacklog } from '@/lib/tasks-backlog'
+import { runTasksBacklog } from '@/lib/tasks-backlog'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -19,13 +19,17 @@ export async function GET(request: NextRequest) {
     }
 
     console.log('[Cron tasks-backlog] Running task backlog sync...')
-    const count = await syncTaskBacklog()
-    console.log(`[Cron tasks-backlog] Done: ${count} task(s) moved to backlog`)
+    const { movedToBacklog, escalated, occurrencesCreated } = await runTasksBacklog()
+    console.log(
+      `[Cron tasks-backlog] Done: ${movedToBacklog} task(s) moved to backlog, ${escalated} escalated, ${occurrencesCreated} recurring occurrence(s) created`
+    )
 
     return NextResponse.json({
       success: true,
       timestamp: new Date().toISOString(),
-      tasksMovedToBacklog: count,
+      tasksMovedToBacklog: movedToBacklog,
+      tasksEscalated: escalated,
+      recurringTasksCreated: occurrencesCreated,
     })
   } catch (error: unknown) {
     console.error('[Cron tasks-backlog] Error:', error)
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
-import { requireRole } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 
 // POST /api/leads/[id]/claim - Claim a lead
 export async function POST(
@@ -14,8 +15,7 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Only outreach can claim leads
-    requireRole(session, ['outreach', 'admin'])
+    requirePermission(session, 'lead.claim')
 
     const leadId = params.id
 
@@ -76,6 +76,15 @@ export async function POST(
       },
     })
 
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'lead',
+      entityId: leadId,
+      action: 'claim',
+      before: lead,
+      after: updatedLead,
+    })
+
     // Transform to include lastStatusUpdater
     const leadWithLastUpdater = {
       ...updatedLead,
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
-import { requireRole } from '@/lib/auth'
+import { can, getAssignmentTarget, requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { findStage, getInitialStage, getPipeline, recordStageEntry } from '@/lib/pipelines'
+import { checkStatusTransition } from '@/lib/lead-transitions'
 import { updateLeadSchema, changeStatusSchema } from '@/lib/validations'
 
 // GET /api/leads/[id] - Get a single lead with history
@@ -22,6 +25,12 @@ export async function GET(
           select: {
             id: true,
             username: true,
+            teamId: true,
+          },
+        },
+        stageEntries: {
+          orderBy: {
+            enteredAt: 'asc',
           },
         },
         statusHistory: {
@@ -44,12 +53,8 @@ export async function GET(
       return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
     }
 
-    // Role-based access check
-    if (session.role === 'lead_gen' && lead.assignedToId) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
-    if (session.role === 'outreach' && lead.assignedToId && lead.assignedToId !== session.id) {
+    // Permission-based access check
+    if (!can(session, 'lead.view', lead)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -80,38 +85,96 @@ export async function PUT(
     // Check if lead exists
     const existingLead = await prisma.lead.findUnique({
       where: { id: params.id },
+      include: { assignedTo: { select: { teamId: true } } },
     })
 
     if (!existingLead) {
       return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
     }
 
-    // Role-based permissions
-    if (session.role === 'lead_gen' && existingLead.assignedToId) {
+    // Permission-based access check
+    if (!can(session, 'lead.update', existingLead)) {
       return NextResponse.json(
-        { error: 'Cannot edit assigned leads' },
+        { error: 'You do not have permission to edit this lead' },
         { status: 403 }
       )
     }
 
-    if (session.role === 'outreach' && existingLead.assignedToId && existingLead.assignedToId !== session.id) {
+    // Assignment needs its own permission, covering both the current and the new assignee
+    // (e.g. team leads can only move leads between members of their team)
+    if (
+      validatedData.assignedToId !== undefined &&
+      (!can(session, 'lead.assign', existingLead) ||
+        !can(session, 'lead.assign', await getAssignmentTarget(validatedData.assignedToId ?? null)))
+    ) {
+      delete validatedData.assignedToId
+    }
+
+    const pipeline = await getPipeline(validatedData.pipelineId ?? existingLead.pipelineId)
+    if (!pipeline) {
+      return NextResponse.json({ error: 'Pipeline not found' }, { status: 400 })
+    }
+
+    // Moving to another pipeline needs its own permission and always restarts at its first stage,
+    // since there is no transition from a stage of the old pipeline to check
+    const pipelineChanged = pipeline.id !== existingLead.pipelineId
+    if (pipelineChanged) {
+      if (!can(session, 'lead.movePipeline', existingLead)) {
+        return NextResponse.json(
+          { error: 'You do not have permission to move this lead to another pipeline' },
+          { status: 403 }
+        )
+      }
+      const initialStage = getInitialStage(pipeline)
+      if (validatedData.status && validatedData.status !== initialStage.key) {
+        return NextResponse.json(
+          { error: `Leads moved to another pipeline start at its first stage ("${initialStage.key}")` },
+          { status: 400 }
+        )
+      }
+      validatedData.status = initialStage.key
+    }
+    if (validatedData.status && !findStage(pipeline, validatedData.status)) {
       return NextResponse.json(
-        { error: 'Can only edit your own leads or unassigned leads' },
+        { error: `"${validatedData.status}" is not a stage of this lead's pipeline` },
+        { status: 400 }
+      )
+    }
+
+    // Changing the status needs the same permission as the status route, not just lead.update
+    if (
+      validatedData.status &&
+      validatedData.status !== existingLead.status &&
+      !can(session, 'lead.changeStatus', existingLead)
+    ) {
+      return NextResponse.json(
+        { error: 'You do not have permission to change the status of this lead' },
         { status: 403 }
       )
     }
 
-    // Only admin can change assignment
-    if (validatedData.assignedToId !== undefined && session.role !== 'admin') {
-      delete validatedData.assignedToId
+    // Status changes within a pipeline follow its transition graph, same as the status route
+    if (!pipelineChanged && validatedData.status && validatedData.status !== existingLead.status) {
+      const transition = checkStatusTransition(
+        pipeline,
+        existingLead.status,
+        validatedData.status,
+        session.role,
+        body.reason
+      )
+      if (!transition.allowed) {
+        const { allowed: _allowed, ...details } = transition
+        return NextResponse.json(details, { status: 422 })
+      }
     }
 
     // Track status change if status is being updated
-    let statusHistoryEntry = null
     const updateData: any = { ...validatedData }
-    
+    let statusChanged = false
+
     if (validatedData.status && validatedData.status !== existingLead.status) {
-      statusHistoryEntry = await prisma.statusHistory.create({
+      statusChanged = true
+      await prisma.statusHistory.create({
         data: {
           leadId: params.id,
           userId: session.id,
@@ -120,18 +183,6 @@ export async function PUT(
           reason: body.reason || null,
         },
       })
-
-      // Set date fields based on status change
-      const now = new Date()
-      if (validatedData.status === 'texted' && !existingLead.textedAt) {
-        updateData.textedAt = now
-      } else if (validatedData.status === 'first_followup' && !existingLead.firstFollowupAt) {
-        updateData.firstFollowupAt = now
-      } else if (validatedData.status === 'second_followup' && !existingLead.secondFollowupAt) {
-        updateData.secondFollowupAt = now
-      } else if (validatedData.status === 'replied' && !existingLead.repliedAt) {
-        updateData.repliedAt = now
-      }
     }
 
     const updatedLead = await prisma.lead.update({
@@ -161,6 +212,19 @@ export async function PUT(
       },
     })
 
+    if (statusChanged) {
+      await recordStageEntry(params.id, updatedLead.status)
+    }
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'lead',
+      entityId: params.id,
+      action: existingLead.assignedToId !== updatedLead.assignedToId ? 'assign' : 'update',
+      before: existingLead,
+      after: updatedLead,
+    })
+
     // Transform to include lastStatusUpdater
     const leadWithLastUpdater = {
       ...updatedLead,
@@ -196,8 +260,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Only admin can delete leads
-    requireRole(session, ['admin'])
+    requirePermission(session, 'lead.delete')
 
     const lead = await prisma.lead.findUnique({
       where: { id: params.id },
@@ -211,6 +274,16 @@ export async function DELETE(
       where: { id: params.id },
     })
 
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'lead',
+      entityId: params.id,
+      action: 'delete',
+      before: lead,
+      after: null,
+      summary: `Deleted lead ${lead.name}`,
+    })
+
     return NextResponse.json({ success: true })
   } catch (error: any) {
     if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
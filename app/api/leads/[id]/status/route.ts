@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
+import { can } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 import { changeStatusSchema } from '@/lib/validations'
+import { findStage, getPipeline, recordStageEntry } from '@/lib/pipelines'
+import { checkStatusTransition } from '@/lib/lead-transitions'
 
-// POST /api/leads/[id]/status - Change lead status
+// POST /api/leads/[id]/status - Change lead status along an allowed transition (422 otherwise)
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -23,27 +27,41 @@ export async function POST(
     // Check if lead exists
     const lead = await prisma.lead.findUnique({
       where: { id: params.id },
+      include: { assignedTo: { select: { teamId: true } } },
     }) as any
 
     if (!lead) {
       return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
     }
 
-    // Role-based permissions
-    if (session.role === 'lead_gen' && lead.assignedToId) {
+    // Permission-based access check
+    if (!can(session, 'lead.changeStatus', lead)) {
       return NextResponse.json(
-        { error: 'Cannot change status of assigned leads' },
+        { error: 'You do not have permission to change the status of this lead' },
         { status: 403 }
       )
     }
 
-    if (session.role === 'outreach' && lead.assignedToId !== session.id) {
+    const pipeline = await getPipeline(lead.pipelineId)
+    if (!pipeline || !findStage(pipeline, validatedData.newStatus)) {
       return NextResponse.json(
-        { error: 'Can only change status of your own leads' },
-        { status: 403 }
+        { error: `"${validatedData.newStatus}" is not a stage of this lead's pipeline` },
+        { status: 400 }
       )
     }
 
+    const transition = checkStatusTransition(
+      pipeline,
+      lead.status,
+      validatedData.newStatus,
+      session.role,
+      validatedData.reason
+    )
+    if (!transition.allowed) {
+      const { allowed: _allowed, ...details } = transition
+      return NextResponse.json(details, { status: 422 })
+    }
+
     // Verify user exists in database (fixes foreign key constraint)
     const user = await prisma.user.findUnique({
       where: { id: session.id },
@@ -67,31 +85,12 @@ export async function POST(
       },
     })
 
-    // Prepare update data with date tracking
-    const updateData: any = {
-      status: validatedData.newStatus,
-    }
-
-    // Set date fields based on status change
-    const now = new Date()
-    if (validatedData.newStatus === 'texted' && !lead.textedAt) {
-      updateData.textedAt = now
-    } else if (validatedData.newStatus === 'first_followup' && !lead.firstFollowupAt) {
-      updateData.firstFollowupAt = now
-    } else if (validatedData.newStatus === 'second_followup' && !lead.secondFollowupAt) {
-      updateData.secondFollowupAt = now
-    } else if (validatedData.newStatus === 'replied' && !lead.repliedAt) {
-      updateData.repliedAt = now
-    } else if (validatedData.newStatus === 'meeting_booked' && !(lead as any).meetingBookedAt) {
-      updateData.meetingBookedAt = now
-    } else if (validatedData.newStatus === 'commented' && !(lead as any).commentedAt) {
-      updateData.commentedAt = now
-    }
-
     // Update lead status
     const updatedLead = await prisma.lead.update({
       where: { id: params.id },
-      data: updateData,
+      data: {
+        status: validatedData.newStatus,
+      },
       include: {
         assignedTo: {
           select: {
@@ -116,6 +115,17 @@ export async function POST(
       },
     })
 
+    await recordStageEntry(params.id, validatedData.newStatus)
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'lead',
+      entityId: params.id,
+      action: 'status_change',
+      before: lead,
+      after: updatedLead,
+    })
+
     // Transform to include lastStatusUpdater
     const leadWithLastUpdater = {
       ...updatedLead,
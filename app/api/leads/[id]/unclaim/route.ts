@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
-import { requireRole } from '@/lib/auth'
+import { can, requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 
 // POST /api/leads/[id]/unclaim - Unclaim a lead
 export async function POST(
@@ -14,14 +15,14 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Only outreach and admin can unclaim leads
-    requireRole(session, ['outreach', 'admin'])
+    requirePermission(session, 'lead.unclaim')
 
     const leadId = params.id
 
     // Check if lead exists
     const lead = await prisma.lead.findUnique({
       where: { id: leadId },
+      include: { assignedTo: { select: { teamId: true } } },
     })
 
     if (!lead) {
@@ -29,7 +30,7 @@ export async function POST(
     }
 
     // Outreach can only unclaim their own leads, admin can unclaim any lead
-    if (session.role === 'outreach' && lead.assignedToId !== session.id) {
+    if (!can(session, 'lead.unclaim', lead)) {
       return NextResponse.json(
         { error: 'Can only unclaim your own leads' },
         { status: 403 }
@@ -85,6 +86,15 @@ export async function POST(
       },
     })
 
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'lead',
+      entityId: leadId,
+      action: 'unclaim',
+      before: lead,
+      after: updatedLead,
+    })
+
     // Transform to include lastStatusUpdater
     const leadWithLastUpdater = {
       ...updatedLead,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
+import { buildLeadWhere, findLeadsPage, isLeadActionFilter, parseLeadPagination } from '@/lib/lead-query'
+import { getFollowUpCalendar } from '@/lib/working-calendar'
 
 // Force dynamic rendering for this route (uses cookies)
 export const dynamic = 'force-dynamic'
@@ -14,168 +15,31 @@ export async function GET(request: NextRequest) {
     }
 
     const searchParams = request.nextUrl.searchParams
-    const filter = searchParams.get('filter') 
-    const system = searchParams.get('system')
-    const search = searchParams.get('search')
-    const page = parseInt(searchParams.get('page') || '1', 10)
-    const limit = parseInt(searchParams.get('limit') || '15', 10)
-    const skip = (page - 1) * limit
+    const filter = searchParams.get('filter')
 
     if (!filter || filter === 'all') {
       return NextResponse.json({ error: 'Filter is required' }, { status: 400 })
     }
 
-    // Build where clause based on action filter
-    let where: any = {}
-
-    if (filter === 'unclaimed') {
-      where = {
-        status: 'new',
-        assignedToId: null,
-      }
-    } else if (filter === 'texted_old') {
-      where = {
-        status: 'texted',
-        textedAt: {
-          not: null,
-          lte: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000), 
-        },
-      }
-    } else if (filter === 'first_followup_old') {
-      // First Followup 4+ days ago: status='first_followup' AND firstFollowupAt <= 4 days ago
-      where = {
-        status: 'first_followup',
-        firstFollowupAt: {
-          not: null,
-          lte: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000), // 4 days ago
-        },
-      }
-    } else if (filter === 'replied_old') {
-      // Replied 6+ days ago: status='replied' AND repliedAt <= 6 days ago
-      where = {
-        status: 'replied',
-        repliedAt: {
-          not: null,
-          lte: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000), // 6 days ago
-        },
-      }
-    } else {
+    if (!isLeadActionFilter(filter)) {
       return NextResponse.json({ error: 'Invalid filter' }, { status: 400 })
     }
 
-    // Apply role-based restrictions
-    if (session.role === 'lead_gen') {
-      // Lead gen only sees unclaimed leads
-      if (filter !== 'unclaimed') {
-        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-      }
-      // Already filtered by unclaimed above
-    } else if (session.role === 'outreach') {
-      // Outreach sees ONLY unclaimed + assigned to them
-      // For unclaimed filter, already correct
-      // For other filters, add OR condition
-      if (filter !== 'unclaimed') {
-        where = {
-          AND: [
-            where,
-            {
-              OR: [
-                { assignedToId: null },
-                { assignedToId: session.id },
-              ],
-            },
-          ],
-        }
-      }
-    }
-    // Admin sees all leads - no additional restrictions
-
-    // Apply system filter
-    if (system && system !== 'all') {
-      if (where.AND) {
-        where.AND.push({ system })
-      } else {
-        where = {
-          AND: [where, { system }],
-        }
-      }
-    }
-
-    // Apply search filter (PostgreSQL supports case-insensitive search)
-    if (search) {
-      const searchCondition = {
-        OR: [
-          { name: { contains: search, mode: 'insensitive' } },
-          { email: { contains: search, mode: 'insensitive' } },
-          { company: { contains: search, mode: 'insensitive' } },
-        ],
-      }
+    const where = buildLeadWhere(session, {
+      actionFilter: filter,
+      pipelineId: searchParams.get('pipelineId'),
+      system: searchParams.get('system'),
+      search: searchParams.get('search'),
+      followUpCalendar: await getFollowUpCalendar(),
+    })
 
-      if (where.AND) {
-        where.AND.push(searchCondition)
-      } else {
-        where = {
-          AND: [where, searchCondition],
-        }
-      }
+    if (!where) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    // Get total count for pagination
-    const total = await prisma.lead.count({ where })
+    const result = await findLeadsPage(where, parseLeadPagination(searchParams))
 
-    const leads = await prisma.lead.findMany({
-      where,
-      skip,
-      take: limit,
-      include: {
-        assignedTo: {
-          select: {
-            id: true,
-            username: true,
-          },
-        },
-        statusHistory: {
-          take: 1,
-          orderBy: {
-            createdAt: 'desc',
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                username: true,
-              },
-            },
-          },
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    })
-
-    // Transform leads to include lastStatusUpdater
-    const leadsWithLastUpdater = leads.map((lead: any) => ({
-      ...lead,
-      textedAt: lead.textedAt || null,
-      firstFollowupAt: lead.firstFollowupAt || null,
-      secondFollowupAt: lead.secondFollowupAt || null,
-      repliedAt: lead.repliedAt || null,
-      meetingBookedAt: (lead as any).meetingBookedAt || null,
-      commentedAt: (lead as any).commentedAt || null,
-      lastStatusUpdater: lead.statusHistory[0]?.user || null,
-      lastStatusUpdatedAt: lead.statusHistory[0]?.createdAt || null,
-    }))
-
-    return NextResponse.json({ 
-      leads: leadsWithLastUpdater,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
-    })
+    return NextResponse.json(result)
   } catch (error) {
     console.error('Error fetching leads by action:', error)
     return NextResponse.json(
@@ -184,4 +48,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
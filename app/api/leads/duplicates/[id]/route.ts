@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { updateLeadDuplicateSchema } from '@/lib/validations'
+
+// PATCH /api/leads/duplicates/[id] - Dismiss a pair as not a duplicate, or put it back in the queue
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'lead.merge')
+
+    const body = await request.json()
+    const { status } = updateLeadDuplicateSchema.parse(body)
+
+    const existing = await prisma.leadDuplicate.findUnique({
+      where: { id: params.id },
+      include: { lead: { select: { name: true } }, match: { select: { name: true } } },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Duplicate not found' }, { status: 404 })
+    }
+
+    const duplicate = await prisma.leadDuplicate.update({
+      where: { id: params.id },
+      data: status === 'dismissed'
+        ? { status, resolvedById: session.id, resolvedAt: new Date() }
+        : { status, resolvedById: null, resolvedAt: null },
+    })
+
+    // Recorded on the newer lead of the pair, like the merge it stands in for
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'lead',
+      entityId: existing.leadId,
+      action: status === 'dismissed' ? 'dismiss_duplicate' : 'requeue_duplicate',
+      changes: { duplicateStatus: { from: existing.status, to: duplicate.status } },
+      summary: status === 'dismissed'
+        ? `Marked ${existing.lead.name} and ${existing.match.name} as not duplicates`
+        : `Put ${existing.lead.name} and ${existing.match.name} back in the duplicate review queue`,
+    })
+
+    return NextResponse.json({ duplicate })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating lead duplicate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
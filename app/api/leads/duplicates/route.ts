@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { parsePagination } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+const DUPLICATE_LEAD_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  company: true,
+  profileUrl: true,
+  postUrl: true,
+  website: true,
+  notes: true,
+  status: true,
+  system: true,
+  createdAt: true,
+  assignedTo: { select: { id: true, username: true } },
+  _count: { select: { statusHistory: true } },
+}
+
+// GET /api/leads/duplicates - Review queue of possible duplicate leads (admin only)
+// Filters: status (pending by default, or dismissed), page, limit
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'lead.merge')
+
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status') === 'dismissed' ? 'dismissed' : 'pending'
+    const { page, limit, skip } = parsePagination(searchParams, 25)
+
+    const [duplicates, total] = await Promise.all([
+      prisma.leadDuplicate.findMany({
+        where: { status },
+        orderBy: [{ score: 'desc' }, { createdAt: 'desc' }],
+        skip,
+        take: limit,
+        include: {
+          lead: { select: DUPLICATE_LEAD_SELECT },
+          match: { select: DUPLICATE_LEAD_SELECT },
+          resolvedBy: { select: { id: true, username: true } },
+        },
+      }),
+      prisma.leadDuplicate.count({ where: { status } }),
+    ])
+
+    return NextResponse.json({
+      duplicates,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching lead duplicates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
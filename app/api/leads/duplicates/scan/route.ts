@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { scanLeadDuplicates } from '@/lib/lead-duplicates'
+
+// POST /api/leads/duplicates/scan - Check all existing leads and queue the duplicate pairs found
+export async function POST() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'lead.merge')
+
+    const flagged = await scanLeadDuplicates()
+
+    return NextResponse.json({ success: true, flagged })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error scanning for duplicate leads:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
-import { requireRole } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { getDefaultPipeline, getInitialStage, recordStageEntry } from '@/lib/pipelines'
 import { parseCSVFromBuffer } from '@/lib/csv-parser'
+import { findDuplicateLeads, flagDuplicates, isExactMatch } from '@/lib/lead-duplicates'
+import { LEAD_DUPLICATE_REASON_LABELS } from '@/lib/constants'
 
 // POST /api/leads/import - Import leads from CSV
 export async function POST(request: NextRequest) {
@@ -12,8 +16,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Only admin and lead_gen can import CSV
-    requireRole(session, ['admin', 'lead_gen'])
+    requirePermission(session, 'lead.import')
 
     const formData = await request.formData()
     const file = formData.get('file') as File
@@ -36,55 +39,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create leads (skip duplicates by email or profileUrl)
+    // Imported leads start in the first stage of the default pipeline
+    const pipeline = await getDefaultPipeline()
+    const initialStage = getInitialStage(pipeline)
+
+    // Create leads, skipping those with the email or profile URL of an existing lead (including
+    // earlier rows of this file); similar name+company ones are created and queued for review
     const createdLeads = []
     const skippedLeads = []
+    let flagged = 0
 
     for (const leadData of parseResult.valid) {
       try {
-        // Check for duplicate by email (if email provided)
-        if (leadData.email) {
-          const existingByEmail = await prisma.lead.findFirst({
-            where: { email: leadData.email },
-          })
-
-          if (existingByEmail) {
-            skippedLeads.push({ ...leadData, reason: 'Duplicate email' })
-            continue
-          }
-        }
-
-        // Check for duplicate by profileUrl (if profileUrl provided)
-        if (leadData.profileUrl) {
-          const existingByProfile = await prisma.lead.findFirst({
-            where: { profileUrl: leadData.profileUrl },
-          })
-
-          if (existingByProfile) {
-            skippedLeads.push({ ...leadData, reason: 'Duplicate profile URL' })
-            continue
-          }
-        }
-
-        // Check for duplicate by name + company (if both provided)
-        if (leadData.name && leadData.company) {
-          const existingByNameCompany = await prisma.lead.findFirst({
-            where: {
-              name: leadData.name,
-              company: leadData.company,
-            },
-          })
-
-          if (existingByNameCompany) {
-            skippedLeads.push({ ...leadData, reason: 'Duplicate name and company' })
-            continue
-          }
+        const duplicates = await findDuplicateLeads(leadData)
+        const exact = duplicates.find(isExactMatch)
+        if (exact) {
+          skippedLeads.push({ ...leadData, reason: `Duplicate of ${exact.lead.name}: ${LEAD_DUPLICATE_REASON_LABELS[exact.reason].toLowerCase()}` })
+          continue
         }
 
         const lead = await prisma.lead.create({
-          data: leadData,
+          data: {
+            ...leadData,
+            pipelineId: pipeline.id,
+            status: initialStage.key,
+          },
         })
         createdLeads.push(lead)
+        await recordStageEntry(lead.id, initialStage.key, lead.createdAt)
+        flagged += await flagDuplicates(lead, duplicates)
+        await recordAuditEvent({
+          actorId: session.id,
+          entityType: 'lead',
+          entityId: lead.id,
+          action: 'create',
+          before: null,
+          after: lead,
+          summary: `Imported from ${file.name}`,
+        })
       } catch (error: any) {
         skippedLeads.push({ ...leadData, reason: error.message })
       }
@@ -95,6 +87,7 @@ export async function POST(request: NextRequest) {
       created: createdLeads.length,
       skipped: skippedLeads.length,
       invalid: parseResult.invalid.length,
+      flaggedDuplicates: flagged,
       details: {
         created: createdLeads,
         skipped: skippedLeads,
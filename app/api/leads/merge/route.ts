@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { mergeLeads } from '@/lib/lead-duplicates'
+import { mergeLeadsSchema } from '@/lib/validations'
+
+// POST /api/leads/merge - Merge the source lead into the target (see mergeLeads); the source is deleted
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'lead.merge')
+
+    const body = await request.json()
+    const validatedData = mergeLeadsSchema.parse(body)
+
+    const lead = await mergeLeads({ ...validatedData, actorId: session.id })
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ lead })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error merging leads:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
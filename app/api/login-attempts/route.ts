@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/login-attempts - Audit log of login attempts, failed only by default (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const searchParams = request.nextUrl.searchParams
+    const username = searchParams.get('username')
+    const ipAddress = searchParams.get('ip')
+    const includeSuccessful = searchParams.get('includeSuccessful') === 'true'
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10)))
+    const skip = (page - 1) * limit
+
+    const where: any = {}
+    if (!includeSuccessful) {
+      where.success = false
+    }
+    if (username) {
+      where.username = { contains: username, mode: 'insensitive' }
+    }
+    if (ipAddress) {
+      where.ipAddress = ipAddress
+    }
+
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+
+    const [attempts, total, targeted] = await Promise.all([
+      prisma.loginAttempt.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.loginAttempt.count({ where }),
+      // Most targeted usernames over the last 7 days
+      prisma.loginAttempt.groupBy({
+        by: ['username'],
+        where: { success: false, createdAt: { gte: since } },
+        _count: { _all: true },
+        _max: { createdAt: true },
+        orderBy: { _count: { username: 'desc' } },
+        take: 10,
+      }),
+    ])
+
+    return NextResponse.json({
+      attempts,
+      targeted: targeted.map((t) => ({
+        username: t.username,
+        failedAttempts: t._count._all,
+        lastAttemptAt: t._max.createdAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching login attempts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
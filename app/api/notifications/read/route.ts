@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { markNotificationsReadSchema } from '@/lib/validations'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/notifications/read - Mark the given notifications (or all of them when ids is omitted) as read
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = markNotificationsReadSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid input' },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        userId: session.id,
+        readAt: null,
+        ...(parsed.data.ids ? { id: { in: parsed.data.ids } } : {}),
+      },
+      data: { readAt: new Date() },
+    })
+
+    return NextResponse.json({ success: true, marked: count })
+  } catch (error: unknown) {
+    console.error('Error marking notifications read:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/notifications - The current user's latest notifications and unread count
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId: session.id },
+        orderBy: { createdAt: 'desc' },
+        take: 30,
+      }),
+      prisma.notification.count({ where: { userId: session.id, readAt: null } }),
+    ])
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (error: unknown) {
+    console.error('Error fetching notifications:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
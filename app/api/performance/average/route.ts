@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
+import { getUserTimeZone } from '@/lib/org-settings'
 
 export const dynamic = 'force-dynamic'
 
@@ -27,15 +28,17 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const startDateParam = searchParams.get('startDate')
     const endDateParam = searchParams.get('endDate')
+    const teamId = searchParams.get('teamId') // Optional: only members of this team
 
     if (!startDateParam || !endDateParam) {
       return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 })
     }
 
-    // Use Luxon for consistent date handling
+    // Use Luxon for consistent date handling; days are taken in the viewer's timezone
     const { DateTime } = await import('luxon')
-    const start = DateTime.fromISO(startDateParam, { zone: 'utc' }).startOf('day')
-    const end = DateTime.fromISO(endDateParam, { zone: 'utc' }).endOf('day')
+    const zone = await getUserTimeZone(session.id)
+    const start = DateTime.fromISO(startDateParam, { zone }).startOf('day')
+    const end = DateTime.fromISO(endDateParam, { zone }).endOf('day')
     
     // Validate dates
     if (!start.isValid || !end.isValid) {
@@ -50,8 +53,10 @@ export async function GET(request: NextRequest) {
     const users = await prisma.user.findMany({
       where: {
         role: {
-          in: ['admin', 'outreach'],
+          in: ['admin', 'team_lead', 'outreach'],
         },
+        isSystem: false,
+        ...(teamId ? { teamId } : {}),
       },
       select: {
         id: true,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
+import { getUserTimeZone } from '@/lib/org-settings'
 import { DateTime } from 'luxon'
 
 export const dynamic = 'force-dynamic'
@@ -28,14 +29,16 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const startDateParam = searchParams.get('startDate')
     const endDateParam = searchParams.get('endDate')
+    const teamId = searchParams.get('teamId') // Optional: only members of this team
 
     if (!startDateParam || !endDateParam) {
       return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 })
     }
 
-    // Use Luxon for date handling - ensure we parse dates correctly
-    const start = DateTime.fromISO(startDateParam, { zone: 'utc' }).startOf('day')
-    const end = DateTime.fromISO(endDateParam, { zone: 'utc' }).endOf('day')
+    // Days are bucketed in the viewer's timezone
+    const zone = await getUserTimeZone(session.id)
+    const start = DateTime.fromISO(startDateParam, { zone }).startOf('day')
+    const end = DateTime.fromISO(endDateParam, { zone }).endOf('day')
     
     // Validate dates
     if (!start.isValid || !end.isValid) {
@@ -50,8 +53,10 @@ export async function GET(request: NextRequest) {
     const users = await prisma.user.findMany({
       where: {
         role: {
-          in: ['admin', 'outreach'],
+          in: ['admin', 'team_lead', 'outreach'],
         },
+        isSystem: false,
+        ...(teamId ? { teamId } : {}),
       },
       select: {
         id: true,
@@ -71,12 +76,12 @@ export async function GET(request: NextRequest) {
     // Generate all dates in the range (inclusive of both start and end) using Luxon
     const dates: string[] = []
     
-    // Parse dates as simple date strings (YYYY-MM-DD) to avoid timezone issues
-    const startDateOnly = DateTime.fromISO(startDateParam, { zone: 'utc' }).startOf('day')
-    const endDateOnly = DateTime.fromISO(endDateParam, { zone: 'utc' }).startOf('day')
+    // Parse dates as calendar days (YYYY-MM-DD) in the viewer's timezone
+    const startDateOnly = DateTime.fromISO(startDateParam, { zone }).startOf('day')
+    const endDateOnly = DateTime.fromISO(endDateParam, { zone }).startOf('day')
     
     // Calculate number of days
-    const daysDiff = endDateOnly.diff(startDateOnly, 'days').days
+    const daysDiff = Math.round(endDateOnly.diff(startDateOnly, 'days').days)
     
     // Generate all dates in the range
     for (let i = 0; i <= daysDiff; i++) {
@@ -110,7 +115,7 @@ export async function GET(request: NextRequest) {
       // each date
       for (const dateStr of dates) {
         // Use Luxon for date handling
-        const date = DateTime.fromISO(dateStr).startOf('day')
+        const date = DateTime.fromISO(dateStr, { zone }).startOf('day')
         const dateStart = date
         const dateEnd = date.endOf('day')
 
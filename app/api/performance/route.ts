@@ -21,7 +21,7 @@ interface PerformanceData {
 /**
  * GET /api/performance
  * Returns performance metrics for all users (admin and outreach) grouped by date
- * Query params: startDate, endDate
+ * Query params: startDate, endDate, teamId
  */
 export async function GET(request: NextRequest) {
   try {
@@ -33,6 +33,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const startDateParam = searchParams.get('startDate')
     const endDateParam = searchParams.get('endDate')
+    const teamId = searchParams.get('teamId') // Optional: only members of this team
 
     // Default to current month if no dates provided
     const start = startDateParam ? new Date(startDateParam) : new Date(new Date().getFullYear(), new Date().getMonth(), 1)
@@ -46,8 +47,10 @@ export async function GET(request: NextRequest) {
     const users = await prisma.user.findMany({
       where: {
         role: {
-          in: ['admin', 'outreach'],
+          in: ['admin', 'team_lead', 'outreach'],
         },
+        isSystem: false,
+        ...(teamId ? { teamId } : {}),
       },
       select: {
         id: true,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
+import { getUserTimeZone } from '@/lib/org-settings'
 import { DateTime } from 'luxon'
 
 export const dynamic = 'force-dynamic'
@@ -26,7 +27,7 @@ interface UserPerformanceData {
 
 /**
  * GET /api/performance/users
- * Returns detailed performance metrics for each user (admin/outreach)
+ * Returns detailed performance metrics for each user (admin/team lead/outreach)
  * Includes status counts and conversion percentages between status transitions
  * Sorted by highest performance first
  * Includes aggregate row at the end
@@ -34,6 +35,7 @@ interface UserPerformanceData {
  * Query parameters:
  * - startDate (optional): ISO date string - filter leads created on or after this date
  * - endDate (optional): ISO date string - filter leads created on or before this date
+ * - teamId (optional): only include members of this team
  */
 export async function GET(request: NextRequest) {
   try {
@@ -45,20 +47,22 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const startDateParam = searchParams.get('startDate')
     const endDateParam = searchParams.get('endDate')
+    const teamId = searchParams.get('teamId') // Optional: only members of this team
 
-    // Parse dates if provided
+    // Parse dates if provided; days are taken in the viewer's timezone
+    const zone = await getUserTimeZone(session.id)
     let startDate: DateTime | null = null
     let endDate: DateTime | null = null
 
     if (startDateParam) {
-      startDate = DateTime.fromISO(startDateParam, { zone: 'utc' }).startOf('day')
+      startDate = DateTime.fromISO(startDateParam, { zone }).startOf('day')
       if (!startDate.isValid) {
         return NextResponse.json({ error: 'Invalid startDate format' }, { status: 400 })
       }
     }
 
     if (endDateParam) {
-      endDate = DateTime.fromISO(endDateParam, { zone: 'utc' }).endOf('day')
+      endDate = DateTime.fromISO(endDateParam, { zone }).endOf('day')
       if (!endDate.isValid) {
         return NextResponse.json({ error: 'Invalid endDate format' }, { status: 400 })
       }
@@ -68,12 +72,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Start date must be before end date' }, { status: 400 })
     }
 
-    // Get all admin and outreach users
+    // Get all admin, team lead and outreach users (optionally one team)
     const users = await prisma.user.findMany({
       where: {
         role: {
-          in: ['admin', 'outreach'],
+          in: ['admin', 'team_lead', 'outreach'],
         },
+        isSystem: false,
+        ...(teamId ? { teamId } : {}),
       },
       select: {
         id: true,
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { PIPELINE_INCLUDE, savePipelineStages, savePipelineTransitions, transitionsMatchStages } from '@/lib/pipelines'
+import { updatePipelineSchema } from '@/lib/validations'
+
+// PATCH /api/pipelines/[id] - Rename, make default, or replace the ordered stage list and/or transitions (admin only)
+// Stages are matched by key; a stage that still has leads cannot be removed
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'pipeline.manage')
+
+    const body = await request.json()
+    const validatedData = updatePipelineSchema.parse(body)
+
+    const pipeline = await prisma.pipeline.findUnique({
+      where: { id: params.id },
+      include: PIPELINE_INCLUDE,
+    })
+
+    if (!pipeline) {
+      return NextResponse.json({ error: 'Pipeline not found' }, { status: 404 })
+    }
+
+    if (validatedData.name && validatedData.name !== pipeline.name) {
+      const duplicate = await prisma.pipeline.findUnique({
+        where: { name: validatedData.name },
+      })
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'A pipeline with this name already exists' },
+          { status: 409 }
+        )
+      }
+    }
+
+    if (validatedData.isDefault === false && pipeline.isDefault) {
+      return NextResponse.json(
+        { error: 'Make another pipeline the default instead' },
+        { status: 400 }
+      )
+    }
+
+    const stageKeys = (validatedData.stages ?? pipeline.stages).map((stage) => stage.key)
+    if (validatedData.transitions && !transitionsMatchStages(validatedData.transitions, stageKeys)) {
+      return NextResponse.json(
+        { error: 'Transitions can only connect stages of this pipeline' },
+        { status: 400 }
+      )
+    }
+
+    if (validatedData.stages) {
+      const { blockedKeys } = await savePipelineStages(pipeline.id, validatedData.stages)
+      if (blockedKeys.length > 0) {
+        return NextResponse.json(
+          { error: `Move the leads out of these stages before removing them: ${blockedKeys.join(', ')}` },
+          { status: 409 }
+        )
+      }
+    }
+
+    if (validatedData.transitions) {
+      await savePipelineTransitions(pipeline.id, validatedData.transitions)
+    }
+
+    const updatedPipeline = await prisma.$transaction(async (tx) => {
+      if (validatedData.isDefault && !pipeline.isDefault) {
+        await tx.pipeline.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        })
+      }
+
+      return tx.pipeline.update({
+        where: { id: pipeline.id },
+        data: {
+          ...(validatedData.name !== undefined ? { name: validatedData.name } : {}),
+          ...(validatedData.isDefault ? { isDefault: true } : {}),
+        },
+        include: PIPELINE_INCLUDE,
+      })
+    })
+
+    const stagesBefore = pipeline.stages.map((stage) => stage.label).join(', ')
+    const stagesAfter = updatedPipeline.stages.map((stage) => stage.label).join(', ')
+    const summary = [
+      stagesBefore !== stagesAfter ? `Stages: ${stagesAfter}` : null,
+      validatedData.transitions ? `${updatedPipeline.transitions.length} transitions` : null,
+    ]
+      .filter(Boolean)
+      .join('; ')
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'pipeline',
+      entityId: pipeline.id,
+      action: 'update',
+      before: pipeline,
+      after: updatedPipeline,
+      summary: summary || undefined,
+    })
+
+    return NextResponse.json({ pipeline: updatedPipeline })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating pipeline:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/pipelines/[id] - Delete an empty, non-default pipeline (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'pipeline.manage')
+
+    const pipeline = await prisma.pipeline.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { leads: true } } },
+    })
+
+    if (!pipeline) {
+      return NextResponse.json({ error: 'Pipeline not found' }, { status: 404 })
+    }
+
+    if (pipeline.isDefault) {
+      return NextResponse.json(
+        { error: 'The default pipeline cannot be deleted' },
+        { status: 400 }
+      )
+    }
+
+    if (pipeline._count.leads > 0) {
+      return NextResponse.json(
+        { error: 'Move the leads to another pipeline before deleting this one' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.pipeline.delete({
+      where: { id: params.id },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'pipeline',
+      entityId: pipeline.id,
+      action: 'delete',
+      before: pipeline,
+      after: null,
+      summary: `Deleted pipeline ${pipeline.name}`,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error deleting pipeline:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
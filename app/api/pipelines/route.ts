@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { getDefaultPipeline, PIPELINE_INCLUDE, transitionsMatchStages } from '@/lib/pipelines'
+import { pipelineSchema } from '@/lib/validations'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// GET /api/pipelines - List pipelines with their ordered stages and transitions (used by status pickers and filters)
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Make sure there is always a default pipeline to show
+    await getDefaultPipeline()
+
+    const pipelines = await prisma.pipeline.findMany({
+      include: {
+        ...PIPELINE_INCLUDE,
+        _count: { select: { leads: true } },
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({ pipelines })
+  } catch (error) {
+    console.error('Error fetching pipelines:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/pipelines - Create a pipeline with its stages and optional transition graph (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'pipeline.manage')
+
+    const body = await request.json()
+    const validatedData = pipelineSchema.parse(body)
+
+    const transitions = validatedData.transitions ?? []
+    if (!transitionsMatchStages(transitions, validatedData.stages.map((stage) => stage.key))) {
+      return NextResponse.json(
+        { error: 'Transitions can only connect stages of this pipeline' },
+        { status: 400 }
+      )
+    }
+
+    const existingPipeline = await prisma.pipeline.findUnique({
+      where: { name: validatedData.name },
+    })
+
+    if (existingPipeline) {
+      return NextResponse.json(
+        { error: 'A pipeline with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const pipeline = await prisma.$transaction(async (tx) => {
+      // Only one pipeline can be the default
+      if (validatedData.isDefault) {
+        await tx.pipeline.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        })
+      }
+
+      return tx.pipeline.create({
+        data: {
+          name: validatedData.name,
+          isDefault: validatedData.isDefault ?? false,
+          stages: {
+            create: validatedData.stages.map((stage, index) => ({ ...stage, position: index })),
+          },
+          transitions: {
+            create: transitions,
+          },
+        },
+        include: PIPELINE_INCLUDE,
+      })
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'pipeline',
+      entityId: pipeline.id,
+      action: 'create',
+      before: null,
+      after: pipeline,
+      summary: `Stages: ${pipeline.stages.map((stage) => stage.label).join(', ')}`,
+    })
+
+    return NextResponse.json({ pipeline }, { status: 201 })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating pipeline:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { orgSettingsSchema } from '@/lib/validations'
+import { DEFAULT_ORG_SETTINGS, ORG_SETTINGS_ID, getOrgSettings } from '@/lib/org-settings'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/settings - Org settings (timezone, working days, holidays); readable by everyone signed in
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ settings: await getOrgSettings() })
+  } catch (error: any) {
+    console.error('Error fetching settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/settings - Update org settings (admin only)
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'settings.manage')
+
+    const body = await request.json()
+    const validatedData = orgSettingsSchema.parse(body)
+    const data = {
+      ...validatedData,
+      ...(validatedData.workingDays && { workingDays: Array.from(new Set(validatedData.workingDays)).sort((a, b) => a - b) }),
+      ...(validatedData.holidays && { holidays: Array.from(new Set(validatedData.holidays)).sort() }),
+    }
+
+    const before = await prisma.orgSettings.findUnique({ where: { id: ORG_SETTINGS_ID } })
+    const settings = await prisma.orgSettings.upsert({
+      where: { id: ORG_SETTINGS_ID },
+      create: { ...DEFAULT_ORG_SETTINGS, ...data, id: ORG_SETTINGS_ID },
+      update: data,
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'org_settings',
+      entityId: ORG_SETTINGS_ID,
+      action: 'update',
+      before: before ?? { ...DEFAULT_ORG_SETTINGS },
+      after: settings,
+    })
+
+    return NextResponse.json({ settings: await getOrgSettings() })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
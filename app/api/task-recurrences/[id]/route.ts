@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { can, getAssignmentTarget, requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { taskRecurrenceSchema, updateTaskRecurrenceSchema } from '@/lib/validations'
+import { generateRecurringTasks, getResumeOccurrence, parseRecurrenceDate } from '@/lib/task-recurrence'
+import { getUserTimeZone } from '@/lib/org-settings'
+
+export const dynamic = 'force-dynamic'
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+
+// PATCH /api/task-recurrences/[id] - Edit, pause or resume a recurring task (admin, or team lead for their team); applies to future occurrences
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    requirePermission(session, 'task.manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const parsed = updateTaskRecurrenceSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 })
+    }
+
+    const existing = await prisma.taskRecurrence.findUnique({
+      where: { id },
+      include: { assignedTo: { select: { teamId: true } } },
+    })
+    if (!existing) return NextResponse.json({ error: 'Recurring task not found' }, { status: 404 })
+    if (!can(session, 'task.manage', existing)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    if (
+      parsed.data.assignedToId !== undefined &&
+      !can(session, 'task.manage', await getAssignmentTarget(parsed.data.assignedToId))
+    ) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const merged = taskRecurrenceSchema.safeParse({
+      frequency: parsed.data.frequency ?? existing.frequency,
+      daysOfWeek: parsed.data.daysOfWeek ?? existing.daysOfWeek,
+      dayOfMonth: parsed.data.dayOfMonth !== undefined ? parsed.data.dayOfMonth : existing.dayOfMonth,
+      startsOn: parsed.data.startsOn ?? toDateString(existing.startsOn),
+      endsOn: parsed.data.endsOn !== undefined ? parsed.data.endsOn : existing.endsOn && toDateString(existing.endsOn),
+    })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: merged.error.issues[0]?.message || 'Invalid input' },
+        { status: 400 }
+      )
+    }
+
+    const pattern = {
+      frequency: merged.data.frequency,
+      daysOfWeek: merged.data.frequency === 'weekly' ? merged.data.daysOfWeek : [],
+      dayOfMonth: merged.data.frequency === 'monthly' ? merged.data.dayOfMonth ?? null : null,
+      startsOn: parseRecurrenceDate(merged.data.startsOn as string),
+      endsOn: merged.data.endsOn ? parseRecurrenceDate(merged.data.endsOn) : null,
+    }
+    const isActive = parsed.data.isActive ?? existing.isActive
+    const zone = await getUserTimeZone(parsed.data.assignedToId ?? existing.assignedToId)
+
+    const updated = await prisma.taskRecurrence.update({
+      where: { id },
+      data: {
+        title: parsed.data.title,
+        description: parsed.data.description,
+        assignedToId: parsed.data.assignedToId,
+        priority: parsed.data.priority,
+        isActive,
+        ...pattern,
+        // Picks up from today; days spent paused are not made up
+        nextOccurrenceAt: getResumeOccurrence(pattern, zone),
+      },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task_recurrence',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: updated,
+    })
+
+    if (isActive) {
+      await generateRecurringTasks(id)
+    }
+
+    return NextResponse.json({ recurrence: updated })
+  } catch (error: unknown) {
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error updating recurring task:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/task-recurrences/[id] - Stop a recurring task; occurrences already created are kept
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    requirePermission(session, 'task.manage')
+
+    const { id } = await params
+    const recurrence = await prisma.taskRecurrence.findUnique({
+      where: { id },
+      include: { assignedTo: { select: { teamId: true } } },
+    })
+    if (!recurrence) return NextResponse.json({ error: 'Recurring task not found' }, { status: 404 })
+    if (!can(session, 'task.manage', recurrence)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    await prisma.taskRecurrence.delete({ where: { id } })
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task_recurrence',
+      entityId: id,
+      action: 'delete',
+      before: recurrence,
+      after: null,
+      summary: `Stopped recurring task ${recurrence.title}`,
+    })
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Recurring task not found' }, { status: 404 })
+    }
+    console.error('Error deleting recurring task:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { getScopeWhere, requirePermission } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/task-recurrences - List recurring tasks (admin sees all, team leads their team); created via POST /api/tasks
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    requirePermission(session, 'task.manage')
+
+    const recurrences = await prisma.taskRecurrence.findMany({
+      where: getScopeWhere(session, 'task.manage') ?? {},
+      include: {
+        assignedTo: { select: { id: true, username: true, role: true } },
+        createdBy: { select: { id: true, username: true } },
+        _count: { select: { tasks: true } },
+      },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    })
+
+    // Per-occurrence completion, for the "done / created" column
+    const completed = await prisma.task.groupBy({
+      by: ['recurrenceId'],
+      where: { recurrenceId: { in: recurrences.map((r) => r.id) }, status: 'done' },
+      _count: { _all: true },
+    })
+
+    return NextResponse.json({
+      recurrences: recurrences.map((recurrence) => ({
+        ...recurrence,
+        occurrences: recurrence._count.tasks,
+        completedOccurrences: completed.find((c) => c.recurrenceId === recurrence.id)?._count._all ?? 0,
+      })),
+    })
+  } catch (error: unknown) {
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching recurring tasks:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { taskTemplateSchema } from '@/lib/validations'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/task-templates/[id] - Update a template; tasks already created from it are unchanged (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'taskTemplate.manage')
+
+    const existing = await prisma.taskTemplate.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Task template not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validatedData = taskTemplateSchema.parse({
+      name: existing.name,
+      title: existing.title,
+      description: existing.description,
+      priority: existing.priority,
+      dueInHours: existing.dueInHours,
+      checklist: existing.checklist,
+      ...body,
+    })
+
+    if (validatedData.name !== existing.name) {
+      const duplicate = await prisma.taskTemplate.findUnique({
+        where: { name: validatedData.name },
+      })
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'A template with this name already exists' },
+          { status: 409 }
+        )
+      }
+    }
+
+    const template = await prisma.taskTemplate.update({
+      where: { id: params.id },
+      data: {
+        ...validatedData,
+        description: validatedData.description || null,
+      },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task_template',
+      entityId: template.id,
+      action: 'update',
+      before: existing,
+      after: template,
+    })
+
+    return NextResponse.json({ template })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating task template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/task-templates/[id] - Delete a template; tasks created from it are kept (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'taskTemplate.manage')
+
+    const template = await prisma.taskTemplate.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: 'Task template not found' }, { status: 404 })
+    }
+
+    await prisma.taskTemplate.delete({
+      where: { id: params.id },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task_template',
+      entityId: template.id,
+      action: 'delete',
+      before: template,
+      after: null,
+      summary: `Deleted template ${template.name}`,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error deleting task template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { taskTemplateSchema } from '@/lib/validations'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// GET /api/task-templates - List task templates (anyone who assigns tasks)
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'task.manage')
+
+    const templates = await prisma.taskTemplate.findMany({
+      include: { _count: { select: { tasks: true } } },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({ templates })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching task templates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/task-templates - Create a task template (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'taskTemplate.manage')
+
+    const body = await request.json()
+    const validatedData = taskTemplateSchema.parse(body)
+
+    const existing = await prisma.taskTemplate.findUnique({
+      where: { name: validatedData.name },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const template = await prisma.taskTemplate.create({
+      data: {
+        ...validatedData,
+        description: validatedData.description || null,
+        createdById: session.id,
+      },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task_template',
+      entityId: template.id,
+      action: 'create',
+      before: null,
+      after: template,
+      summary: `Created template ${template.name}`,
+    })
+
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating task template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
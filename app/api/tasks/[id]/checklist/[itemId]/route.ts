@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { recordAuditEvent } from '@/lib/audit'
+import { can, requirePermission } from '@/lib/auth'
+import { updateChecklistItemSchema } from '@/lib/validations'
+
+export const dynamic = 'force-dynamic'
+
+async function findItem(taskId: string, itemId: string) {
+  return prisma.taskChecklistItem.findFirst({
+    where: { id: itemId, taskId },
+    include: { task: { select: { title: true, assignedToId: true, assignedTo: { select: { teamId: true } } } } },
+  })
+}
+
+// PATCH /api/tasks/[id]/checklist/[itemId] - Tick/untick an item (whoever may complete the task) or rename it (admin or team lead)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, itemId } = await params
+    const parsed = updateChecklistItemSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 })
+    }
+
+    const item = await findItem(id, itemId)
+    if (!item) return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 })
+    if (parsed.data.completed !== undefined && !can(session, 'task.complete', item.task)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    if (parsed.data.text !== undefined && !can(session, 'task.manage', item.task)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const data: { text?: string; completedAt?: Date | null; completedById?: string | null } = {}
+    if (parsed.data.text !== undefined) data.text = parsed.data.text
+    if (parsed.data.completed !== undefined) {
+      data.completedAt = parsed.data.completed ? item.completedAt ?? new Date() : null
+      data.completedById = parsed.data.completed ? item.completedById ?? session.id : null
+    }
+
+    const updated = await prisma.taskChecklistItem.update({
+      where: { id: itemId },
+      data,
+      include: { completedBy: { select: { id: true, username: true } } },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task',
+      entityId: id,
+      action: 'checklist_update',
+      before: item,
+      after: updated,
+      summary: `Updated checklist item "${updated.text}" of ${item.task.title}`,
+    })
+    return NextResponse.json({ item: updated })
+  } catch (error: unknown) {
+    console.error('Error updating checklist item:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/tasks/[id]/checklist/[itemId] - Remove a checklist item (admin, or team lead for their team)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    requirePermission(session, 'task.manage')
+
+    const { id, itemId } = await params
+    const item = await findItem(id, itemId)
+    if (!item) return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 })
+    if (!can(session, 'task.manage', item.task)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    await prisma.taskChecklistItem.delete({ where: { id: itemId } })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task',
+      entityId: id,
+      action: 'checklist_delete',
+      before: item,
+      after: null,
+      summary: `Removed checklist item "${item.text}" from ${item.task.title}`,
+    })
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 })
+    }
+    console.error('Error deleting checklist item:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
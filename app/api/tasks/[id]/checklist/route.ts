@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { recordAuditEvent } from '@/lib/audit'
+import { can, requirePermission } from '@/lib/auth'
+import { checklistItemSchema } from '@/lib/validations'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/tasks/[id]/checklist - Add a checklist item (admin, or team lead for their team)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    requirePermission(session, 'task.manage')
+
+    const { id } = await params
+    const parsed = checklistItemSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors?.text?.[0] || 'Invalid input' },
+        { status: 400 }
+      )
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id },
+      include: {
+        assignedTo: { select: { teamId: true } },
+        checklist: { orderBy: { position: 'desc' }, take: 1, select: { position: true } },
+      },
+    })
+    if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    if (!can(session, 'task.manage', task)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    const item = await prisma.taskChecklistItem.create({
+      data: {
+        taskId: id,
+        text: parsed.data.text,
+        position: (task.checklist[0]?.position ?? -1) + 1,
+      },
+      include: { completedBy: { select: { id: true, username: true } } },
+    })
+
+    // Checklist and comment writes are audited on the task they belong to
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task',
+      entityId: id,
+      action: 'checklist_add',
+      before: null,
+      after: item,
+      summary: `Added checklist item "${item.text}" to ${task.title}`,
+    })
+    return NextResponse.json({ item })
+  } catch (error: unknown) {
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error adding checklist item:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
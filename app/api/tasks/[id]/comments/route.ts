@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { recordAuditEvent } from '@/lib/audit'
+import { canAccessTask } from '@/lib/tasks'
+import { taskCommentSchema } from '@/lib/validations'
+
+export const dynamic = 'force-dynamic'
+
+const COMMENT_INCLUDE = {
+  author: { select: { id: true, username: true, role: true } },
+}
+
+async function findTask(id: string) {
+  return prisma.task.findUnique({
+    where: { id },
+    select: { id: true, title: true, assignedToId: true, assignedTo: { select: { teamId: true } } },
+  })
+}
+
+// GET /api/tasks/[id]/comments - Comment thread of a task, oldest first (assignee, their team lead or admin)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const task = await findTask(id)
+    if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    if (!canAccessTask(session, task)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    const comments = await prisma.taskComment.findMany({
+      where: { taskId: id },
+      include: COMMENT_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    })
+    return NextResponse.json({ comments })
+  } catch (error: unknown) {
+    console.error('Error fetching task comments:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/tasks/[id]/comments - Comment on a task, or reply to a comment with parentId
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const parsed = taskCommentSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors?.body?.[0] || 'Invalid input' },
+        { status: 400 }
+      )
+    }
+
+    const task = await findTask(id)
+    if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    if (!canAccessTask(session, task)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    // Replies hang off the top-level comment, so a reply to a reply joins the same thread
+    let parentId: string | null = null
+    if (parsed.data.parentId) {
+      const parent = await prisma.taskComment.findFirst({
+        where: { id: parsed.data.parentId, taskId: id },
+        select: { id: true, parentId: true },
+      })
+      if (!parent) return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+      parentId = parent.parentId ?? parent.id
+    }
+
+    const comment = await prisma.taskComment.create({
+      data: {
+        taskId: id,
+        authorId: session.id,
+        parentId,
+        body: parsed.data.body,
+      },
+      include: COMMENT_INCLUDE,
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task',
+      entityId: id,
+      action: 'comment',
+      before: null,
+      after: comment,
+      summary: `${parentId ? 'Replied to a comment' : 'Commented'} on ${task.title}`,
+    })
+    return NextResponse.json({ comment })
+  } catch (error: unknown) {
+    console.error('Error adding task comment:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
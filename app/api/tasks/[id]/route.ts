@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
-import { requireRole } from '@/lib/auth'
+import { can, getAssignmentTarget, requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 import { completeTaskSchema, updateTaskSchema } from '@/lib/validations'
-import { DateTime } from 'luxon'
+import { advanceTaskLeads, findLinkableLeads, isStageOfAnyPipeline } from '@/lib/task-leads'
+import { TASK_INCLUDE, parseTaskTimestamp } from '@/lib/tasks'
+import { getUserTimeZone } from '@/lib/org-settings'
+import { TaskPriority } from '@/lib/constants'
 
 export const dynamic = 'force-dynamic'
 
-// DELETE /api/tasks/[id] - Delete task (admin only)
+// DELETE /api/tasks/[id] - Delete task (admin, or team lead for their team)
 export async function DELETE(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -17,10 +21,26 @@ export async function DELETE(
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
-    requireRole(session, ['admin'])
+    requirePermission(session, 'task.manage')
 
     const { id } = await params
+    const task = await prisma.task.findUnique({
+      where: { id },
+      include: { assignedTo: { select: { teamId: true } } },
+    })
+    if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    if (!can(session, 'task.manage', task)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
     await prisma.task.delete({ where: { id } })
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task',
+      entityId: id,
+      action: 'delete',
+      before: task,
+      after: null,
+      summary: `Deleted task ${task.title}`,
+    })
     return NextResponse.json({ success: true })
   } catch (error: unknown) {
     if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
@@ -34,7 +54,7 @@ export async function DELETE(
   }
 }
 
-// PATCH /api/tasks/[id] - Mark task complete (assigned user or admin) OR update task (admin only)
+// PATCH /api/tasks/[id] - Mark task complete (assigned user, their team lead or admin; moves linked leads to completeLeadStatus unless advanceLeads is false) OR update task (admin or team lead)
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -53,10 +73,18 @@ export async function PATCH(
     if (completeParsed.success && completeParsed.data.completed) {
       const task = await prisma.task.findUnique({
         where: { id },
-        select: { id: true, assignedToId: true, completedAt: true },
+        select: {
+          id: true,
+          title: true,
+          assignedToId: true,
+          completedAt: true,
+          status: true,
+          completeLeadStatus: true,
+          assignedTo: { select: { teamId: true } },
+        },
       })
       if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 })
-      const canComplete = session.role === 'admin' || task.assignedToId === session.id
+      const canComplete = can(session, 'task.complete', task)
       if (!canComplete) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
       if (task.completedAt) {
         return NextResponse.json({ task: { ...task, completedAt: task.completedAt } })
@@ -64,12 +92,20 @@ export async function PATCH(
       const updated = await prisma.task.update({
         where: { id },
         data: { completedAt: new Date(), status: 'done' },
-        include: {
-          assignedTo: { select: { id: true, username: true, role: true } },
-          createdBy: { select: { id: true, username: true } },
-        },
+        include: TASK_INCLUDE,
       })
-      return NextResponse.json({ task: updated })
+      await recordAuditEvent({
+        actorId: session.id,
+        entityType: 'task',
+        entityId: id,
+        action: 'complete',
+        before: task,
+        after: updated,
+      })
+      const leads = completeParsed.data.advanceLeads === false
+        ? { advanced: [], skipped: [] }
+        : await advanceTaskLeads(session, task)
+      return NextResponse.json({ task: updated, leads })
     }
 
     // Edit task flow (admin only)
@@ -77,10 +113,21 @@ export async function PATCH(
     if (!updateParsed.success) {
       return NextResponse.json({ error: 'Invalid input' }, { status: 400 })
     }
-    requireRole(session, ['admin'])
+    requirePermission(session, 'task.manage')
 
-    const existing = await prisma.task.findUnique({ where: { id } })
+    const existing = await prisma.task.findUnique({
+      where: { id },
+      include: { assignedTo: { select: { teamId: true } }, leads: { select: { leadId: true } } },
+    })
     if (!existing) return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    if (!can(session, 'task.manage', existing)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    // Reassigning must also stay within what the user may manage
+    if (
+      updateParsed.data.assignedToId !== undefined &&
+      !can(session, 'task.manage', await getAssignmentTarget(updateParsed.data.assignedToId))
+    ) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
 
     const data: {
       title?: string
@@ -88,35 +135,55 @@ export async function PATCH(
       assignedToId?: string
       createdAt?: Date
       dueAt?: Date
+      priority?: TaskPriority
+      completeLeadStatus?: string | null
+      leads?: { deleteMany: { leadId: { notIn: string[] } }; create: { leadId: string }[] }
     } = {}
     if (updateParsed.data.title !== undefined) data.title = updateParsed.data.title
     if (updateParsed.data.description !== undefined) data.description = updateParsed.data.description
     if (updateParsed.data.assignedToId !== undefined) data.assignedToId = updateParsed.data.assignedToId
+    if (updateParsed.data.priority !== undefined) data.priority = updateParsed.data.priority
 
-    function parseTaskTimestamp(str: string): Date | null {
-      if (!str?.trim()) return null
-      const s = str.trim()
-      if (s.includes('T')) {
-        const dt = s.endsWith('Z') ? DateTime.fromISO(s, { zone: 'utc' }) : DateTime.fromISO(s, { setZone: true })
-        if (dt.isValid) return dt.toUTC().toJSDate()
-        return null
+    // leadIds replaces the linked leads; links that stay keep their follow-up marker
+    const linkedLeadIds = existing.leads.map((link) => link.leadId)
+    const leadIds = updateParsed.data.leadIds ? Array.from(new Set(updateParsed.data.leadIds)) : linkedLeadIds
+    if (updateParsed.data.leadIds) {
+      const addedIds = leadIds.filter((leadId) => !linkedLeadIds.includes(leadId))
+      const added = await findLinkableLeads(session, addedIds)
+      if (added.length !== addedIds.length) {
+        return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
       }
-      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s)
-      if (match) {
-        const [, y, m, d] = match
-        const now = DateTime.utc()
-        const dt = DateTime.utc(parseInt(y!, 10), parseInt(m!, 10), parseInt(d!, 10), now.hour, now.minute, now.second)
-        if (dt.isValid) return dt.toJSDate()
+      data.leads = {
+        deleteMany: { leadId: { notIn: leadIds } },
+        create: added.map((lead) => ({ leadId: lead.id })),
+      }
+    }
+    if (updateParsed.data.completeLeadStatus !== undefined) {
+      data.completeLeadStatus = updateParsed.data.completeLeadStatus || null
+    }
+    const completeLeadStatus = data.completeLeadStatus !== undefined ? data.completeLeadStatus : existing.completeLeadStatus
+    if (completeLeadStatus && (data.completeLeadStatus !== undefined || data.leads)) {
+      const pipelineIds = (await prisma.lead.findMany({
+        where: { id: { in: leadIds } },
+        select: { pipelineId: true },
+      })).map((lead) => lead.pipelineId)
+      if (!(await isStageOfAnyPipeline(completeLeadStatus, pipelineIds))) {
+        return NextResponse.json(
+          { error: `"${completeLeadStatus}" is not a stage of the linked leads' pipelines` },
+          { status: 400 }
+        )
       }
-      return null
     }
 
+    // Dates are days in the (new) assignee's timezone
+    const zone = await getUserTimeZone(data.assignedToId ?? existing.assignedToId)
+
     if (updateParsed.data.createdAt) {
-      const parsed = parseTaskTimestamp(updateParsed.data.createdAt)
+      const parsed = parseTaskTimestamp(updateParsed.data.createdAt, zone)
       if (parsed) data.createdAt = parsed
     }
     if (updateParsed.data.dueAt) {
-      const parsed = parseTaskTimestamp(updateParsed.data.dueAt)
+      const parsed = parseTaskTimestamp(updateParsed.data.dueAt, zone)
       if (parsed) data.dueAt = parsed
     }
 
@@ -132,10 +199,7 @@ export async function PATCH(
     if (Object.keys(data).length === 0) {
       const current = await prisma.task.findUnique({
         where: { id },
-        include: {
-          assignedTo: { select: { id: true, username: true, role: true } },
-          createdBy: { select: { id: true, username: true } },
-        },
+        include: TASK_INCLUDE,
       })
       return NextResponse.json({ task: current })
     }
@@ -143,10 +207,15 @@ export async function PATCH(
     const updated = await prisma.task.update({
       where: { id },
       data,
-      include: {
-        assignedTo: { select: { id: true, username: true, role: true } },
-        createdBy: { select: { id: true, username: true } },
-      },
+      include: TASK_INCLUDE,
+    })
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: updated,
     })
     return NextResponse.json({ task: updated })
   } catch (error: unknown) {
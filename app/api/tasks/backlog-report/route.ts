@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { getScopeWhere, requirePermission } from '@/lib/auth'
+import { getBacklogSince } from '@/lib/tasks-backlog'
+import { countBusinessDays, getWorkingCalendar } from '@/lib/working-calendar'
+
+export const dynamic = 'force-dynamic'
+
+interface BacklogReportRow {
+  user: { id: string; username: string; role: string }
+  totalTasks: number
+  backlogCount: number
+  escalatedCount: number
+  oldestDays: number
+  averageDays: number
+  everBacklogged: number
+}
+
+// GET /api/tasks/backlog-report - Per-user backlog: current backlog size and age, escalations, and how many tasks ever went to backlog (admin sees all, team leads their team)
+// Ages are in business days of the working calendar, like the escalation thresholds
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    requirePermission(session, 'task.viewAll')
+
+    const scope = getScopeWhere(session, 'task.viewAll') ?? {}
+    const now = new Date()
+    const calendar = await getWorkingCalendar()
+
+    const [tasks, totals] = await Promise.all([
+      prisma.task.findMany({
+        where: { AND: [scope, { OR: [{ status: 'backlog' }, { backlogAt: { not: null } }] }] },
+        select: {
+          status: true,
+          backlogAt: true,
+          dueAt: true,
+          escalationLevel: true,
+          assignedTo: { select: { id: true, username: true, role: true } },
+        },
+      }),
+      prisma.task.groupBy({
+        by: ['assignedToId'],
+        where: scope,
+        _count: { _all: true },
+      }),
+    ])
+
+    const rows = new Map<string, BacklogReportRow & { totalDays: number }>()
+    for (const task of tasks) {
+      let row = rows.get(task.assignedTo.id)
+      if (!row) {
+        row = {
+          user: task.assignedTo,
+          totalTasks: totals.find((t) => t.assignedToId === task.assignedTo.id)?._count._all ?? 0,
+          backlogCount: 0,
+          escalatedCount: 0,
+          oldestDays: 0,
+          averageDays: 0,
+          everBacklogged: 0,
+          totalDays: 0,
+        }
+        rows.set(task.assignedTo.id, row)
+      }
+      row.everBacklogged++
+      if (task.status !== 'backlog') continue
+
+      const days = countBusinessDays(getBacklogSince(task), now, calendar)
+      row.backlogCount++
+      row.totalDays += days
+      row.oldestDays = Math.max(row.oldestDays, days)
+      if (task.escalationLevel >= 2) row.escalatedCount++
+    }
+
+    const report: BacklogReportRow[] = Array.from(rows.values())
+      .map(({ totalDays, ...row }) => ({
+        ...row,
+        oldestDays: row.oldestDays,
+        averageDays: row.backlogCount > 0 ? Math.round((totalDays / row.backlogCount) * 10) / 10 : 0,
+      }))
+      .sort((a, b) => b.backlogCount - a.backlogCount || b.oldestDays - a.oldestDays)
+
+    return NextResponse.json({ report })
+  } catch (error: unknown) {
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error building backlog report:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { can, requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { bulkAssignTaskSchema } from '@/lib/validations'
+
+export const dynamic = 'force-dynamic'
+
+interface BulkAssignResult {
+  userId: string
+  username: string | null
+  status: 'created' | 'failed'
+  taskId?: string
+  error?: string
+}
+
+// POST /api/tasks/bulk - Give each listed user, or everyone active with a role, a task from a template (admin, or team lead for their team); one result per user
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    requirePermission(session, 'task.manage')
+
+    const parsed = bulkAssignTaskSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid input' },
+        { status: 400 }
+      )
+    }
+    const { templateId, userIds = [], role } = parsed.data
+
+    const template = await prisma.taskTemplate.findUnique({ where: { id: templateId } })
+    if (!template) return NextResponse.json({ error: 'Task template not found' }, { status: 404 })
+
+    const users = await prisma.user.findMany({
+      where: {
+        isSystem: false,
+        OR: [
+          ...(userIds.length > 0 ? [{ id: { in: userIds } }] : []),
+          ...(role ? [{ role, isActive: true }] : []),
+        ],
+      },
+      select: { id: true, username: true, isActive: true, teamId: true },
+      orderBy: { username: 'asc' },
+    })
+
+    const results: BulkAssignResult[] = []
+    for (const userId of Array.from(new Set(userIds))) {
+      if (!users.some((u) => u.id === userId)) {
+        results.push({ userId, username: null, status: 'failed', error: 'User not found' })
+      }
+    }
+
+    for (const user of users) {
+      const listed = userIds.includes(user.id)
+      const fail = (error: string) => results.push({ userId: user.id, username: user.username, status: 'failed', error })
+
+      if (!can(session, 'task.manage', { assignedToId: user.id, assignedTo: { teamId: user.teamId } })) {
+        // A role only expands to the users the caller manages; listing someone else is an error
+        if (listed) fail('You cannot assign tasks to this user')
+        continue
+      }
+      if (!user.isActive) {
+        fail('User is deactivated')
+        continue
+      }
+
+      try {
+        const now = new Date()
+        const task = await prisma.task.create({
+          data: {
+            title: template.title,
+            description: template.description,
+            priority: template.priority,
+            assignedToId: user.id,
+            createdById: session.id,
+            createdAt: now,
+            dueAt: new Date(now.getTime() + template.dueInHours * 60 * 60 * 1000),
+            status: 'undone',
+            templateId: template.id,
+            checklist: { create: template.checklist.map((text, position) => ({ text, position })) },
+          },
+        })
+
+        await recordAuditEvent({
+          actorId: session.id,
+          entityType: 'task',
+          entityId: task.id,
+          action: 'create',
+          before: null,
+          after: task,
+          summary: `Assigned template ${template.name} to ${user.username}`,
+        })
+        results.push({ userId: user.id, username: user.username, status: 'created', taskId: task.id })
+      } catch (error: unknown) {
+        console.error(`Error assigning template to ${user.username}:`, error)
+        fail('Failed to create task')
+      }
+    }
+
+    return NextResponse.json({
+      results,
+      created: results.filter((r) => r.status === 'created').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    })
+  } catch (error: unknown) {
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message === 'Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error bulk assigning tasks:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
-import { requireRole } from '@/lib/auth'
+import { can, getAssignmentTarget, getScopeWhere, requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 import { createTaskSchema } from '@/lib/validations'
+import { findLinkableLeads, isStageOfAnyPipeline } from '@/lib/task-leads'
+import { TASK_INCLUDE, parseTaskTimestamp } from '@/lib/tasks'
+import { TASK_PRIORITIES } from '@/lib/constants'
+import { generateRecurringTasks, getResumeOccurrence, parseRecurrenceDate } from '@/lib/task-recurrence'
+import { syncTaskBacklog } from '@/lib/tasks-backlog'
+import { getDayRange, getOrgSettings, getUserTimeZone, resolveTimeZone } from '@/lib/org-settings'
+import { getDefaultDueAt } from '@/lib/working-calendar'
 import { DateTime } from 'luxon'
 
 export const dynamic = 'force-dynamic'
 
-// GET /api/tasks - List tasks (role-based: admin sees all + filters, users see their own)
+// GET /api/tasks - List tasks (admin sees all + filters, team leads their team + filters, users see their own; ?leadId= for tasks linked to a lead, ?priority= and ?sort=priority)
 export async function GET(request: NextRequest) {
   try {
     const session = await getSession()
@@ -23,63 +32,65 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '10', 10)))
     const dueDateTo = searchParams.get('dueDateTo') || ''   // task.dueAt on this exact date
     const createdAtTo = searchParams.get('createdAtTo') || '' // task.createdAt on this exact date
+    const leadId = searchParams.get('leadId') || ''
+    const priority = searchParams.get('priority') || ''
+    const sort = searchParams.get('sort') || 'due' // due | priority
 
-    const now = new Date()
     const skip = (page - 1) * limit
+    const orderBy: Prisma.TaskOrderByWithRelationInput[] =
+      sort === 'priority'
+        ? [{ priority: 'desc' }, { dueAt: 'asc' }, { createdAt: 'desc' }]
+        : [{ dueAt: 'asc' }, { createdAt: 'desc' }]
 
-    // Sync: overdue undone tasks become backlog
-    await prisma.task.updateMany({
-      where: { status: 'undone', dueAt: { lt: now } },
-      data: { status: 'backlog' },
-    })
+    // Sync: overdue undone tasks become backlog (and their creators are notified)
+    await syncTaskBacklog()
 
-    function parseSingleDate(dateStr: string): { gte: Date; lte: Date } | undefined {
-      const parsed = dateStr ? DateTime.fromISO(dateStr, { zone: 'utc' }) : null
-      if (!parsed?.isValid) return undefined
-      return {
-        gte: parsed.startOf('day').toJSDate(),
-        lte: parsed.endOf('day').toJSDate(),
-      }
-    }
+    // Dates in the filters are days in the requesting user's timezone
+    const zone = await getUserTimeZone(session.id)
+    const parseSingleDate = (dateStr: string) => getDayRange(dateStr, zone)
 
-    if (session.role === 'admin') {
-      const where: Record<string, unknown> = {}
+    if (can(session, 'task.viewAll')) {
+      const filters: Record<string, unknown> = {}
 
       if (statusFilter === 'undone' || statusFilter === 'done' || statusFilter === 'backlog') {
-        where.status = statusFilter
+        filters.status = statusFilter
       }
 
       if (userId) {
-        where.assignedToId = userId
+        filters.assignedToId = userId
+      }
+
+      if (leadId) {
+        filters.leads = { some: { leadId } }
+      }
+
+      if ((TASK_PRIORITIES as string[]).includes(priority)) {
+        filters.priority = priority
       }
 
-      if (date) {
-        const parsed = DateTime.fromISO(date, { zone: 'utc' })
-        if (parsed.isValid) {
-          const start = parsed.startOf('day').toJSDate()
-          const end = parsed.endOf('day').toJSDate()
-          where.dueAt = { gte: start, lte: end }
-        }
+      const dueOn = parseSingleDate(date)
+      if (dueOn) {
+        filters.dueAt = dueOn
       }
 
       // dueDateTo = task.dueAt on this exact date; createdAtTo = task.createdAt on this exact date
       const dueOnDate = parseSingleDate(dueDateTo)
       if (dueOnDate) {
-        where.dueAt = { ...(where.dueAt as object || {}), ...dueOnDate }
+        filters.dueAt = { ...(filters.dueAt as object || {}), ...dueOnDate }
       }
       const createdOnDate = parseSingleDate(createdAtTo)
       if (createdOnDate) {
-        where.createdAt = createdOnDate
+        filters.createdAt = createdOnDate
       }
 
+      // ANDed with the scope, so a userId outside it matches nothing instead of widening it
+      const where = { AND: [getScopeWhere(session, 'task.viewAll') ?? {}, filters] }
+
       const [tasks, total] = await Promise.all([
         prisma.task.findMany({
           where,
-          include: {
-            assignedTo: { select: { id: true, username: true, role: true } },
-            createdBy: { select: { id: true, username: true } },
-          },
-          orderBy: [{ dueAt: 'asc' }, { createdAt: 'desc' }],
+          include: TASK_INCLUDE,
+          orderBy,
           skip,
           take: limit,
         }),
@@ -96,6 +107,8 @@ export async function GET(request: NextRequest) {
     if (statusFilter === 'undone' || statusFilter === 'done' || statusFilter === 'backlog') {
       where.status = statusFilter
     }
+    if (leadId) where.leads = { some: { leadId } }
+    if ((TASK_PRIORITIES as string[]).includes(priority)) where.priority = priority
 
     // dueDateTo = dueAt on this date; createdAtTo = createdAt on this date
     const dueOnDate = parseSingleDate(dueDateTo)
@@ -106,11 +119,8 @@ export async function GET(request: NextRequest) {
     const [tasks, total] = await Promise.all([
       prisma.task.findMany({
         where,
-        include: {
-          assignedTo: { select: { id: true, username: true, role: true } },
-          createdBy: { select: { id: true, username: true } },
-        },
-        orderBy: [{ dueAt: 'asc' }, { createdAt: 'desc' }],
+        include: TASK_INCLUDE,
+        orderBy,
         skip,
         take: limit,
       }),
@@ -130,14 +140,14 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/tasks - Create task (admin only), due in 24 hours
+// POST /api/tasks - Create task (admin, or team lead for their team), due in 24 hours, optionally linked to leads or recurring
 export async function POST(request: NextRequest) {
   try {
     const session = await getSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
-    requireRole(session, ['admin'])
+    requirePermission(session, 'task.manage')
 
     const body = await request.json()
     const parsed = createTaskSchema.safeParse(body)
@@ -148,36 +158,86 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { title, description, assignedToId, createdAt: createdAtStr, dueAt: dueAtStr } = parsed.data
-    const now = DateTime.utc()
-    let createdAt = now.toJSDate()
-    let dueAt = now.plus({ hours: 24 }).toJSDate()
-
-    function parseTaskTimestamp(str: string): Date | null {
-      if (!str?.trim()) return null
-      const s = str.trim()
-      if (s.includes('T')) {
-        const dt = s.endsWith('Z') ? DateTime.fromISO(s, { zone: 'utc' }) : DateTime.fromISO(s, { setZone: true })
-        if (dt.isValid) return dt.toUTC().toJSDate()
-        return null
+    const { title, description, assignedToId, createdAt: createdAtStr, dueAt: dueAtStr, leadIds = [], completeLeadStatus, recurrence, priority: taskPriority, checklist = [] } = parsed.data
+    if (!can(session, 'task.manage', await getAssignmentTarget(assignedToId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const leads = await findLinkableLeads(session, leadIds)
+    if (leads.length !== new Set(leadIds).size) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+    if (completeLeadStatus && !(await isStageOfAnyPipeline(completeLeadStatus, leads.map((l) => l.pipelineId)))) {
+      return NextResponse.json(
+        { error: `"${completeLeadStatus}" is not a stage of the linked leads' pipelines` },
+        { status: 400 }
+      )
+    }
+
+    // Dates are days in the assignee's timezone
+    const settings = await getOrgSettings()
+    const assignee = await prisma.user.findUnique({ where: { id: assignedToId }, select: { timezone: true } })
+    const zone = resolveTimeZone(assignee?.timezone, settings)
+
+    // Recurring task: store the series and create today's occurrence if today is one
+    if (recurrence) {
+      if (leads.length > 0) {
+        return NextResponse.json({ error: 'Recurring tasks cannot be linked to leads' }, { status: 400 })
+      }
+      if (checklist.length > 0) {
+        return NextResponse.json({ error: 'Recurring tasks cannot have a checklist' }, { status: 400 })
       }
-      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s)
-      if (match) {
-        const [, y, m, d] = match
-        const now = DateTime.utc()
-        const dt = DateTime.utc(parseInt(y!, 10), parseInt(m!, 10), parseInt(d!, 10), now.hour, now.minute, now.second)
-        if (dt.isValid) return dt.toJSDate()
+      const pattern = {
+        frequency: recurrence.frequency,
+        daysOfWeek: recurrence.frequency === 'weekly' ? recurrence.daysOfWeek : [],
+        dayOfMonth: recurrence.frequency === 'monthly' ? recurrence.dayOfMonth ?? null : null,
+        startsOn: recurrence.startsOn
+          ? parseRecurrenceDate(recurrence.startsOn)
+          : parseRecurrenceDate(DateTime.now().setZone(zone).toISODate()!),
+        endsOn: recurrence.endsOn ? parseRecurrenceDate(recurrence.endsOn) : null,
       }
-      return null
+      const series = await prisma.taskRecurrence.create({
+        data: {
+          title,
+          description: description || null,
+          assignedToId,
+          createdById: session.id,
+          priority: taskPriority,
+          ...pattern,
+          nextOccurrenceAt: getResumeOccurrence(pattern, zone),
+        },
+      })
+
+      await recordAuditEvent({
+        actorId: session.id,
+        entityType: 'task_recurrence',
+        entityId: series.id,
+        action: 'create',
+        before: null,
+        after: series,
+      })
+
+      await generateRecurringTasks(series.id)
+      const task = await prisma.task.findFirst({
+        where: { recurrenceId: series.id },
+        include: TASK_INCLUDE,
+      })
+
+      return NextResponse.json({ task, recurrence: series })
     }
 
+    // Without a due date the task is due 24 hours from now, past weekends and holidays if the org skips them
+    const now = DateTime.now().setZone(zone)
+    let createdAt = now.toJSDate()
+    let dueAt = getDefaultDueAt(now, settings).toJSDate()
+
     if (createdAtStr || dueAtStr) {
       if (createdAtStr) {
-        const parsedCreated = parseTaskTimestamp(createdAtStr)
+        const parsedCreated = parseTaskTimestamp(createdAtStr, zone)
         if (parsedCreated) createdAt = parsedCreated
       }
       if (dueAtStr) {
-        const parsedDue = parseTaskTimestamp(dueAtStr)
+        const parsedDue = parseTaskTimestamp(dueAtStr, zone)
         if (parsedDue) dueAt = parsedDue
       }
       if (new Date(dueAt).getTime() < new Date(createdAt).getTime()) {
@@ -197,11 +257,21 @@ export async function POST(request: NextRequest) {
         createdAt,
         dueAt,
         status: 'undone',
+        priority: taskPriority,
+        completeLeadStatus: completeLeadStatus || null,
+        leads: { create: leads.map((lead) => ({ leadId: lead.id })) },
+        checklist: { create: checklist.map((text, position) => ({ text, position })) },
       },
-      include: {
-        assignedTo: { select: { id: true, username: true, role: true } },
-        createdBy: { select: { id: true, username: true } },
-      },
+      include: TASK_INCLUDE,
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'task',
+      entityId: task.id,
+      action: 'create',
+      before: null,
+      after: task,
     })
 
     return NextResponse.json({ task })
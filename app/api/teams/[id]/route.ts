@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { teamSchema } from '@/lib/validations'
+
+// PATCH /api/teams/[id] - Rename a team (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const body = await request.json()
+    const validatedData = teamSchema.parse(body)
+
+    const team = await prisma.team.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    const duplicate = await prisma.team.findUnique({
+      where: { name: validatedData.name },
+    })
+
+    if (duplicate && duplicate.id !== team.id) {
+      return NextResponse.json(
+        { error: 'A team with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const updatedTeam = await prisma.team.update({
+      where: { id: params.id },
+      data: { name: validatedData.name },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'team',
+      entityId: team.id,
+      action: 'update',
+      before: team,
+      after: updatedTeam,
+    })
+
+    return NextResponse.json({ team: updatedTeam })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating team:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/teams/[id] - Delete a team; its members are left without a team (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const team = await prisma.team.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    await prisma.team.delete({
+      where: { id: params.id },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'team',
+      entityId: team.id,
+      action: 'delete',
+      before: team,
+      after: null,
+      summary: `Deleted team ${team.name}`,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error deleting team:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { teamSchema } from '@/lib/validations'
+
+// Force dynamic rendering for this route (uses cookies)
+export const dynamic = 'force-dynamic'
+
+// GET /api/teams - List teams with their members (used by team pickers and filters)
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const teams = await prisma.team.findMany({
+      include: {
+        members: {
+          where: { isActive: true },
+          select: { id: true, username: true, role: true },
+          orderBy: { username: 'asc' },
+        },
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({ teams })
+  } catch (error) {
+    console.error('Error fetching teams:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/teams - Create a team (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const body = await request.json()
+    const validatedData = teamSchema.parse(body)
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { name: validatedData.name },
+    })
+
+    if (existingTeam) {
+      return NextResponse.json(
+        { error: 'A team with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const team = await prisma.team.create({
+      data: { name: validatedData.name },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'team',
+      entityId: team.id,
+      action: 'create',
+      before: null,
+      after: team,
+    })
+
+    return NextResponse.json({ team }, { status: 201 })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating team:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession, revokeAllUserSessions } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// POST /api/users/[id]/deactivate - Deactivate a user (admin only)
+// The user row is kept so their leads' StatusHistory stays intact
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const user = await prisma.user.findFirst({
+      where: { id: params.id, isSystem: false },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.id === session.id) {
+      return NextResponse.json(
+        { error: 'You cannot deactivate your own account' },
+        { status: 400 }
+      )
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json(
+        { error: 'User is already deactivated' },
+        { status: 400 }
+      )
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: params.id },
+      data: {
+        isActive: false,
+        deactivatedAt: new Date(),
+      },
+      select: {
+        id: true,
+        username: true,
+        role: true,
+        isActive: true,
+        deactivatedAt: true,
+        lockedUntil: true,
+        createdAt: true,
+      },
+    })
+
+    // Kick the user out of every device immediately
+    await revokeAllUserSessions(user.id)
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'deactivate',
+      before: user,
+      after: updatedUser,
+    })
+
+    return NextResponse.json({ user: updatedUser })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error deactivating user:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
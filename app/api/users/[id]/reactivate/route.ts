@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// POST /api/users/[id]/reactivate - Reactivate a deactivated user (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const user = await prisma.user.findFirst({
+      where: { id: params.id, isSystem: false },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.isActive) {
+      return NextResponse.json(
+        { error: 'User is already active' },
+        { status: 400 }
+      )
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: params.id },
+      data: {
+        isActive: true,
+        deactivatedAt: null,
+      },
+      select: {
+        id: true,
+        username: true,
+        role: true,
+        isActive: true,
+        deactivatedAt: true,
+        lockedUntil: true,
+        createdAt: true,
+      },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'reactivate',
+      before: user,
+      after: updatedUser,
+    })
+
+    return NextResponse.json({ user: updatedUser })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error reactivating user:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
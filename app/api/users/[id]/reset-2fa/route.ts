@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession, revokeAllUserSessions } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// POST /api/users/[id]/reset-2fa - Remove a user's authenticator and recovery codes (admin only)
+// Used when a user has lost their device; if 2FA is required they enroll again on next login
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const user = await prisma.user.findFirst({
+      where: { id: params.id, isSystem: false },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totpEnabled: false,
+        totpEnabledAt: null,
+        totpSecret: null,
+        totpRecoveryCodes: [],
+      },
+    })
+
+    await revokeAllUserSessions(user.id)
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'reset_2fa',
+      summary: `Reset two-factor authentication for ${user.username}`,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error resetting two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
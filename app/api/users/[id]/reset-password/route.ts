@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession, revokeAllUserSessions } from '@/lib/session'
+import { requirePermission, hashPassword } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { resetPasswordSchema, passwordSchema } from '@/lib/validations'
+
+// POST /api/users/[id]/reset-password - Set a new password for a user (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const body = await request.json()
+    const validatedData = resetPasswordSchema.parse(body)
+
+    const user = await prisma.user.findFirst({
+      where: { id: params.id, isSystem: false },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    passwordSchema(user.username).parse(validatedData.password)
+
+    await prisma.user.update({
+      where: { id: params.id },
+      data: {
+        password: await hashPassword(validatedData.password),
+        passwordChangedAt: new Date(),
+        mustChangePassword: validatedData.mustChangePassword ?? false,
+      },
+    })
+
+    // Sessions started with the old password should not survive a reset
+    await revokeAllUserSessions(user.id)
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'reset_password',
+      summary: `Reset password for ${user.username}`,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
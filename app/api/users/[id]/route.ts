@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSession, revokeAllUserSessions } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { updateUserSchema } from '@/lib/validations'
+
+// PATCH /api/users/[id] - Change a user's role, team or 2FA requirement (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const body = await request.json()
+    const validatedData = updateUserSchema.parse(body)
+
+    const user = await prisma.user.findFirst({
+      where: { id: params.id, isSystem: false },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Prevent admins from locking themselves out of user management
+    if (user.id === session.id && validatedData.role && validatedData.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'You cannot remove your own admin role' },
+        { status: 400 }
+      )
+    }
+
+    if (validatedData.teamId) {
+      const team = await prisma.team.findUnique({ where: { id: validatedData.teamId } })
+      if (!team) {
+        return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+      }
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: params.id },
+      data: {
+        role: validatedData.role,
+        twoFactorRequired: validatedData.twoFactorRequired,
+        teamId: validatedData.teamId,
+      },
+      select: {
+        id: true,
+        username: true,
+        role: true,
+        isActive: true,
+        deactivatedAt: true,
+        lockedUntil: true,
+        totpEnabled: true,
+        twoFactorRequired: true,
+        teamId: true,
+        team: { select: { id: true, name: true } },
+        createdAt: true,
+      },
+    })
+
+    // Existing sessions predate the requirement, so make the user sign in again and enroll
+    if (
+      validatedData.twoFactorRequired &&
+      !user.twoFactorRequired &&
+      !user.totpEnabled &&
+      user.id !== session.id
+    ) {
+      await revokeAllUserSessions(user.id)
+    }
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'update',
+      before: user,
+      after: updatedUser,
+    })
+
+    return NextResponse.json({ user: updatedUser })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
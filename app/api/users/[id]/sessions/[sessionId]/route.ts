@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, revokeSession } from '@/lib/session'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// DELETE /api/users/[id]/sessions/[sessionId] - Revoke a single session (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const revoked = await revokeSession(params.id, params.sessionId)
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: params.id,
+      action: 'revoke_sessions',
+      summary: 'Revoked 1 session(s)',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
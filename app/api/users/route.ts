@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
-import { requireRole } from '@/lib/auth'
+import { can, requirePermission, hashPassword } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { createUserSchema } from '@/lib/validations'
+import { SYSTEM_USERNAME } from '@/lib/system-user'
 
 // Force dynamic rendering for this route (uses cookies)
 export const dynamic = 'force-dynamic'
@@ -14,16 +17,31 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Only admin can view users
-    requireRole(session, ['admin'])
+    // Admins see everyone; team leads see their own team for assignment pickers
+    const canManageUsers = can(session, 'user.manage')
+    if (!canManageUsers && !can(session, 'lead.assign') && !can(session, 'task.manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
 
     const searchParams = request.nextUrl.searchParams
     const role = searchParams.get('role') // Optional role filter
+    const teamId = searchParams.get('teamId') // Optional team filter
+    const includeInactive = searchParams.get('includeInactive') === 'true'
 
-    const where: any = {}
+    const where: any = { isSystem: false }
+    if (!canManageUsers) {
+      where.OR = session.teamId ? [{ id: session.id }, { teamId: session.teamId }] : [{ id: session.id }]
+    }
+    if (teamId) {
+      where.teamId = teamId
+    }
     if (role) {
       where.role = role
     }
+    // Deactivated users are hidden from pickers unless explicitly requested
+    if (!includeInactive) {
+      where.isActive = true
+    }
 
     const users = await prisma.user.findMany({
       where,
@@ -31,6 +49,13 @@ export async function GET(request: NextRequest) {
         id: true,
         username: true,
         role: true,
+        isActive: true,
+        deactivatedAt: true,
+        lockedUntil: true,
+        totpEnabled: true,
+        twoFactorRequired: true,
+        teamId: true,
+        team: { select: { id: true, name: true } },
         createdAt: true,
       },
       orderBy: {
@@ -52,3 +77,88 @@ export async function GET(request: NextRequest) {
   }
 }
 
+
+// POST /api/users - Create a user (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    requirePermission(session, 'user.manage')
+
+    const body = await request.json()
+    const validatedData = createUserSchema.parse(body)
+
+    const existingUser = await prisma.user.findUnique({
+      where: { username: validatedData.username },
+    })
+
+    // The system user's name stays reserved even before automation first creates it
+    if (existingUser || validatedData.username === SYSTEM_USERNAME) {
+      return NextResponse.json(
+        { error: 'Username is already taken' },
+        { status: 409 }
+      )
+    }
+
+    if (validatedData.teamId) {
+      const team = await prisma.team.findUnique({ where: { id: validatedData.teamId } })
+      if (!team) {
+        return NextResponse.json({ error: 'Team not found' }, { status: 400 })
+      }
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        username: validatedData.username,
+        password: await hashPassword(validatedData.password),
+        role: validatedData.role,
+        mustChangePassword: validatedData.mustChangePassword ?? false,
+        teamId: validatedData.teamId || null,
+      },
+      select: {
+        id: true,
+        username: true,
+        role: true,
+        isActive: true,
+        deactivatedAt: true,
+        lockedUntil: true,
+        totpEnabled: true,
+        twoFactorRequired: true,
+        teamId: true,
+        team: { select: { id: true, name: true } },
+        createdAt: true,
+      },
+    })
+
+    await recordAuditEvent({
+      actorId: session.id,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'create',
+      before: null,
+      after: user,
+    })
+
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating user:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
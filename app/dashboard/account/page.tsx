@@ -0,0 +1,482 @@
+'use client'
+
+import { Suspense, useEffect, useState, useCallback } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Sidebar } from '@/components/Sidebar'
+import { ThemeToggle } from '@/components/ThemeToggle'
+import { Spinner } from '@/components/ui/spinner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PASSWORD_POLICY } from '@/lib/constants'
+import { cn } from '@/lib/utils'
+import { TimeZoneSelect, ORG_DEFAULT_ZONE } from '@/components/TimeZoneSelect'
+import { OrgSettingsCard } from '@/components/OrgSettingsCard'
+import { Clock, KeyRound, ShieldCheck } from 'lucide-react'
+
+interface User {
+  id: string
+  username: string
+  role: string
+}
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface TwoFactorSetup {
+  secret: string
+  qrCodeDataUrl: string
+}
+
+function AccountContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const passwordChangeRequired = searchParams.get('required') === '1'
+  const twoFactorSetupRequired = searchParams.get('setup2fa') === '1'
+  const [user, setUser] = useState<User | null>(null)
+  const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState(false)
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+  const [disablePassword, setDisablePassword] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [twoFactorSubmitting, setTwoFactorSubmitting] = useState(false)
+  const [twoFactorError, setTwoFactorError] = useState('')
+  const [timezone, setTimezone] = useState<string | null>(null)
+  const [orgTimezone, setOrgTimezone] = useState('UTC')
+  const [timezoneSaving, setTimezoneSaving] = useState(false)
+  const [timezoneMessage, setTimezoneMessage] = useState('')
+
+  const checkSession = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session')
+      const data = await res.json()
+      if (!res.ok || !data.user) {
+        router.push('/login')
+        return
+      }
+      setUser(data.user)
+    } catch {
+      router.push('/login')
+    }
+  }, [router])
+
+  const fetchTwoFactorStatus = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/2fa')
+      if (res.ok) {
+        setTwoFactor(await res.json())
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }, [])
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/preferences')
+      if (res.ok) {
+        const data = await res.json()
+        setTimezone(data.timezone ?? ORG_DEFAULT_ZONE)
+        setOrgTimezone(data.orgTimezone)
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }, [])
+
+  useEffect(() => {
+    checkSession()
+    fetchTwoFactorStatus()
+    fetchPreferences()
+  }, [checkSession, fetchTwoFactorStatus, fetchPreferences])
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+      router.push('/login')
+      router.refresh()
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSuccess(false)
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match.')
+      return
+    }
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to change password')
+        return
+      }
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+      setSuccess(true)
+      if (passwordChangeRequired) {
+        router.push('/dashboard/tasks')
+        router.refresh()
+      }
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleTimezoneChange = async (value: string) => {
+    const previous = timezone
+    setTimezone(value)
+    setTimezoneMessage('')
+    setTimezoneSaving(true)
+    try {
+      const res = await fetch('/api/auth/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: value === ORG_DEFAULT_ZONE ? null : value }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setTimezone(previous)
+        setTimezoneMessage(data.error || 'Failed to save timezone')
+        return
+      }
+      setTimezoneMessage('Timezone saved.')
+    } catch {
+      setTimezone(previous)
+      setTimezoneMessage('Something went wrong')
+    } finally {
+      setTimezoneSaving(false)
+    }
+  }
+
+  const handleStartTwoFactorSetup = async () => {
+    setTwoFactorError('')
+    setTwoFactorSubmitting(true)
+    try {
+      const res = await fetch('/api/auth/2fa/setup', { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) {
+        setTwoFactorError(data.error || 'Failed to start setup')
+        return
+      }
+      setTwoFactorSetup(data)
+      setTwoFactorCode('')
+    } catch {
+      setTwoFactorError('Something went wrong')
+    } finally {
+      setTwoFactorSubmitting(false)
+    }
+  }
+
+  const handleEnableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setTwoFactorError('')
+    setTwoFactorSubmitting(true)
+    try {
+      const res = await fetch('/api/auth/2fa/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: twoFactorCode }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setTwoFactorError(data.error || 'Failed to enable two-factor authentication')
+        return
+      }
+      setTwoFactorSetup(null)
+      setTwoFactorCode('')
+      setRecoveryCodes(data.recoveryCodes)
+      fetchTwoFactorStatus()
+    } catch {
+      setTwoFactorError('Something went wrong')
+    } finally {
+      setTwoFactorSubmitting(false)
+    }
+  }
+
+  const handleDisableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setTwoFactorError('')
+    setTwoFactorSubmitting(true)
+    try {
+      const res = await fetch('/api/auth/2fa/disable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: disablePassword }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setTwoFactorError(data.error || 'Failed to disable two-factor authentication')
+        return
+      }
+      setDisablePassword('')
+      setRecoveryCodes(null)
+      fetchTwoFactorStatus()
+    } catch {
+      setTwoFactorError('Something went wrong')
+    } finally {
+      setTwoFactorSubmitting(false)
+    }
+  }
+
+  const handleRecoveryCodesSaved = () => {
+    setRecoveryCodes(null)
+    if (twoFactorSetupRequired) {
+      router.push('/dashboard/tasks')
+      router.refresh()
+    }
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Sidebar user={user} onLogout={handleLogout} isOpen={sidebarOpen} onToggle={setSidebarOpen} />
+      <header
+        className={cn(
+          'flex items-center justify-between border-b border-border bg-card py-3 shrink-0 transition-all duration-300',
+          sidebarOpen ? 'px-6' : 'pl-20 pr-6'
+        )}
+      >
+        <h1 className="text-xl font-semibold text-foreground">Account</h1>
+        <ThemeToggle />
+      </header>
+
+      <main className={cn('flex-1 overflow-auto p-4', sidebarOpen && 'md:pl-[calc(16rem+1rem)]')}>
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Change password
+            </CardTitle>
+            <CardDescription>
+              At least {PASSWORD_POLICY.MIN_LENGTH} characters, not a common password and not your username.
+              Other devices will be logged out.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {passwordChangeRequired && (
+              <div className="mb-4 text-sm text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-950/40 p-3 rounded">
+                An admin has asked you to set a new password before continuing.
+              </div>
+            )}
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="current-password">Current password</Label>
+                <Input
+                  id="current-password"
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                  disabled={submitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  disabled={submitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={submitting}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              {success && <p className="text-sm text-green-600 dark:text-green-400">Password changed.</p>}
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? 'Saving...' : 'Change password'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="max-w-md mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Two-factor authentication
+            </CardTitle>
+            <CardDescription>
+              Sign in with a code from an authenticator app in addition to your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {twoFactorSetupRequired && !twoFactor?.enabled && (
+              <div className="text-sm text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-950/40 p-3 rounded">
+                An admin requires two-factor authentication for your account. Set it up to continue.
+              </div>
+            )}
+            {recoveryCodes ? (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  Save these recovery codes somewhere safe. Each can be used once if you lose your device.
+                  They will not be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 rounded-md border border-border bg-muted p-3 font-mono text-sm">
+                  {recoveryCodes.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+                <Button className="w-full" onClick={handleRecoveryCodesSaved}>
+                  I have saved my recovery codes
+                </Button>
+              </div>
+            ) : !twoFactor ? (
+              <Spinner className="h-5 w-5" />
+            ) : twoFactor.enabled ? (
+              <>
+                <p className="text-sm">
+                  <span className="text-green-600 dark:text-green-400 font-medium">Enabled.</span>{' '}
+                  {twoFactor.recoveryCodesRemaining} recovery codes remaining.
+                </p>
+                {twoFactor.required ? (
+                  <p className="text-sm text-muted-foreground">
+                    Required for your account by an admin.
+                  </p>
+                ) : (
+                  <form onSubmit={handleDisableTwoFactor} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="disable-2fa-password">Password</Label>
+                      <Input
+                        id="disable-2fa-password"
+                        type="password"
+                        value={disablePassword}
+                        onChange={(e) => setDisablePassword(e.target.value)}
+                        required
+                        disabled={twoFactorSubmitting}
+                      />
+                    </div>
+                    {twoFactorError && <p className="text-sm text-destructive">{twoFactorError}</p>}
+                    <Button type="submit" variant="outline" className="w-full" disabled={twoFactorSubmitting}>
+                      {twoFactorSubmitting ? 'Saving...' : 'Disable two-factor authentication'}
+                    </Button>
+                  </form>
+                )}
+              </>
+            ) : twoFactorSetup ? (
+              <form onSubmit={handleEnableTwoFactor} className="space-y-4">
+                <p className="text-sm">Scan this QR code with your authenticator app, then enter the 6-digit code.</p>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={twoFactorSetup.qrCodeDataUrl}
+                  alt="Two-factor QR code"
+                  className="mx-auto h-48 w-48 rounded bg-white p-2"
+                />
+                <p className="text-xs text-muted-foreground break-all">
+                  Can&apos;t scan? Enter this key manually: <span className="font-mono">{twoFactorSetup.secret}</span>
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="totp-code">Authentication code</Label>
+                  <Input
+                    id="totp-code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    required
+                    disabled={twoFactorSubmitting}
+                  />
+                </div>
+                {twoFactorError && <p className="text-sm text-destructive">{twoFactorError}</p>}
+                <Button type="submit" className="w-full" disabled={twoFactorSubmitting}>
+                  {twoFactorSubmitting ? 'Verifying...' : 'Enable two-factor authentication'}
+                </Button>
+              </form>
+            ) : (
+              <>
+                {twoFactorError && <p className="text-sm text-destructive">{twoFactorError}</p>}
+                <Button className="w-full" onClick={handleStartTwoFactorSetup} disabled={twoFactorSubmitting}>
+                  {twoFactorSubmitting ? 'Starting...' : 'Set up two-factor authentication'}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="max-w-md mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Timezone
+            </CardTitle>
+            <CardDescription>
+              Used for your task due dates, &quot;due today&quot; and the daily performance numbers.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {timezone === null ? (
+              <Spinner className="h-5 w-5" />
+            ) : (
+              <TimeZoneSelect
+                value={timezone}
+                onValueChange={handleTimezoneChange}
+                disabled={timezoneSaving}
+                orgDefaultLabel={`Organization default (${orgTimezone})`}
+              />
+            )}
+            {timezoneMessage && <p className="text-sm text-muted-foreground">{timezoneMessage}</p>}
+          </CardContent>
+        </Card>
+
+        {user.role === 'admin' && <OrgSettingsCard />}
+      </main>
+    </div>
+  )
+}
+
+export default function AccountPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <Spinner className="h-8 w-8" />
+        </div>
+      }
+    >
+      <AccountContent />
+    </Suspense>
+  )
+}
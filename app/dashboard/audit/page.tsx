@@ -0,0 +1,369 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Sidebar } from '@/components/Sidebar'
+import { ThemeToggle } from '@/components/ThemeToggle'
+import { Spinner } from '@/components/ui/spinner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination'
+import { cn } from '@/lib/utils'
+import { ScrollText } from 'lucide-react'
+
+interface SessionUser {
+  id: string
+  username: string
+  role: string
+}
+
+interface AuditEvent {
+  id: string
+  entityType: string
+  entityId: string
+  action: string
+  changes: Record<string, { from: unknown; to: unknown }> | null
+  summary: string | null
+  createdAt: string
+  actor: { id: string; username: string } | null
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  lead: 'Lead',
+  task: 'Task',
+  user: 'User',
+  team: 'Team',
+  pipeline: 'Pipeline',
+  automation_rule: 'Automation rule',
+  task_recurrence: 'Recurring task',
+  task_template: 'Task template',
+  org_settings: 'Settings',
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  return String(value)
+}
+
+export default function AuditLogPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [actions, setActions] = useState<string[]>([])
+  const [actors, setActors] = useState<{ id: string; username: string }[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+
+  // Filters
+  const [entityType, setEntityType] = useState('all')
+  const [action, setAction] = useState('all')
+  const [actorId, setActorId] = useState('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [search, setSearch] = useState('')
+
+  const checkSession = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session')
+      const data = await res.json()
+      if (!res.ok || !data.user) {
+        router.push('/login')
+        return
+      }
+      if (data.user.role !== 'admin') {
+        router.push('/dashboard/tasks')
+        return
+      }
+      setUser(data.user)
+    } catch {
+      router.push('/login')
+    }
+  }, [router])
+
+  const fetchActors = useCallback(async () => {
+    try {
+      const res = await fetch('/api/users?includeInactive=true')
+      const data = await res.json()
+      if (res.ok) {
+        setActors(data.users || [])
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }, [])
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ page: String(page), limit: '25' })
+      if (entityType !== 'all') params.set('entityType', entityType)
+      if (action !== 'all') params.set('action', action)
+      if (actorId !== 'all') params.set('actorId', actorId)
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (search.trim()) params.set('search', search.trim())
+
+      const res = await fetch(`/api/audit-events?${params.toString()}`)
+      const data = await res.json()
+      if (res.ok) {
+        setEvents(data.events || [])
+        setActions(data.actions || [])
+        setPagination(data.pagination || null)
+      }
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, entityType, action, actorId, from, to, search])
+
+  useEffect(() => {
+    checkSession()
+  }, [checkSession])
+
+  useEffect(() => {
+    if (user) {
+      fetchActors()
+    }
+  }, [user, fetchActors])
+
+  useEffect(() => {
+    if (user) {
+      fetchEvents()
+    }
+  }, [user, fetchEvents])
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1)
+  }, [entityType, action, actorId, from, to, search])
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+      router.push('/login')
+      router.refresh()
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Sidebar user={user} onLogout={handleLogout} isOpen={sidebarOpen} onToggle={setSidebarOpen} />
+      <header
+        className={cn(
+          'flex items-center justify-between border-b border-border bg-card py-3 shrink-0 transition-all duration-300',
+          sidebarOpen ? 'px-6' : 'pl-20 pr-6'
+        )}
+      >
+        <h1 className="text-xl font-semibold text-foreground">Audit Log</h1>
+        <ThemeToggle />
+      </header>
+
+      <main className={cn('flex-1 overflow-auto p-4', sidebarOpen && 'md:pl-[calc(16rem+1rem)]')}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScrollText className="h-5 w-5" />
+              Changes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6">
+              <div className="space-y-1 lg:col-span-2">
+                <Label htmlFor="audit-search">Search</Label>
+                <Input
+                  id="audit-search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Summary or record ID"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Record type</Label>
+                <Select value={entityType} onValueChange={setEntityType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    {Object.entries(ENTITY_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Action</Label>
+                <Select value={action} onValueChange={setAction}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {actions.map((a) => (
+                      <SelectItem key={a} value={a}>
+                        {a.replace(/_/g, ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>User</Label>
+                <Select value={actorId} onValueChange={setActorId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All users</SelectItem>
+                    {actors.map((a) => (
+                      <SelectItem key={a.id} value={a.id}>
+                        {a.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="audit-from">From</Label>
+                  <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-to">To</Label>
+                  <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </div>
+            </div>
+
+            {loading && events.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Spinner className="h-8 w-8" />
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-muted-foreground text-sm py-6">No audit events found.</p>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[170px]">When</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => (
+                      <TableRow key={event.id} className="align-top">
+                        <TableCell className="text-xs">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                        <TableCell className="font-medium">{event.actor?.username ?? 'System'}</TableCell>
+                        <TableCell className="text-xs capitalize">{event.action.replace(/_/g, ' ')}</TableCell>
+                        <TableCell className="text-xs">
+                          <div>{ENTITY_TYPE_LABELS[event.entityType] ?? event.entityType}</div>
+                          <div className="font-mono text-muted-foreground">{event.entityId}</div>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {event.summary && <div className="mb-1">{event.summary}</div>}
+                          {event.changes && (
+                            <ul className="space-y-0.5">
+                              {Object.entries(event.changes).map(([field, change]) => (
+                                <li key={field}>
+                                  <span className="font-medium">{field}</span>:{' '}
+                                  <span className="text-muted-foreground line-through">{formatValue(change.from)}</span>{' '}
+                                  → {formatValue(change.to)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {!event.summary && !event.changes && <span className="text-muted-foreground">-</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground text-center">
+                  Page {pagination.page} of {pagination.totalPages} ({pagination.total} events)
+                </div>
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        onClick={(e: React.MouseEvent) => {
+                          e.preventDefault()
+                          if (page > 1 && !loading) setPage(p => p - 1)
+                        }}
+                        className={page === 1 || loading ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        onClick={(e: React.MouseEvent) => {
+                          e.preventDefault()
+                          if (page < pagination.totalPages && !loading) setPage(p => p + 1)
+                        }}
+                        className={page === pagination.totalPages || loading ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
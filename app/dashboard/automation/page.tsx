@@ -0,0 +1,1071 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Sidebar } from '@/components/Sidebar'
+import { ThemeToggle } from '@/components/ThemeToggle'
+import { Spinner } from '@/components/ui/spinner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AUTOMATION_ACTIONS,
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_RULE_FIELDS,
+  AUTOMATION_RULE_FIELD_LABELS,
+  AutomationAction,
+  AutomationRuleField,
+  SYSTEMS,
+  SYSTEM_LABELS,
+  System,
+} from '@/lib/constants'
+import { cn } from '@/lib/utils'
+import { Zap, Plus, Pencil, Trash2, History, Eye } from 'lucide-react'
+
+interface SessionUser {
+  id: string
+  username: string
+  role: string
+}
+
+interface PipelineStage {
+  key: string
+  label: string
+}
+
+interface Pipeline {
+  id: string
+  name: string
+  stages: PipelineStage[]
+}
+
+interface UserOption {
+  id: string
+  username: string
+}
+
+interface RuleRun {
+  id: string
+  startedAt: string
+  finishedAt: string | null
+  matched: number
+  applied: number
+  skipped: number
+  failed: number
+  error: string | null
+}
+
+interface AutomationRun {
+  id: string
+  status: 'running' | 'completed' | 'failed'
+  startedAt: string
+  finishedAt: string | null
+  rulesRun: number
+  matched: number
+  transitioned: number
+  tasksCreated: number
+  reassigned: number
+  followUpTasks: number
+  failed: number
+  errors: { rule: string; error: string }[] | null
+  error: string | null
+}
+
+interface AutomationRule {
+  id: string
+  name: string
+  isActive: boolean
+  pipelineId: string | null
+  status: string
+  field: AutomationRuleField
+  olderThanDays: number
+  businessDays: boolean
+  system: System | null
+  action: AutomationAction
+  toStatus: string | null
+  taskTitle: string | null
+  taskDescription: string | null
+  taskDueDays: number
+  assignToId: string | null
+  lastRunAt: string | null
+  pipeline: { id: string; name: string } | null
+  assignTo: { id: string; username: string } | null
+  runs: RuleRun[]
+  _count: { applications: number }
+}
+
+interface PreviewLead {
+  id: string
+  name: string
+  company: string | null
+  pipelineName: string
+  assignedTo: string | null
+  effect: string
+}
+
+interface RulePreview {
+  ruleId: string
+  name: string
+  action: AutomationAction
+  isActive: boolean
+  matched: number
+  leads: PreviewLead[]
+}
+
+interface FollowUpTaskPreview {
+  filter: string
+  title: string
+  matched: number
+  leads: PreviewLead[]
+}
+
+interface RuleForm {
+  name: string
+  isActive: boolean
+  pipelineId: string
+  status: string
+  field: AutomationRuleField
+  olderThanDays: string
+  businessDays: boolean
+  system: string
+  action: AutomationAction
+  toStatus: string
+  taskTitle: string
+  taskDescription: string
+  taskDueDays: string
+  assignToId: string
+}
+
+// Select values can't be empty, so "any" stands for null
+const ANY = 'any'
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  isActive: true,
+  pipelineId: ANY,
+  status: '',
+  field: 'stage_entered',
+  olderThanDays: '4',
+  businessDays: true,
+  system: ANY,
+  action: 'move_status',
+  toStatus: '',
+  taskTitle: '',
+  taskDescription: '',
+  taskDueDays: '1',
+  assignToId: ANY,
+}
+
+export default function AutomationPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [rules, setRules] = useState<AutomationRule[]>([])
+  const [pipelines, setPipelines] = useState<Pipeline[]>([])
+  const [users, setUsers] = useState<UserOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [automationRuns, setAutomationRuns] = useState<AutomationRun[]>([])
+
+  // Create/edit dialog; editingId null = new rule
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState('')
+
+  // Run history of the selected rule
+  const [historyRule, setHistoryRule] = useState<AutomationRule | null>(null)
+  const [runs, setRuns] = useState<RuleRun[]>([])
+  const [runsLoading, setRunsLoading] = useState(false)
+
+  // Dry run of all active rules (previewRuleId null) or of one rule
+  const [previewOpen, setPreviewOpen] = useState(false)
+  const [previewRuleId, setPreviewRuleId] = useState<string | null>(null)
+  const [preview, setPreview] = useState<RulePreview[]>([])
+  const [followUpPreview, setFollowUpPreview] = useState<FollowUpTaskPreview[]>([])
+  const [previewLoading, setPreviewLoading] = useState(false)
+  const [previewError, setPreviewError] = useState('')
+
+  const checkSession = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session')
+      const data = await res.json()
+      if (!res.ok || !data.user) {
+        router.push('/login')
+        return
+      }
+      if (data.user.role !== 'admin') {
+        router.push('/dashboard/tasks')
+        return
+      }
+      setUser(data.user)
+    } catch {
+      router.push('/login')
+    }
+  }, [router])
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true)
+      const res = await fetch('/api/automation-rules')
+      const data = await res.json()
+      if (res.ok) {
+        setRules(data.rules || [])
+      }
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchAutomationRuns = useCallback(async () => {
+    try {
+      const res = await fetch('/api/automation-runs?limit=20')
+      const data = await res.json()
+      if (res.ok) {
+        setAutomationRuns(data.runs || [])
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }, [])
+
+  const fetchOptions = useCallback(async () => {
+    try {
+      const [pipelinesRes, usersRes] = await Promise.all([fetch('/api/pipelines'), fetch('/api/users')])
+      const pipelinesData = await pipelinesRes.json()
+      const usersData = await usersRes.json()
+      if (pipelinesRes.ok) setPipelines(pipelinesData.pipelines || [])
+      if (usersRes.ok) setUsers(usersData.users || [])
+    } catch (e) {
+      console.error(e)
+    }
+  }, [])
+
+  useEffect(() => {
+    checkSession()
+  }, [checkSession])
+
+  useEffect(() => {
+    if (user) {
+      fetchRules()
+      fetchOptions()
+      fetchAutomationRuns()
+    }
+  }, [user, fetchRules, fetchOptions, fetchAutomationRuns])
+
+  const fetchRuns = useCallback(async (ruleId: string) => {
+    try {
+      setRunsLoading(true)
+      const res = await fetch(`/api/automation-rules/${ruleId}/runs`)
+      const data = await res.json()
+      if (res.ok) {
+        setRuns(data.runs || [])
+      }
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setRunsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (historyRule) {
+      fetchRuns(historyRule.id)
+    }
+  }, [historyRule, fetchRuns])
+
+  const fetchPreview = useCallback(async (ruleId: string | null) => {
+    try {
+      setPreviewLoading(true)
+      setPreviewError('')
+      const res = await fetch(`/api/automation-rules/preview${ruleId ? `?ruleId=${ruleId}` : ''}`)
+      const data = await res.json()
+      if (!res.ok) {
+        setPreviewError(data.error || 'Failed to load preview')
+        return
+      }
+      setPreview(data.rules || [])
+      setFollowUpPreview(data.followUpTasks || [])
+    } catch {
+      setPreviewError('Failed to load preview')
+    } finally {
+      setPreviewLoading(false)
+    }
+  }, [])
+
+  // Lead table shared by the rule and follow-up task sections of the preview
+  const renderPreviewLeads = (leads: PreviewLead[], matched: number) => (
+    <>
+      {leads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No leads match right now.</p>
+      ) : (
+        <div className="rounded-md border border-border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lead</TableHead>
+                <TableHead>Pipeline</TableHead>
+                <TableHead>Assigned to</TableHead>
+                <TableHead>Would</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leads.map((lead) => (
+                <TableRow key={lead.id}>
+                  <TableCell>
+                    <div className="font-medium">{lead.name}</div>
+                    {lead.company && <div className="text-xs text-muted-foreground">{lead.company}</div>}
+                  </TableCell>
+                  <TableCell className="text-xs">{lead.pipelineName}</TableCell>
+                  <TableCell className="text-xs">{lead.assignedTo ?? '—'}</TableCell>
+                  <TableCell className="text-xs">{lead.effect}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      {matched > leads.length && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {leads.length} of {matched} leads.
+        </p>
+      )}
+    </>
+  )
+
+  const openPreview = (ruleId: string | null) => {
+    setPreviewRuleId(ruleId)
+    setPreview([])
+    setFollowUpPreview([])
+    setPreviewOpen(true)
+    fetchPreview(ruleId)
+  }
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+      router.push('/login')
+      router.refresh()
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+  }
+
+  // Stages of the chosen pipeline, or of every pipeline (by key) when the rule isn't limited to one
+  const stageOptions = (pipelineId: string): PipelineStage[] => {
+    const source = pipelineId === ANY ? pipelines : pipelines.filter((p) => p.id === pipelineId)
+    const byKey = new Map<string, PipelineStage>()
+    for (const stage of source.flatMap((p) => p.stages)) {
+      if (!byKey.has(stage.key)) byKey.set(stage.key, stage)
+    }
+    return Array.from(byKey.values())
+  }
+
+  const stageLabel = (key: string | null) =>
+    (key && pipelines.flatMap((p) => p.stages).find((stage) => stage.key === key)?.label) || key || '—'
+
+  const describeCondition = (rule: AutomationRule) => {
+    const age = `${rule.olderThanDays}+ ${rule.businessDays ? 'business days' : 'days'} ago`
+    const field =
+      rule.field === 'stage_entered'
+        ? `entered ${age}`
+        : `${AUTOMATION_RULE_FIELD_LABELS[rule.field].toLowerCase()} ${age}`
+    return [
+      `${stageLabel(rule.status)}, ${field}`,
+      rule.pipeline ? `Pipeline: ${rule.pipeline.name}` : null,
+      rule.system ? `System: ${SYSTEM_LABELS[rule.system]}` : null,
+    ].filter(Boolean) as string[]
+  }
+
+  const describeAction = (rule: AutomationRule) => {
+    switch (rule.action) {
+      case 'move_status':
+        return `Move to ${stageLabel(rule.toStatus)}`
+      case 'create_task':
+        return `Task "${rule.taskTitle}" for ${rule.assignTo?.username ?? 'the lead owner'}, due in ${rule.taskDueDays}d`
+      case 'reassign':
+        return `Reassign to ${rule.assignTo?.username ?? '—'}`
+    }
+  }
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setFormError('')
+    setFormOpen(true)
+  }
+
+  const openEdit = (rule: AutomationRule) => {
+    setEditingId(rule.id)
+    setForm({
+      name: rule.name,
+      isActive: rule.isActive,
+      pipelineId: rule.pipelineId ?? ANY,
+      status: rule.status,
+      field: rule.field,
+      olderThanDays: String(rule.olderThanDays),
+      businessDays: rule.businessDays,
+      system: rule.system ?? ANY,
+      action: rule.action,
+      toStatus: rule.toStatus ?? '',
+      taskTitle: rule.taskTitle ?? '',
+      taskDescription: rule.taskDescription ?? '',
+      taskDueDays: String(rule.taskDueDays),
+      assignToId: rule.assignToId ?? ANY,
+    })
+    setFormError('')
+    setFormOpen(true)
+  }
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm((current) => ({ ...current, ...changes }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setFormError('')
+    try {
+      const res = await fetch(editingId ? `/api/automation-rules/${editingId}` : '/api/automation-rules', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          isActive: form.isActive,
+          pipelineId: form.pipelineId === ANY ? null : form.pipelineId,
+          status: form.status,
+          field: form.field,
+          olderThanDays: parseInt(form.olderThanDays, 10) || 0,
+          businessDays: form.businessDays,
+          system: form.system === ANY ? null : form.system,
+          action: form.action,
+          toStatus: form.action === 'move_status' ? form.toStatus || null : null,
+          taskTitle: form.action === 'create_task' ? form.taskTitle || null : null,
+          taskDescription: form.action === 'create_task' ? form.taskDescription || null : null,
+          taskDueDays: parseInt(form.taskDueDays, 10) || 0,
+          assignToId: form.action === 'move_status' || form.assignToId === ANY ? null : form.assignToId,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setFormError(data.details?.[0]?.message || data.error || 'Failed to save rule')
+        return
+      }
+      setFormOpen(false)
+      fetchRules()
+    } catch {
+      setFormError('Failed to save rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: AutomationRule, isActive: boolean) => {
+    const res = await fetch(`/api/automation-rules/${rule.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive }),
+    })
+    if (!res.ok) {
+      const data = await res.json()
+      alert(data.error || 'Failed to update rule')
+    }
+    fetchRules()
+  }
+
+  const handleDelete = async (rule: AutomationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}" and its run history?`)) return
+    const res = await fetch(`/api/automation-rules/${rule.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const data = await res.json()
+      alert(data.error || 'Failed to delete rule')
+      return
+    }
+    if (historyRule?.id === rule.id) setHistoryRule(null)
+    fetchRules()
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  const formStages = stageOptions(form.pipelineId)
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Sidebar user={user} onLogout={handleLogout} isOpen={sidebarOpen} onToggle={setSidebarOpen} />
+      <header
+        className={cn(
+          'flex items-center justify-between border-b border-border bg-card py-3 shrink-0 transition-all duration-300',
+          sidebarOpen ? 'px-6' : 'pl-20 pr-6'
+        )}
+      >
+        <h1 className="text-xl font-semibold text-foreground">Automation</h1>
+        <div className="flex items-center gap-2">
+          <Button onClick={() => openPreview(null)} size="sm" variant="outline" className="gap-1">
+            <Eye className="h-4 w-4" />
+            Preview next run
+          </Button>
+          <Button onClick={openCreate} size="sm" className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add rule
+          </Button>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {/* Create/edit rule modal */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit rule' : 'Add rule'}</DialogTitle>
+            <DialogDescription>
+              Runs daily. Each rule acts on a lead at most once.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. Junk stale second follow-ups"
+                required
+                disabled={saving}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Pipeline</Label>
+                <Select value={form.pipelineId} onValueChange={(v) => updateForm({ pipelineId: v })} disabled={saving}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any pipeline</SelectItem>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>
+                        {pipeline.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>System</Label>
+                <Select value={form.system} onValueChange={(v) => updateForm({ system: v })} disabled={saving}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any system</SelectItem>
+                    {SYSTEMS.map((system) => (
+                      <SelectItem key={system} value={system}>
+                        {SYSTEM_LABELS[system]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>When in stage</Label>
+                <Select value={form.status} onValueChange={(v) => updateForm({ status: v })} disabled={saving}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formStages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>
+                        {stage.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>and</Label>
+                <Select
+                  value={form.field}
+                  onValueChange={(v) => updateForm({ field: v as AutomationRuleField })}
+                  disabled={saving}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUTOMATION_RULE_FIELDS.map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {AUTOMATION_RULE_FIELD_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-days">Over (days)</Label>
+                <Input
+                  id="rule-days"
+                  type="number"
+                  min={0}
+                  value={form.olderThanDays}
+                  onChange={(e) => updateForm({ olderThanDays: e.target.value })}
+                  required
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="rule-business-days"
+                checked={form.businessDays}
+                onCheckedChange={(checked) => updateForm({ businessDays: checked === true })}
+                disabled={saving}
+              />
+              <Label htmlFor="rule-business-days" className="font-normal">
+                Count business days (skip weekends and holidays)
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Then</Label>
+              <Select
+                value={form.action}
+                onValueChange={(v) => updateForm({ action: v as AutomationAction })}
+                disabled={saving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTOMATION_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {AUTOMATION_ACTION_LABELS[action]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.action === 'move_status' && (
+              <div className="space-y-2">
+                <Label>Move to stage</Label>
+                <Select value={form.toStatus} onValueChange={(v) => updateForm({ toStatus: v })} disabled={saving}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formStages
+                      .filter((stage) => stage.key !== form.status)
+                      .map((stage) => (
+                        <SelectItem key={stage.key} value={stage.key}>
+                          {stage.label}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.action === 'create_task' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-task-title">Task title</Label>
+                  <Input
+                    id="rule-task-title"
+                    value={form.taskTitle}
+                    onChange={(e) => updateForm({ taskTitle: e.target.value })}
+                    placeholder="e.g. Follow up"
+                    required
+                    disabled={saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-task-description">Task description</Label>
+                  <Input
+                    id="rule-task-description"
+                    value={form.taskDescription}
+                    onChange={(e) => updateForm({ taskDescription: e.target.value })}
+                    placeholder="Optional; the task is linked to the lead"
+                    disabled={saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-task-due">Due in (days)</Label>
+                  <Input
+                    id="rule-task-due"
+                    type="number"
+                    min={0}
+                    value={form.taskDueDays}
+                    onChange={(e) => updateForm({ taskDueDays: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+              </>
+            )}
+
+            {form.action !== 'move_status' && (
+              <div className="space-y-2">
+                <Label>{form.action === 'reassign' ? 'Assign to' : 'Task for'}</Label>
+                <Select value={form.assignToId} onValueChange={(v) => updateForm({ assignToId: v })} disabled={saving}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="User" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {form.action === 'create_task' && <SelectItem value={ANY}>The lead&apos;s assignee</SelectItem>}
+                    {users.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="rule-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => updateForm({ isActive: checked === true })}
+                disabled={saving}
+              />
+              <Label htmlFor="rule-active" className="font-normal">
+                Active
+              </Label>
+            </div>
+
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : editingId ? 'Save rule' : 'Add rule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <main className={cn('flex-1 overflow-auto p-4 space-y-4', sidebarOpen && 'md:pl-[calc(16rem+1rem)]')}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="h-5 w-5" />
+              Rules
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading && rules.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Spinner className="h-8 w-8" />
+              </div>
+            ) : rules.length === 0 ? (
+              <p className="text-muted-foreground text-sm py-6">No automation rules yet.</p>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Active</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>When</TableHead>
+                      <TableHead>Then</TableHead>
+                      <TableHead>Last run</TableHead>
+                      <TableHead>Leads handled</TableHead>
+                      <TableHead className="w-[190px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rules.map((rule) => {
+                      const lastRun = rule.runs[0]
+                      return (
+                        <TableRow
+                          key={rule.id}
+                          className={cn('align-top', rule.id === historyRule?.id && 'bg-muted/50', !rule.isActive && 'opacity-60')}
+                        >
+                          <TableCell>
+                            <Checkbox
+                              checked={rule.isActive}
+                              onCheckedChange={(checked) => handleToggleActive(rule, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{rule.name}</TableCell>
+                          <TableCell className="text-xs">
+                            {describeCondition(rule).map((line) => (
+                              <div key={line}>{line}</div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-xs">{describeAction(rule)}</TableCell>
+                          <TableCell className="text-xs">
+                            {lastRun ? (
+                              <>
+                                <div>{new Date(lastRun.startedAt).toLocaleString()}</div>
+                                <div className="text-muted-foreground">
+                                  {lastRun.applied} of {lastRun.matched} matched
+                                </div>
+                                {lastRun.error && <div className="text-destructive">{lastRun.error}</div>}
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">Never</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{rule._count.applications}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button size="sm" variant="outline" title="Edit" onClick={() => openEdit(rule)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="outline" title="Preview" onClick={() => openPreview(rule.id)}>
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="outline" title="Run history" onClick={() => setHistoryRule(rule)}>
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="outline" title="Delete" onClick={() => handleDelete(rule)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Recent runs
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {automationRuns.length === 0 ? (
+              <p className="text-muted-foreground text-sm py-6">Automation hasn&apos;t run yet.</p>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Rules</TableHead>
+                      <TableHead>Matched</TableHead>
+                      <TableHead>Moved</TableHead>
+                      <TableHead>Tasks</TableHead>
+                      <TableHead>Reassigned</TableHead>
+                      <TableHead>Follow-ups</TableHead>
+                      <TableHead>Failed</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {automationRuns.map((run) => (
+                      <TableRow key={run.id} className="align-top">
+                        <TableCell className="text-xs">
+                          <div>{new Date(run.startedAt).toLocaleString()}</div>
+                          {run.finishedAt && (
+                            <div className="text-muted-foreground">
+                              {Math.max(
+                                1,
+                                Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000)
+                              )}
+                              s
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={cn(
+                              'text-xs px-2 py-0.5 rounded',
+                              run.status === 'failed'
+                                ? 'bg-destructive text-destructive-foreground'
+                                : 'bg-secondary text-secondary-foreground'
+                            )}
+                          >
+                            {run.status}
+                          </span>
+                        </TableCell>
+                        <TableCell>{run.rulesRun}</TableCell>
+                        <TableCell>{run.matched}</TableCell>
+                        <TableCell>{run.transitioned}</TableCell>
+                        <TableCell>{run.tasksCreated}</TableCell>
+                        <TableCell>{run.reassigned}</TableCell>
+                        <TableCell>{run.followUpTasks}</TableCell>
+                        <TableCell>{run.failed}</TableCell>
+                        <TableCell className="text-xs text-destructive">
+                          {run.error && <div>{run.error}</div>}
+                          {run.errors?.map((item) => (
+                            <div key={item.rule}>
+                              {item.rule}: {item.error}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {previewOpen && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center gap-2">
+                <Eye className="h-5 w-5" />
+                {previewRuleId
+                  ? `Preview: ${rules.find((rule) => rule.id === previewRuleId)?.name ?? 'rule'}`
+                  : 'Preview of the next run'}
+              </CardTitle>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => fetchPreview(previewRuleId)} disabled={previewLoading}>
+                  Refresh
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setPreviewOpen(false)}>
+                  Close
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Dry run against the current data. Nothing is changed until the daily run.
+              </p>
+              {previewLoading && preview.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <Spinner className="h-8 w-8" />
+                </div>
+              ) : previewError ? (
+                <p className="text-sm text-destructive">{previewError}</p>
+              ) : (
+                <>
+                  {preview.length === 0 ? (
+                    <p className="text-muted-foreground text-sm py-6">No active rules.</p>
+                  ) : (
+                    preview.map((rulePreview) => (
+                      <div key={rulePreview.ruleId} className="space-y-2">
+                        <h3 className="font-medium">
+                          {rulePreview.name}
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded bg-secondary text-secondary-foreground">
+                            {rulePreview.matched} {AUTOMATION_ACTION_LABELS[rulePreview.action].toLowerCase()}
+                          </span>
+                          {!rulePreview.isActive && (
+                            <span className="ml-2 text-xs text-muted-foreground">(paused, won&apos;t run)</span>
+                          )}
+                        </h3>
+                        {renderPreviewLeads(rulePreview.leads, rulePreview.matched)}
+                      </div>
+                    ))
+                  )}
+                  {/* Created by every run for leads waiting too long, independent of the rules */}
+                  {followUpPreview.map((followUp) => (
+                    <div key={followUp.filter} className="space-y-2">
+                      <h3 className="font-medium">
+                        Follow-up task: {followUp.title}
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded bg-secondary text-secondary-foreground">
+                          {followUp.matched} to create
+                        </span>
+                      </h3>
+                      {renderPreviewLeads(followUp.leads, followUp.matched)}
+                    </div>
+                  ))}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {historyRule && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Run history: {historyRule.name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {runsLoading && runs.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <Spinner className="h-8 w-8" />
+                </div>
+              ) : runs.length === 0 ? (
+                <p className="text-muted-foreground text-sm py-6">This rule hasn&apos;t run yet.</p>
+              ) : (
+                <div className="rounded-md border border-border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Finished</TableHead>
+                        <TableHead>Matched</TableHead>
+                        <TableHead>Applied</TableHead>
+                        <TableHead>Skipped</TableHead>
+                        <TableHead>Failed</TableHead>
+                        <TableHead>Error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {runs.map((run) => (
+                        <TableRow key={run.id}>
+                          <TableCell className="text-xs">{new Date(run.startedAt).toLocaleString()}</TableCell>
+                          <TableCell className="text-xs">
+                            {run.finishedAt ? new Date(run.finishedAt).toLocaleString() : '—'}
+                          </TableCell>
+                          <TableCell>{run.matched}</TableCell>
+                          <TableCell>{run.applied}</TableCell>
+                          <TableCell>{run.skipped}</TableCell>
+                          <TableCell>{run.failed}</TableCell>
+                          <TableCell className="text-xs text-destructive">{run.error ?? ''}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
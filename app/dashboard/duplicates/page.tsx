@@ -0,0 +1,461 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Sidebar } from '@/components/Sidebar'
+import { ThemeToggle } from '@/components/ThemeToggle'
+import { Spinner } from '@/components/ui/spinner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination'
+import { cn } from '@/lib/utils'
+import {
+  LEAD_DUPLICATE_REASON_LABELS,
+  LEAD_MERGE_FIELDS,
+  LeadDuplicateReason,
+  LeadMergeField,
+  SYSTEM_LABELS,
+  System,
+} from '@/lib/constants'
+import { Copy } from 'lucide-react'
+
+interface SessionUser {
+  id: string
+  username: string
+  role: string
+}
+
+interface DuplicateLead {
+  id: string
+  name: string
+  email: string | null
+  company: string | null
+  profileUrl: string | null
+  postUrl: string | null
+  website: string | null
+  notes: string | null
+  status: string
+  system: System
+  createdAt: string
+  assignedTo: { id: string; username: string } | null
+  _count: { statusHistory: number }
+}
+
+interface LeadDuplicate {
+  id: string
+  reason: LeadDuplicateReason
+  score: number
+  status: 'pending' | 'dismissed'
+  resolvedAt: string | null
+  createdAt: string
+  lead: DuplicateLead
+  match: DuplicateLead
+  resolvedBy: { id: string; username: string } | null
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+interface MergeState {
+  duplicate: LeadDuplicate
+  target: DuplicateLead
+  source: DuplicateLead
+  preferSource: LeadMergeField[]
+}
+
+const FIELD_LABELS: Record<LeadMergeField, string> = {
+  name: 'Name',
+  email: 'Email',
+  company: 'Company',
+  profileUrl: 'Profile URL',
+  postUrl: 'Post URL',
+  website: 'Website',
+}
+
+export default function LeadDuplicatesPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [duplicates, setDuplicates] = useState<LeadDuplicate[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [status, setStatus] = useState<'pending' | 'dismissed'>('pending')
+  const [scanning, setScanning] = useState(false)
+  const [merging, setMerging] = useState<MergeState | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [mergeError, setMergeError] = useState('')
+
+  const checkSession = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session')
+      const data = await res.json()
+      if (!res.ok || !data.user) {
+        router.push('/login')
+        return
+      }
+      if (data.user.role !== 'admin') {
+        router.push('/dashboard/tasks')
+        return
+      }
+      setUser(data.user)
+    } catch {
+      router.push('/login')
+    }
+  }, [router])
+
+  const fetchDuplicates = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ page: String(page), limit: '20', status })
+      const res = await fetch(`/api/leads/duplicates?${params.toString()}`)
+      const data = await res.json()
+      if (res.ok) {
+        setDuplicates(data.duplicates || [])
+        setPagination(data.pagination || null)
+      }
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, status])
+
+  useEffect(() => {
+    checkSession()
+  }, [checkSession])
+
+  useEffect(() => {
+    if (user) {
+      fetchDuplicates()
+    }
+  }, [user, fetchDuplicates])
+
+  useEffect(() => {
+    setPage(1)
+  }, [status])
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+      router.push('/login')
+      router.refresh()
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+  }
+
+  const handleScan = async () => {
+    setScanning(true)
+    try {
+      const res = await fetch('/api/leads/duplicates/scan', { method: 'POST' })
+      const data = await res.json()
+      if (res.ok) {
+        alert(data.flagged > 0 ? `${data.flagged} new possible duplicates found.` : 'No new duplicates found.')
+        fetchDuplicates()
+      } else {
+        alert(data.error || 'Failed to scan leads')
+      }
+    } catch (e) {
+      console.error(e)
+      alert('Failed to scan leads')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const handleStatus = async (duplicate: LeadDuplicate, newStatus: 'pending' | 'dismissed') => {
+    try {
+      const res = await fetch(`/api/leads/duplicates/${duplicate.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus }),
+      })
+      if (res.ok) {
+        fetchDuplicates()
+      } else {
+        const data = await res.json()
+        alert(data.error || 'Failed to update duplicate')
+      }
+    } catch (e) {
+      console.error(e)
+      alert('Failed to update duplicate')
+    }
+  }
+
+  const openMerge = (duplicate: LeadDuplicate, target: DuplicateLead, source: DuplicateLead) => {
+    setMergeError('')
+    setMerging({ duplicate, target, source, preferSource: [] })
+  }
+
+  const togglePreferSource = (field: LeadMergeField, fromSource: boolean) => {
+    if (!merging) return
+    setMerging({
+      ...merging,
+      preferSource: fromSource
+        ? [...merging.preferSource, field]
+        : merging.preferSource.filter((f) => f !== field),
+    })
+  }
+
+  const handleMerge = async () => {
+    if (!merging) return
+    setSaving(true)
+    setMergeError('')
+    try {
+      const res = await fetch('/api/leads/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetId: merging.target.id,
+          sourceId: merging.source.id,
+          preferSource: merging.preferSource,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setMergeError(data.details?.[0]?.message || data.error || 'Failed to merge leads')
+        return
+      }
+      setMerging(null)
+      fetchDuplicates()
+    } catch {
+      setMergeError('Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Fields where both leads have a value and the values differ, so the admin has to pick one
+  const conflictingFields = merging
+    ? LEAD_MERGE_FIELDS.filter((field) => merging.target[field] && merging.source[field] && merging.target[field] !== merging.source[field])
+    : []
+
+  const renderLead = (duplicate: LeadDuplicate, lead: DuplicateLead, other: DuplicateLead) => (
+    <div className="flex-1 space-y-1 rounded-md border border-border p-3 text-sm">
+      <div className="font-medium">{lead.name}</div>
+      {LEAD_MERGE_FIELDS.filter((field) => field !== 'name' && lead[field]).map((field) => (
+        <div key={field} className="break-all text-xs">
+          <span className="text-muted-foreground">{FIELD_LABELS[field]}:</span> {lead[field]}
+        </div>
+      ))}
+      <div className="text-xs text-muted-foreground">
+        {lead.status.replace(/_/g, ' ')} · {SYSTEM_LABELS[lead.system]} · {lead.assignedTo?.username ?? 'Unassigned'}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Created {new Date(lead.createdAt).toLocaleDateString()} · {lead._count.statusHistory} status changes
+      </div>
+      {lead.notes && <div className="line-clamp-2 text-xs italic text-muted-foreground">{lead.notes}</div>}
+      {duplicate.status === 'pending' && (
+        <Button size="sm" variant="outline" className="mt-2" onClick={() => openMerge(duplicate, lead, other)}>
+          Keep this lead
+        </Button>
+      )}
+    </div>
+  )
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Sidebar user={user} onLogout={handleLogout} isOpen={sidebarOpen} onToggle={setSidebarOpen} />
+      <header
+        className={cn(
+          'flex items-center justify-between border-b border-border bg-card py-3 shrink-0 transition-all duration-300',
+          sidebarOpen ? 'px-6' : 'pl-20 pr-6'
+        )}
+      >
+        <h1 className="text-xl font-semibold text-foreground">Duplicate Leads</h1>
+        <ThemeToggle />
+      </header>
+
+      <Dialog open={merging !== null} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Merge leads</DialogTitle>
+            <DialogDescription>
+              {merging && (
+                <>
+                  {merging.source.name} is merged into {merging.target.name} and deleted. Notes, status history and
+                  linked tasks are combined; the kept lead&apos;s stage and assignee stay.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {merging && (
+            <div className="space-y-4">
+              {conflictingFields.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No conflicting fields; empty fields are filled in from the merged lead.
+                </p>
+              ) : (
+                conflictingFields.map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label>{FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={merging.preferSource.includes(field) ? 'source' : 'target'}
+                      onValueChange={(v) => togglePreferSource(field, v === 'source')}
+                      disabled={saving}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="target">{merging.target[field]}</SelectItem>
+                        <SelectItem value="source">{merging.source[field]}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))
+              )}
+              {mergeError && <p className="text-sm text-destructive">{mergeError}</p>}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setMerging(null)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button type="button" onClick={handleMerge} disabled={saving}>
+                  {saving ? 'Merging...' : 'Merge'}
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <main className={cn('flex-1 overflow-auto p-4', sidebarOpen && 'md:pl-[calc(16rem+1rem)]')}>
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Copy className="h-5 w-5" />
+                Possible duplicates
+              </CardTitle>
+              <CardDescription>
+                Leads with a similar name and company, or matching email or profile URL. Keep one lead of each pair to
+                merge the other into it, or dismiss pairs that are different people.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={status} onValueChange={(v) => setStatus(v as 'pending' | 'dismissed')}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pending">To review</SelectItem>
+                  <SelectItem value="dismissed">Dismissed</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleScan} disabled={scanning}>
+                {scanning ? 'Scanning...' : 'Scan all leads'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Spinner className="h-6 w-6" />
+              </div>
+            ) : duplicates.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {status === 'pending' ? 'No possible duplicates to review.' : 'No dismissed pairs.'}
+              </p>
+            ) : (
+              duplicates.map((duplicate) => (
+                <div key={duplicate.id} className="space-y-2 rounded-lg border border-border p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span>
+                      <span className="font-medium">{LEAD_DUPLICATE_REASON_LABELS[duplicate.reason]}</span>
+                      {duplicate.reason === 'name_company' && (
+                        <span className="text-muted-foreground"> · {Math.round(duplicate.score * 100)}% similar</span>
+                      )}
+                      {duplicate.status === 'dismissed' && duplicate.resolvedBy && (
+                        <span className="text-muted-foreground"> · dismissed by {duplicate.resolvedBy.username}</span>
+                      )}
+                    </span>
+                    {duplicate.status === 'pending' ? (
+                      <Button size="sm" variant="ghost" onClick={() => handleStatus(duplicate, 'dismissed')}>
+                        Not a duplicate
+                      </Button>
+                    ) : (
+                      <Button size="sm" variant="ghost" onClick={() => handleStatus(duplicate, 'pending')}>
+                        Back to review
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex flex-col gap-2 md:flex-row">
+                    {renderLead(duplicate, duplicate.match, duplicate.lead)}
+                    {renderLead(duplicate, duplicate.lead, duplicate.match)}
+                  </div>
+                </div>
+              ))
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground text-center">
+                  Page {pagination.page} of {pagination.totalPages} ({pagination.total} pairs)
+                </div>
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        onClick={(e: React.MouseEvent) => {
+                          e.preventDefault()
+                          if (page > 1 && !loading) setPage(p => p - 1)
+                        }}
+                        className={page === 1 || loading ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        onClick={(e: React.MouseEvent) => {
+                          e.preventDefault()
+                          if (page < pagination.totalPages && !loading) setPage(p => p + 1)
+                        }}
+                        className={page === pagination.totalPages || loading ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
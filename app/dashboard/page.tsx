@@ -42,7 +42,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { LeadFormDialog } from '@/components/LeadFormDialog'
-import { LEAD_STATUS_LABELS, LEAD_STATUSES, SYSTEMS, SYSTEM_LABELS } from '@/lib/constants'
+import { SYSTEMS, SYSTEM_LABELS } from '@/lib/constants'
 import { ChevronDown } from 'lucide-react'
 import {
   Pagination,
@@ -62,6 +62,7 @@ interface Lead {
   profileUrl: string | null
   postUrl: string | null
   website: string | null
+  pipelineId: string
   status: string
   system: string
   notes: string | null
@@ -69,13 +70,9 @@ interface Lead {
   assignedTo: {
     id: string
     username: string
+    teamId?: string | null
   } | null
-  textedAt: string | null
-  firstFollowupAt: string | null
-  secondFollowupAt: string | null
-  repliedAt: string | null
-  meetingBookedAt: string | null
-  commentedAt: string | null
+  stageEnteredAt: Record<string, string>
   lastStatusUpdater: {
     id: string
     username: string
@@ -97,10 +94,47 @@ interface StatusHistory {
   }
 }
 
+interface LeadTask {
+  id: string
+  title: string
+  status: 'undone' | 'done' | 'backlog'
+  dueAt: string
+  completedAt: string | null
+  completeLeadStatus: string | null
+  assignedTo: { id: string; username: string }
+}
+
 interface User {
   id: string
   username: string
   role: string
+  teamId?: string | null
+}
+
+interface PipelineStage {
+  id: string
+  key: string
+  label: string
+  color: string
+  position: number
+  isTerminal: boolean
+  isWon: boolean
+  isLost: boolean
+}
+
+interface PipelineTransition {
+  fromKey: string
+  toKey: string
+  requiresReason: boolean
+  roles: string[]
+}
+
+interface Pipeline {
+  id: string
+  name: string
+  isDefault: boolean
+  stages: PipelineStage[]
+  transitions: PipelineTransition[]
 }
 
 export default function DashboardPage() {
@@ -110,6 +144,8 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true)
   const [search, setSearch] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
+  const [pipelineFilter, setPipelineFilter] = useState<string>('all')
+  const [pipelines, setPipelines] = useState<Pipeline[]>([])
   const [filter, setFilter] = useState<string>('all')
   const [systemFilter, setSystemFilter] = useState<string>('all')
   const [dateFilter, setDateFilter] = useState<string>('')
@@ -132,7 +168,17 @@ export default function DashboardPage() {
   const [viewingHistory, setViewingHistory] = useState<{
     lead: Lead
     history: StatusHistory[]
+    tasks: LeadTask[]
   } | null>(null)
+  const [taskLead, setTaskLead] = useState<Lead | null>(null)
+  const [taskUsers, setTaskUsers] = useState<User[]>([])
+  const [taskTitle, setTaskTitle] = useState('')
+  const [taskDescription, setTaskDescription] = useState('')
+  const [taskAssigneeId, setTaskAssigneeId] = useState('')
+  const [taskDueDate, setTaskDueDate] = useState('')
+  const [taskCompleteStatus, setTaskCompleteStatus] = useState('')
+  const [taskError, setTaskError] = useState('')
+  const [creatingTask, setCreatingTask] = useState(false)
   const [fileInputRef, setFileInputRef] = useState<HTMLInputElement | null>(null)
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const [popoverOpen, setPopoverOpen] = useState(false)
@@ -159,6 +205,7 @@ export default function DashboardPage() {
       const params = new URLSearchParams()
       if (search) params.append('search', search)
       if (systemFilter && systemFilter !== 'all') params.append('system', systemFilter)
+      if (pipelineFilter && pipelineFilter !== 'all') params.append('pipelineId', pipelineFilter)
       params.append('page', page.toString())
       params.append('limit', '15')
 
@@ -201,12 +248,30 @@ export default function DashboardPage() {
     } finally {
       setLoading(false)
     }
-  }, [search, statusFilter, filter, systemFilter, appliedDateFilter, appliedStatuses, page])
+  }, [search, statusFilter, filter, systemFilter, pipelineFilter, appliedDateFilter, appliedStatuses, page])
+
+  const fetchPipelines = useCallback(async () => {
+    try {
+      const response = await fetch('/api/pipelines')
+      const data = await response.json()
+      if (response.ok) {
+        setPipelines(data.pipelines || [])
+      }
+    } catch (error) {
+      console.error('Error fetching pipelines:', error)
+    }
+  }, [])
 
   useEffect(() => {
     checkSession()
   }, [checkSession])
 
+  useEffect(() => {
+    if (user) {
+      fetchPipelines()
+    }
+  }, [user, fetchPipelines])
+
   // Handle filter changes - reset the other filter when one is selected
   useEffect(() => {
     if (user) {
@@ -390,14 +455,22 @@ export default function DashboardPage() {
     }
   }
 
-  const handleStatusChange = async (leadId: string, newStatus: string) => {
+  const handleStatusChange = async (lead: Lead, newStatus: string) => {
+    let reason: string | undefined
+    const move = allowedMoves(lead).find((m) => m.stage.key === newStatus)
+    if (move?.requiresReason) {
+      const input = prompt(`Reason for moving ${lead.name} to ${move.stage.label}:`)
+      if (!input?.trim()) return
+      reason = input.trim()
+    }
+
     try {
-      const response = await fetch(`/api/leads/${leadId}/status`, {
+      const response = await fetch(`/api/leads/${lead.id}/status`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ newStatus }),
+        body: JSON.stringify({ newStatus, reason }),
       })
 
       const data = await response.json()
@@ -414,6 +487,71 @@ export default function DashboardPage() {
     }
   }
 
+  const tomorrow = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+  const handleAddTaskClick = async (lead: Lead) => {
+    setTaskLead(lead)
+    setTaskTitle(`Follow up with ${lead.name}`)
+    setTaskDescription('')
+    setTaskAssigneeId(lead.assignedToId || '')
+    setTaskDueDate(tomorrow())
+    setTaskCompleteStatus('')
+    setTaskError('')
+
+    try {
+      const response = await fetch('/api/users')
+      const data = await response.json()
+      if (response.ok) {
+        setTaskUsers(
+          (data.users || []).filter((u: User) => u.role === 'outreach' || u.role === 'lead_gen')
+        )
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error)
+    }
+  }
+
+  const handleCreateTask = async () => {
+    if (!taskLead) return
+    if (!taskTitle.trim() || !taskAssigneeId) {
+      setTaskError('Title and assignee are required.')
+      return
+    }
+
+    setCreatingTask(true)
+    setTaskError('')
+    try {
+      const response = await fetch('/api/tasks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: taskTitle.trim(),
+          description: taskDescription.trim() || undefined,
+          assignedToId: taskAssigneeId,
+          // Default is due in 24 hours; a picked date keeps the current time of day
+          dueAt: taskDueDate && taskDueDate !== tomorrow() ? taskDueDate : undefined,
+          leadIds: [taskLead.id],
+          completeLeadStatus: taskCompleteStatus || null,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setTaskLead(null)
+      } else {
+        setTaskError(data.error || 'Failed to create task')
+      }
+    } catch (error) {
+      console.error('Error creating task:', error)
+      setTaskError('Failed to create task')
+    } finally {
+      setCreatingTask(false)
+    }
+  }
+
   const handleCSVImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
@@ -430,7 +568,10 @@ export default function DashboardPage() {
       const data = await response.json()
 
       if (response.ok) {
-        alert(`Successfully imported ${data.created} leads. ${data.skipped} skipped.`)
+        alert(
+          `Successfully imported ${data.created} leads. ${data.skipped} skipped.` +
+            (data.flaggedDuplicates ? ` ${data.flaggedDuplicates} possible duplicates queued for review.` : '')
+        )
         fetchLeads()
         if (fileInputRef) fileInputRef.value = ''
       } else {
@@ -444,13 +585,18 @@ export default function DashboardPage() {
 
   const handleViewHistory = async (lead: Lead) => {
     try {
-      const response = await fetch(`/api/leads/${lead.id}`)
+      const [response, tasksResponse] = await Promise.all([
+        fetch(`/api/leads/${lead.id}`),
+        fetch(`/api/tasks?leadId=${lead.id}&limit=50`),
+      ])
       const data = await response.json()
+      const tasksData = await tasksResponse.json()
 
       if (response.ok) {
         setViewingHistory({
           lead: data.lead,
           history: data.lead.statusHistory || [],
+          tasks: tasksResponse.ok ? tasksData.tasks || [] : [],
         })
       }
     } catch (error) {
@@ -458,12 +604,58 @@ export default function DashboardPage() {
     }
   }
 
+  // Stages across all pipelines (default pipeline first), each key once, for filters and labels
+  const allStages = pipelines.reduce<PipelineStage[]>((stages, pipeline) => {
+    for (const stage of pipeline.stages) {
+      if (!stages.some((s) => s.key === stage.key)) stages.push(stage)
+    }
+    return stages
+  }, [])
+  const defaultStages = pipelines.find((p) => p.isDefault)?.stages ?? allStages
+  const stagesFor = (lead: Lead) => pipelines.find((p) => p.id === lead.pipelineId)?.stages ?? allStages
+  const stageFor = (key: string) => allStages.find((s) => s.key === key)
+  // Stages a lead can move to from its current one (mirrors getAllowedTransitions in lib/lead-transitions.ts)
+  const allowedMoves = (lead: Lead) => {
+    const pipeline = pipelines.find((p) => p.id === lead.pipelineId)
+    if (!pipeline) return []
+    if (pipeline.transitions.length === 0) {
+      return pipeline.stages
+        .filter((stage) => stage.key !== lead.status)
+        .map((stage) => ({ stage, requiresReason: false }))
+    }
+    return pipeline.stages.flatMap((stage) => {
+      const transition = pipeline.transitions.find(
+        (t) =>
+          t.fromKey === lead.status &&
+          t.toKey === stage.key &&
+          (t.roles.length === 0 || (!!user && t.roles.includes(user.role)))
+      )
+      return transition ? [{ stage, requiresReason: transition.requiresReason }] : []
+    })
+  }
+  // The current stage plus the allowed next ones, for status pickers
+  const statusOptionsFor = (lead: Lead) => {
+    const current = stagesFor(lead).find((stage) => stage.key === lead.status)
+    return [...(current ? [current] : []), ...allowedMoves(lead).map((move) => move.stage)]
+  }
+  const stageLabel = (key: string) => stageFor(key)?.label ?? key
+  // One "entered at" column per working stage; a pipeline's first stage and terminal stages are left out
+  const trackedStages = allStages.filter(
+    (stage) => !stage.isTerminal && !pipelines.some((p) => p.stages[0]?.key === stage.key)
+  )
+
   const canAddLead = user?.role === 'admin' || user?.role === 'lead_gen'
   const canImportCSV = user?.role === 'admin' || user?.role === 'lead_gen'
+  // Team leads manage leads assigned to anyone in their team (mirrors ROLE_PERMISSIONS)
+  const isTeamLead = user?.role === 'team_lead'
+  const isInMyTeam = (lead: Lead) =>
+    !!lead.assignedToId &&
+    (lead.assignedToId === user?.id || (!!user?.teamId && lead.assignedTo?.teamId === user.teamId))
   const canEdit = (lead: Lead) => {
     if (user?.role === 'admin') return true
     if (user?.role === 'lead_gen' && !lead.assignedToId) return true
     if (user?.role === 'outreach' && (!lead.assignedToId || lead.assignedToId === user.id)) return true
+    if (isTeamLead && (!lead.assignedToId || isInMyTeam(lead))) return true
     return false
   }
   const canDelete = user?.role === 'admin'
@@ -471,8 +663,12 @@ export default function DashboardPage() {
     if (user?.role === 'admin') return true
     if (user?.role === 'lead_gen' && !lead.assignedToId) return false
     if (user?.role === 'outreach' && lead.assignedToId === user.id) return true
+    if (isTeamLead && isInMyTeam(lead)) return true
     return false
   }
+  // Mirrors task.manage: admins for anyone, team leads for their team
+  const canAddTask = user?.role === 'admin' || isTeamLead
+  const canAssign = (lead: Lead) => user?.role === 'admin' || (isTeamLead && (!lead.assignedToId || isInMyTeam(lead)))
 
   if (loading && !user) {
     return (
@@ -541,13 +737,28 @@ export default function DashboardPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Statuses</SelectItem>
-                    {LEAD_STATUSES.map((status) => (
-                      <SelectItem key={status} value={status}>
-                        {LEAD_STATUS_LABELS[status as keyof typeof LEAD_STATUS_LABELS]}
+                    {allStages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>
+                        {stage.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {pipelines.length > 1 && (
+                  <Select value={pipelineFilter} onValueChange={setPipelineFilter}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="Pipeline" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Pipelines</SelectItem>
+                      {pipelines.map((pipeline) => (
+                        <SelectItem key={pipeline.id} value={pipeline.id}>
+                          {pipeline.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Select value={filter} onValueChange={setFilter}>
                   <SelectTrigger className="w-[220px]">
                     <SelectValue placeholder="Action" />
@@ -608,7 +819,7 @@ export default function DashboardPage() {
                         <Label className="text-sm font-medium">Select Statuses (Optional)</Label>
                         <div className="border rounded-md p-3 bg-muted/30">
                           <div className="grid grid-cols-2 gap-3 max-h-[280px] overflow-y-auto">
-                            {LEAD_STATUSES.map((status) => (
+                            {allStages.map(({ key: status, label }) => (
                               <div key={status} className="flex items-center space-x-2">
                                 <Checkbox
                                   id={`status-${status}`}
@@ -627,7 +838,7 @@ export default function DashboardPage() {
                                   htmlFor={`status-${status}`}
                                   className="text-sm font-normal cursor-pointer flex-1"
                                 >
-                                  {LEAD_STATUS_LABELS[status as keyof typeof LEAD_STATUS_LABELS]}
+                                  {label}
                                 </Label>
                               </div>
                             ))}
@@ -680,12 +891,11 @@ export default function DashboardPage() {
                           <TableHead className="min-w-[160px] whitespace-nowrap font-semibold">Company</TableHead>
                           <TableHead className="min-w-[160px] whitespace-nowrap font-semibold">Status</TableHead>
                           <TableHead className="min-w-[140px] whitespace-nowrap font-semibold">Assigned To</TableHead>
-                          <TableHead className="min-w-[130px] whitespace-nowrap font-semibold">Texted</TableHead>
-                          <TableHead className="min-w-[150px] whitespace-nowrap font-semibold">First Follow-up</TableHead>
-                          <TableHead className="min-w-[160px] whitespace-nowrap font-semibold">Second Follow-up</TableHead>
-                          <TableHead className="min-w-[130px] whitespace-nowrap font-semibold">Replied</TableHead>
-                          <TableHead className="min-w-[150px] whitespace-nowrap font-semibold">Meeting Booked</TableHead>
-                          <TableHead className="min-w-[150px] whitespace-nowrap font-semibold">Commented</TableHead>
+                          {trackedStages.map((stage) => (
+                            <TableHead key={stage.key} className="min-w-[150px] whitespace-nowrap font-semibold">
+                              {stage.label}
+                            </TableHead>
+                          ))}
                           <TableHead className="min-w-[150px] whitespace-nowrap font-semibold">Last Updated By</TableHead>
                           <TableHead className="min-w-[200px] whitespace-nowrap font-semibold">Actions</TableHead>
                         </TableRow>
@@ -732,23 +942,26 @@ export default function DashboardPage() {
                               <Select
                                 value={lead.status}
                                 onValueChange={(value) =>
-                                  handleStatusChange(lead.id, value)
+                                  handleStatusChange(lead, value)
                                 }
                               >
                                 <SelectTrigger className="w-[150px]">
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {LEAD_STATUSES.map((status) => (
-                                    <SelectItem key={status} value={status}>
-                                      {LEAD_STATUS_LABELS[status as keyof typeof LEAD_STATUS_LABELS]}
+                                  {statusOptionsFor(lead).map((stage) => (
+                                    <SelectItem key={stage.key} value={stage.key}>
+                                      {stage.label}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
                               </Select>
                             ) : (
-                              <span className="px-2 py-1 text-xs rounded bg-blue-100 text-blue-800">
-                                {LEAD_STATUS_LABELS[lead.status as keyof typeof LEAD_STATUS_LABELS] || lead.status}
+                              <span
+                                className="px-2 py-1 text-xs rounded text-white"
+                                style={{ backgroundColor: stageFor(lead.status)?.color ?? '#64748b' }}
+                              >
+                                {stageLabel(lead.status)}
                               </span>
                             )}
                           </TableCell>
@@ -757,60 +970,17 @@ export default function DashboardPage() {
                               <span className="text-gray-400">Unassigned</span>
                             )}
                           </TableCell>
-                          <TableCell>
-                            {lead.textedAt ? (
-                              <span className="text-sm text-gray-700">
-                                {new Date(lead.textedAt).toLocaleDateString()}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400 text-sm">-</span>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            {lead.firstFollowupAt ? (
-                              <span className="text-sm text-gray-700">
-                                {new Date(lead.firstFollowupAt).toLocaleDateString()}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400 text-sm">-</span>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            {lead.secondFollowupAt ? (
-                              <span className="text-sm text-gray-700">
-                                {new Date(lead.secondFollowupAt).toLocaleDateString()}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400 text-sm">-</span>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            {lead.repliedAt ? (
-                              <span className="text-sm text-gray-700">
-                                {new Date(lead.repliedAt).toLocaleDateString()}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400 text-sm">-</span>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            {lead.meetingBookedAt ? (
-                              <span className="text-sm text-gray-700">
-                                {new Date(lead.meetingBookedAt).toLocaleDateString()}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400 text-sm">-</span>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            {lead.commentedAt ? (
-                              <span className="text-sm text-gray-700">
-                                {new Date(lead.commentedAt).toLocaleDateString()}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400 text-sm">-</span>
-                            )}
-                          </TableCell>
+                          {trackedStages.map((stage) => (
+                            <TableCell key={stage.key}>
+                              {lead.stageEnteredAt?.[stage.key] ? (
+                                <span className="text-sm text-gray-700">
+                                  {new Date(lead.stageEnteredAt[stage.key]).toLocaleDateString()}
+                                </span>
+                              ) : (
+                                <span className="text-gray-400 text-sm">-</span>
+                              )}
+                            </TableCell>
+                          ))}
                           <TableCell>
                             {lead.lastStatusUpdater ? (
                               <div className="text-sm">
@@ -828,7 +998,7 @@ export default function DashboardPage() {
                           <TableCell>
                             <div className="flex gap-2">
                               {!lead.assignedTo &&
-                                (user?.role === 'outreach' || user?.role === 'admin') && (
+                                (user?.role === 'outreach' || user?.role === 'admin' || isTeamLead) && (
                                   <Button
                                     size="sm"
                                     variant="outline"
@@ -839,7 +1009,8 @@ export default function DashboardPage() {
                                 )}
                               {lead.assignedTo &&
                                 ((user?.role === 'outreach' && lead.assignedToId === user.id) || 
-                                 (user?.role === 'admin' && lead.assignedToId === user.id)) && (
+                                 (user?.role === 'admin' && lead.assignedToId === user.id) ||
+                                 (isTeamLead && isInMyTeam(lead))) && (
                                   <Button
                                     size="sm"
                                     variant="outline"
@@ -848,7 +1019,7 @@ export default function DashboardPage() {
                                     Unclaim
                                   </Button>
                                 )}
-                              {user?.role === 'admin' && (
+                              {canAssign(lead) && (
                                 <Button
                                   size="sm"
                                   variant="outline"
@@ -876,6 +1047,13 @@ export default function DashboardPage() {
                                   >
                                     View History
                                   </DropdownMenuItem>
+                                  {canAddTask && (
+                                    <DropdownMenuItem
+                                      onClick={() => handleAddTaskClick(lead)}
+                                    >
+                                      Add Task
+                                    </DropdownMenuItem>
+                                  )}
                                   {canDelete && (
                                     <DropdownMenuItem
                                       onClick={() => handleDelete(lead.id)}
@@ -975,6 +1153,7 @@ export default function DashboardPage() {
         onOpenChange={setShowAddDialog}
         onSuccess={fetchLeads}
         isAdmin={user?.role === 'admin'}
+        stages={defaultStages}
       />
 
       {/* Edit Lead Dialog */}
@@ -988,6 +1167,7 @@ export default function DashboardPage() {
           }}
           leadId={editingLead.id}
           isAdmin={user?.role === 'admin'}
+          stages={statusOptionsFor(editingLead)}
           initialData={{
             name: editingLead.name,
             email: editingLead.email || '',
@@ -1063,6 +1243,94 @@ export default function DashboardPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Add Task Dialog */}
+      <Dialog open={!!taskLead} onOpenChange={(open) => !open && setTaskLead(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Task{taskLead ? ` - ${taskLead.name}` : ''}</DialogTitle>
+            <DialogDescription>
+              Create a task linked to this lead.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="taskTitle">Title</Label>
+              <Input
+                id="taskTitle"
+                value={taskTitle}
+                onChange={(e) => setTaskTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taskDescription">Description</Label>
+              <Input
+                id="taskDescription"
+                value={taskDescription}
+                onChange={(e) => setTaskDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Assign To</Label>
+              <Select value={taskAssigneeId} onValueChange={setTaskAssigneeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {taskUsers.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taskDueDate">Due date</Label>
+              <Input
+                id="taskDueDate"
+                type="date"
+                min={tomorrow()}
+                value={taskDueDate}
+                onChange={(e) => setTaskDueDate(e.target.value)}
+              />
+            </div>
+            {taskLead && (
+              <div className="space-y-2">
+                <Label>When completed, move lead to</Label>
+                <Select
+                  value={taskCompleteStatus || 'none'}
+                  onValueChange={(value) => setTaskCompleteStatus(value === 'none' ? '' : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Keep current stage</SelectItem>
+                    {stagesFor(taskLead)
+                      .filter((stage) => stage.key !== taskLead.status)
+                      .map((stage) => (
+                        <SelectItem key={stage.key} value={stage.key}>
+                          {stage.label}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {taskError && <p className="text-sm text-red-600">{taskError}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setTaskLead(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateTask} disabled={creatingTask}>
+              {creatingTask ? 'Creating...' : 'Create Task'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Status History Dialog */}
       {viewingHistory && (
         <Dialog open={!!viewingHistory} onOpenChange={() => setViewingHistory(null)}>
@@ -1073,7 +1341,36 @@ export default function DashboardPage() {
                 Complete audit trail of status changes
               </DialogDescription>
             </DialogHeader>
-            <div className="max-h-[60vh] overflow-y-auto">
+            <div className="max-h-[60vh] overflow-y-auto space-y-6">
+              {viewingHistory.tasks.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">Tasks</h3>
+                  {viewingHistory.tasks.map((task) => (
+                    <div
+                      key={task.id}
+                      className="flex justify-between items-start border-l-2 border-amber-500 pl-4 py-2"
+                    >
+                      <div>
+                        <p className="font-medium">{task.title}</p>
+                        <p className="text-sm text-gray-600">
+                          {task.assignedTo.username}
+                          {task.completeLeadStatus && ` · when done: ${stageLabel(task.completeLeadStatus)}`}
+                        </p>
+                      </div>
+                      <div className="text-right text-sm text-gray-500">
+                        <p>
+                          {task.status === 'done' ? 'Done' : task.status === 'backlog' ? 'Backlog' : 'Undone'}
+                        </p>
+                        <p>
+                          {task.completedAt
+                            ? new Date(task.completedAt).toLocaleString()
+                            : `Due ${new Date(task.dueAt).toLocaleString()}`}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
               {viewingHistory.history.length === 0 ? (
                 <p className="text-gray-500">No status history available</p>
               ) : (
@@ -1087,8 +1384,8 @@ export default function DashboardPage() {
                         <div>
                           <p className="font-medium">
                             {entry.oldStatus
-                              ? `${LEAD_STATUS_LABELS[entry.oldStatus as keyof typeof LEAD_STATUS_LABELS]} → ${LEAD_STATUS_LABELS[entry.newStatus as keyof typeof LEAD_STATUS_LABELS]}`
-                              : `Set to ${LEAD_STATUS_LABELS[entry.newStatus as keyof typeof LEAD_STATUS_LABELS]}`}
+                              ? `${stageLabel(entry.oldStatus)} → ${stageLabel(entry.newStatus)}`
+                              : `Set to ${stageLabel(entry.newStatus)}`}
                           </p>
                           {entry.reason && (
                             <p className="text-sm text-gray-600 mt-1">
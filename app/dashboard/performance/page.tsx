@@ -10,6 +10,13 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Calendar as CalendarComponent } from '@/components/ui/calendar'
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
 import { Calendar as CalendarIcon } from 'lucide-react'
@@ -94,6 +101,11 @@ function getUserColor(userId: string, allUsers: Array<{ id: string }>): string {
   return USER_COLORS[userIndex % USER_COLORS.length]
 }
 
+interface Team {
+  id: string
+  name: string
+}
+
 export default function PerformanceDashboardPage() {
   const router = useRouter()
   const [user, setUser] = useState<User | null>(null)
@@ -114,6 +126,8 @@ export default function PerformanceDashboardPage() {
   const [userPerformanceData, setUserPerformanceData] = useState<UserPerformanceData[]>([])
   const [aggregateData, setAggregateData] = useState<UserPerformanceData | null>(null)
   const [userDataLoading, setUserDataLoading] = useState(false)
+  const [teams, setTeams] = useState<Team[]>([])
+  const [teamFilter, setTeamFilter] = useState<string>('all')
 
   const checkSession = useCallback(async () => {
     try {
@@ -131,6 +145,21 @@ export default function PerformanceDashboardPage() {
     }
   }, [router])
 
+  const fetchTeams = useCallback(async () => {
+    try {
+      const response = await fetch('/api/teams')
+      const data = await response.json()
+      if (response.ok) {
+        setTeams(data.teams || [])
+      }
+    } catch (error) {
+      console.error('Error fetching teams:', error)
+    }
+  }, [])
+
+  // Optional team filter appended to every performance request
+  const teamQuery = teamFilter !== 'all' ? `&teamId=${teamFilter}` : ''
+
   const fetchPerformanceData = useCallback(async () => {
     if (!startDate || !endDate) return
 
@@ -144,8 +173,8 @@ export default function PerformanceDashboardPage() {
     try {
       // Fetch graph data for the chart
       const [graphResponse, averageResponse] = await Promise.all([
-        fetch(`/api/performance/graph?startDate=${startDateStr}&endDate=${endDateStr}`),
-        fetch(`/api/performance/average?startDate=${startDateStr}&endDate=${endDateStr}`),
+        fetch(`/api/performance/graph?startDate=${startDateStr}&endDate=${endDateStr}${teamQuery}`),
+        fetch(`/api/performance/average?startDate=${startDateStr}&endDate=${endDateStr}${teamQuery}`),
       ])
 
       const graphData = await graphResponse.json()
@@ -168,13 +197,14 @@ export default function PerformanceDashboardPage() {
     } finally {
       setChartLoading(false)
     }
-  }, [startDate, endDate])
+  }, [startDate, endDate, teamQuery])
 
   useEffect(() => {
     checkSession().then(() => {
       setLoading(false)
     })
-  }, [checkSession])
+    fetchTeams()
+  }, [checkSession, fetchTeams])
 
   // Fetch user performance data with date filter
   const fetchUserPerformanceData = useCallback(async () => {
@@ -191,7 +221,7 @@ export default function PerformanceDashboardPage() {
         return
       }
 
-      const response = await fetch(`/api/performance/users?startDate=${startDateStr}&endDate=${endDateStr}`)
+      const response = await fetch(`/api/performance/users?startDate=${startDateStr}&endDate=${endDateStr}${teamQuery}`)
       const result = await response.json()
 
       if (!response.ok) {
@@ -206,7 +236,7 @@ export default function PerformanceDashboardPage() {
     } finally {
       setUserDataLoading(false)
     }
-  }, [startDate, endDate])
+  }, [startDate, endDate, teamQuery])
 
   // Only fetch data on initial load, not when dates change
   useEffect(() => {
@@ -444,6 +474,24 @@ export default function PerformanceDashboardPage() {
                     </PopoverContent>
                   </Popover>
                 </div>
+                {teams.length > 0 && (
+                  <div className="flex-1 w-full space-y-2">
+                    <Label className="text-sm font-semibold text-black dark:text-white">Team</Label>
+                    <Select value={teamFilter} onValueChange={setTeamFilter}>
+                      <SelectTrigger className="h-12 border-2 border-black dark:border-white bg-white dark:bg-black rounded-lg font-medium text-black dark:text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All teams</SelectItem>
+                        {teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <Button 
                   onClick={fetchPerformanceData} 
                   disabled={chartLoading || !startDate || !endDate}
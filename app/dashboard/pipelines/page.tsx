@@ -0,0 +1,700 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Sidebar } from '@/components/Sidebar'
+import { ThemeToggle } from '@/components/ThemeToggle'
+import { Spinner } from '@/components/ui/spinner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { USER_ROLES, USER_ROLE_LABELS, UserRole } from '@/lib/constants'
+import { cn } from '@/lib/utils'
+import { Workflow, Plus, ArrowUp, ArrowDown, Trash2, Star, Save } from 'lucide-react'
+
+interface SessionUser {
+  id: string
+  username: string
+  role: string
+}
+
+interface StageDraft {
+  key: string
+  label: string
+  color: string
+  isTerminal: boolean
+  isWon: boolean
+  isLost: boolean
+  // Saved stages keep their key; only new ones can set it
+  isNew?: boolean
+}
+
+interface TransitionDraft {
+  fromKey: string
+  toKey: string
+  requiresReason: boolean
+  // Empty = any role that may change the lead's status
+  roles: UserRole[]
+}
+
+interface Pipeline {
+  id: string
+  name: string
+  isDefault: boolean
+  stages: StageDraft[]
+  transitions: TransitionDraft[]
+  _count: { leads: number }
+}
+
+const toStageKey = (label: string) =>
+  label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+
+export default function PipelinesPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [pipelines, setPipelines] = useState<Pipeline[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Stage editor for the selected pipeline
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [draftStages, setDraftStages] = useState<StageDraft[]>([])
+  const [draftTransitions, setDraftTransitions] = useState<TransitionDraft[]>([])
+  const [newFromKey, setNewFromKey] = useState('')
+  const [newToKey, setNewToKey] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const [newPipelineName, setNewPipelineName] = useState('')
+  const [createError, setCreateError] = useState('')
+
+  const checkSession = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session')
+      const data = await res.json()
+      if (!res.ok || !data.user) {
+        router.push('/login')
+        return
+      }
+      if (data.user.role !== 'admin') {
+        router.push('/dashboard/tasks')
+        return
+      }
+      setUser(data.user)
+    } catch {
+      router.push('/login')
+    }
+  }, [router])
+
+  const fetchPipelines = useCallback(async () => {
+    try {
+      setLoading(true)
+      const res = await fetch('/api/pipelines')
+      const data = await res.json()
+      if (res.ok) {
+        setPipelines(data.pipelines || [])
+      }
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    checkSession()
+  }, [checkSession])
+
+  useEffect(() => {
+    if (user) {
+      fetchPipelines()
+    }
+  }, [user, fetchPipelines])
+
+  const selectPipeline = (pipeline: Pipeline) => {
+    setSelectedId(pipeline.id)
+    setDraftName(pipeline.name)
+    setDraftStages(
+      pipeline.stages.map(({ key, label, color, isTerminal, isWon, isLost }) => ({
+        key,
+        label,
+        color,
+        isTerminal,
+        isWon,
+        isLost,
+      }))
+    )
+    setDraftTransitions(
+      pipeline.transitions.map(({ fromKey, toKey, requiresReason, roles }) => ({ fromKey, toKey, requiresReason, roles }))
+    )
+    setError('')
+    setMessage('')
+  }
+
+  // Keep the editor open on the same pipeline after a refetch
+  useEffect(() => {
+    if (pipelines.length === 0) return
+    const selected = pipelines.find((p) => p.id === selectedId)
+    if (!selected) {
+      selectPipeline(pipelines.find((p) => p.isDefault) ?? pipelines[0])
+    }
+  }, [pipelines, selectedId])
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+      router.push('/login')
+      router.refresh()
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+  }
+
+  const updateStage = (index: number, changes: Partial<StageDraft>) => {
+    setDraftStages((stages) => stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)))
+  }
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setDraftStages((stages) => {
+      const target = index + direction
+      if (target < 0 || target >= stages.length) return stages
+      const next = [...stages]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const addStage = () => {
+    setDraftStages((stages) => [
+      ...stages,
+      { key: '', label: '', color: '#64748b', isTerminal: false, isWon: false, isLost: false, isNew: true },
+    ])
+  }
+
+  const removeStage = (index: number) => {
+    const key = draftStages[index]?.key
+    setDraftStages((stages) => stages.filter((_, i) => i !== index))
+    setDraftTransitions((transitions) => transitions.filter((t) => t.fromKey !== key && t.toKey !== key))
+  }
+
+  const stageLabel = (key: string) => draftStages.find((stage) => stage.key === key)?.label || key
+
+  const addTransition = () => {
+    if (!newFromKey || !newToKey || newFromKey === newToKey) return
+    if (draftTransitions.some((t) => t.fromKey === newFromKey && t.toKey === newToKey)) return
+    setDraftTransitions((transitions) => [
+      ...transitions,
+      { fromKey: newFromKey, toKey: newToKey, requiresReason: false, roles: [] },
+    ])
+    setNewToKey('')
+  }
+
+  const updateTransition = (index: number, changes: Partial<TransitionDraft>) => {
+    setDraftTransitions((transitions) => transitions.map((t, i) => (i === index ? { ...t, ...changes } : t)))
+  }
+
+  const toggleTransitionRole = (index: number, role: UserRole, checked: boolean) => {
+    const roles = draftTransitions[index].roles
+    updateTransition(index, { roles: checked ? [...roles, role] : roles.filter((r) => r !== role) })
+  }
+
+  const removeTransition = (index: number) => {
+    setDraftTransitions((transitions) => transitions.filter((_, i) => i !== index))
+  }
+
+  // Grouped by the stage they start from, in stage order
+  const sortedTransitions = draftTransitions
+    .map((transition, index) => ({ transition, index }))
+    .sort((a, b) => {
+      const order = (key: string) => draftStages.findIndex((stage) => stage.key === key)
+      return (
+        order(a.transition.fromKey) - order(b.transition.fromKey) ||
+        order(a.transition.toKey) - order(b.transition.toKey)
+      )
+    })
+
+  const handleSave = async () => {
+    if (!selectedId) return
+    setSaving(true)
+    setError('')
+    setMessage('')
+    try {
+      const res = await fetch(`/api/pipelines/${selectedId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draftName,
+          stages: draftStages.map(({ isNew: _isNew, ...stage }) => stage),
+          transitions: draftTransitions,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to save pipeline')
+        return
+      }
+      setMessage('Pipeline saved')
+      await fetchPipelines()
+      selectPipeline({ ...data.pipeline, _count: { leads: 0 } })
+    } catch {
+      setError('Failed to save pipeline')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMakeDefault = async (pipeline: Pipeline) => {
+    const res = await fetch(`/api/pipelines/${pipeline.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isDefault: true }),
+    })
+    if (!res.ok) {
+      const data = await res.json()
+      alert(data.error || 'Failed to update pipeline')
+    }
+    fetchPipelines()
+  }
+
+  const handleDelete = async (pipeline: Pipeline) => {
+    if (!confirm(`Delete the pipeline "${pipeline.name}"?`)) return
+    const res = await fetch(`/api/pipelines/${pipeline.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const data = await res.json()
+      alert(data.error || 'Failed to delete pipeline')
+      return
+    }
+    if (selectedId === pipeline.id) setSelectedId(null)
+    fetchPipelines()
+  }
+
+  // New pipelines start with a copy of the default pipeline's stages
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreateError('')
+    const template = pipelines.find((p) => p.isDefault)
+    try {
+      const res = await fetch('/api/pipelines', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newPipelineName,
+          stages: (template?.stages ?? []).map(({ key, label, color, isTerminal, isWon, isLost }) => ({
+            key,
+            label,
+            color,
+            isTerminal,
+            isWon,
+            isLost,
+          })),
+          transitions: (template?.transitions ?? []).map(({ fromKey, toKey, requiresReason, roles }) => ({
+            fromKey,
+            toKey,
+            requiresReason,
+            roles,
+          })),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setCreateError(data.details?.[0]?.message || data.error || 'Failed to create pipeline')
+        return
+      }
+      setNewPipelineName('')
+      await fetchPipelines()
+      selectPipeline({ ...data.pipeline, _count: { leads: 0 } })
+    } catch {
+      setCreateError('Failed to create pipeline')
+    }
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Sidebar user={user} onLogout={handleLogout} isOpen={sidebarOpen} onToggle={setSidebarOpen} />
+      <header
+        className={cn(
+          'flex items-center justify-between border-b border-border bg-card py-3 shrink-0 transition-all duration-300',
+          sidebarOpen ? 'px-6' : 'pl-20 pr-6'
+        )}
+      >
+        <h1 className="text-xl font-semibold text-foreground">Pipelines</h1>
+        <ThemeToggle />
+      </header>
+
+      <main className={cn('flex-1 overflow-auto p-4 space-y-4', sidebarOpen && 'md:pl-[calc(16rem+1rem)]')}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5" />
+              All pipelines
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading && pipelines.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Spinner className="h-8 w-8" />
+              </div>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Stages</TableHead>
+                      <TableHead>Leads</TableHead>
+                      <TableHead className="w-[220px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pipelines.map((pipeline) => (
+                      <TableRow key={pipeline.id} className={cn(pipeline.id === selectedId && 'bg-muted/50')}>
+                        <TableCell className="font-medium">
+                          {pipeline.name}
+                          {pipeline.isDefault && (
+                            <span className="ml-2 text-xs px-2 py-0.5 rounded bg-secondary text-secondary-foreground">
+                              Default
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {pipeline.stages.map((stage) => (
+                              <span
+                                key={stage.key}
+                                className="text-xs px-2 py-0.5 rounded text-white"
+                                style={{ backgroundColor: stage.color }}
+                              >
+                                {stage.label}
+                              </span>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>{pipeline._count.leads}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button size="sm" variant="outline" onClick={() => selectPipeline(pipeline)}>
+                              Edit
+                            </Button>
+                            {!pipeline.isDefault && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title="Make default"
+                                  onClick={() => handleMakeDefault(pipeline)}
+                                >
+                                  <Star className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title="Delete pipeline"
+                                  onClick={() => handleDelete(pipeline)}
+                                  disabled={pipeline._count.leads > 0}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            <form onSubmit={handleCreate} className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="pipeline-name">New pipeline</Label>
+                <Input
+                  id="pipeline-name"
+                  value={newPipelineName}
+                  onChange={(e) => setNewPipelineName(e.target.value)}
+                  placeholder="Pipeline name"
+                  required
+                />
+              </div>
+              <Button type="submit" size="sm" className="gap-1">
+                <Plus className="h-4 w-4" />
+                Create
+              </Button>
+            </form>
+            {createError && <p className="text-sm text-destructive">{createError}</p>}
+          </CardContent>
+        </Card>
+
+        {selectedId && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Stages and transitions</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Leads start in the first stage. Terminal stages end the pipeline; won and lost mark the outcome.
+                A stage&apos;s key can&apos;t change once saved, and stages that still have leads can&apos;t be removed.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2 max-w-sm">
+                <Label htmlFor="draft-name">Name</Label>
+                <Input id="draft-name" value={draftName} onChange={(e) => setDraftName(e.target.value)} />
+              </div>
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[90px]">Order</TableHead>
+                      <TableHead>Label</TableHead>
+                      <TableHead>Key</TableHead>
+                      <TableHead>Color</TableHead>
+                      <TableHead>Terminal</TableHead>
+                      <TableHead>Won</TableHead>
+                      <TableHead>Lost</TableHead>
+                      <TableHead className="w-[60px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {draftStages.map((stage, index) => (
+                      <TableRow key={stage.isNew ? `new-${index}` : stage.key}>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => moveStage(index, -1)}
+                              disabled={index === 0}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => moveStage(index, 1)}
+                              disabled={index === draftStages.length - 1}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={stage.label}
+                            onChange={(e) =>
+                              updateStage(index, {
+                                label: e.target.value,
+                                ...(stage.isNew ? { key: toStageKey(e.target.value) } : {}),
+                              })
+                            }
+                            placeholder="Label"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {stage.isNew ? (
+                            <Input
+                              value={stage.key}
+                              onChange={(e) => updateStage(index, { key: e.target.value })}
+                              placeholder="stage_key"
+                              className="font-mono"
+                            />
+                          ) : (
+                            <span className="font-mono text-xs">{stage.key}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <input
+                            type="color"
+                            value={stage.color}
+                            onChange={(e) => updateStage(index, { color: e.target.value })}
+                            className="h-8 w-12 cursor-pointer rounded border border-border bg-transparent"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            checked={stage.isTerminal}
+                            onCheckedChange={(checked) => updateStage(index, { isTerminal: checked === true })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            checked={stage.isWon}
+                            onCheckedChange={(checked) =>
+                              updateStage(index, { isWon: checked === true, ...(checked === true ? { isLost: false } : {}) })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            checked={stage.isLost}
+                            onCheckedChange={(checked) =>
+                              updateStage(index, { isLost: checked === true, ...(checked === true ? { isWon: false } : {}) })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Remove stage"
+                            onClick={() => removeStage(index)}
+                            disabled={draftStages.length === 1}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Transitions</h3>
+                <p className="text-sm text-muted-foreground">
+                  Which stages a lead can move to next. Without any transitions every move is allowed.
+                  Leave all roles unticked to let anyone who can change the lead&apos;s status make the move.
+                </p>
+                {draftTransitions.length > 0 && (
+                  <div className="rounded-md border border-border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>From</TableHead>
+                          <TableHead>To</TableHead>
+                          <TableHead>Reason required</TableHead>
+                          <TableHead>Only these roles</TableHead>
+                          <TableHead className="w-[60px]" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedTransitions.map(({ transition, index }) => (
+                          <TableRow key={`${transition.fromKey}-${transition.toKey}`}>
+                            <TableCell>{stageLabel(transition.fromKey)}</TableCell>
+                            <TableCell>{stageLabel(transition.toKey)}</TableCell>
+                            <TableCell>
+                              <Checkbox
+                                checked={transition.requiresReason}
+                                onCheckedChange={(checked) =>
+                                  updateTransition(index, { requiresReason: checked === true })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-3">
+                                {USER_ROLES.map((role) => (
+                                  <label key={role} className="flex items-center gap-1 text-xs">
+                                    <Checkbox
+                                      checked={transition.roles.includes(role)}
+                                      onCheckedChange={(checked) => toggleTransitionRole(index, role, checked === true)}
+                                    />
+                                    {USER_ROLE_LABELS[role]}
+                                  </label>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Remove transition"
+                                onClick={() => removeTransition(index)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Select value={newFromKey} onValueChange={setNewFromKey}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="From stage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draftStages
+                        .filter((stage) => stage.key)
+                        .map((stage) => (
+                          <SelectItem key={stage.key} value={stage.key}>
+                            {stage.label || stage.key}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={newToKey} onValueChange={setNewToKey}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="To stage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draftStages
+                        .filter((stage) => stage.key && stage.key !== newFromKey)
+                        .map((stage) => (
+                          <SelectItem key={stage.key} value={stage.key}>
+                            {stage.label || stage.key}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={addTransition}
+                    disabled={!newFromKey || !newToKey}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add transition
+                  </Button>
+                </div>
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              {message && <p className="text-sm text-muted-foreground">{message}</p>}
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="gap-1" onClick={addStage}>
+                  <Plus className="h-4 w-4" />
+                  Add stage
+                </Button>
+                <Button size="sm" className="gap-1" onClick={handleSave} disabled={saving}>
+                  <Save className="h-4 w-4" />
+                  {saving ? 'Saving...' : 'Save pipeline'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
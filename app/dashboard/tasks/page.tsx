@@ -33,9 +33,21 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { USER_ROLE_LABELS } from '@/lib/constants'
+import { TaskDetailsDialog, ChecklistItem } from '@/components/TaskDetailsDialog'
+import { TaskTemplatesDialog, TaskTemplate } from '@/components/TaskTemplatesDialog'
+import { BulkAssignDialog } from '@/components/BulkAssignDialog'
+import {
+  TASK_PRIORITIES,
+  TASK_PRIORITY_LABELS,
+  TASK_RECURRENCE_FREQUENCIES,
+  TASK_RECURRENCE_LABELS,
+  TaskPriority,
+  TaskRecurrenceFrequency,
+  USER_ROLE_LABELS,
+  WEEKDAY_LABELS,
+} from '@/lib/constants'
 import { cn } from '@/lib/utils'
-import { ClipboardList, CheckCircle2, ListTodo, CircleCheck, Plus, Trash2, Pencil, AlertTriangle } from 'lucide-react'
+import { ClipboardList, CheckCircle2, ListTodo, CircleCheck, Plus, Trash2, Pencil, AlertTriangle, Repeat, Pause, Play, MessageSquare, ListChecks, Users, FileText } from 'lucide-react'
 import {
   Pagination,
   PaginationContent,
@@ -49,6 +61,13 @@ interface User {
   id: string
   username: string
   role: string
+  // Resolved by /api/auth/session (own or org timezone)
+  timezone?: string
+}
+
+// YYYY-MM-DD of a moment in the given timezone
+function toZoneDateStr(d: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(d)
 }
 
 interface Task {
@@ -58,9 +77,54 @@ interface Task {
   dueAt: string
   completedAt: string | null
   status: 'undone' | 'done' | 'backlog'
+  backlogAt: string | null
+  escalationLevel: number
+  priority: TaskPriority
   createdAt: string
   assignedTo: { id: string; username: string; role: string }
   createdBy: { id: string; username: string }
+  completeLeadStatus: string | null
+  leads: { lead: { id: string; name: string; company: string | null; status: string } }[]
+  recurrence: { id: string; frequency: TaskRecurrenceFrequency } | null
+  checklist: ChecklistItem[]
+  _count: { comments: number }
+}
+
+const PRIORITY_CLASSES: Record<TaskPriority, string> = {
+  urgent: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  high: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  medium: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  low: 'bg-muted text-muted-foreground',
+}
+
+interface TaskRecurrence {
+  id: string
+  title: string
+  frequency: TaskRecurrenceFrequency
+  daysOfWeek: number[]
+  dayOfMonth: number | null
+  endsOn: string | null
+  nextOccurrenceAt: string | null
+  isActive: boolean
+  assignedTo: { id: string; username: string; role: string }
+  occurrences: number
+  completedOccurrences: number
+}
+
+interface BacklogReportRow {
+  user: { id: string; username: string; role: string }
+  totalTasks: number
+  backlogCount: number
+  escalatedCount: number
+  oldestDays: number
+  averageDays: number
+  everBacklogged: number
+}
+
+// Tasks moved to backlog before backlogAt was recorded count from their due date
+function backlogDays(task: Task): number {
+  const since = new Date(task.backlogAt ?? task.dueAt).getTime()
+  return Math.max(0, Math.floor((Date.now() - since) / (24 * 60 * 60 * 1000)))
 }
 
 interface PaginationState {
@@ -86,22 +150,37 @@ export default function TasksPage() {
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
   const [assignedToId, setAssignedToId] = useState('')
+  const [priority, setPriority] = useState<TaskPriority>('medium')
+  const [checklistText, setChecklistText] = useState('')
   const [createdDate, setCreatedDate] = useState('')
   const [dueDate, setDueDate] = useState('')
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState('')
+  // Repeat settings; the created date is the first day of the series
+  const [repeat, setRepeat] = useState<TaskRecurrenceFrequency | 'none'>('none')
+  const [repeatDays, setRepeatDays] = useState<number[]>([1])
+  const [repeatDayOfMonth, setRepeatDayOfMonth] = useState('1')
+  const [repeatEndsOn, setRepeatEndsOn] = useState('')
+  const [recurrences, setRecurrences] = useState<TaskRecurrence[]>([])
+  const [templates, setTemplates] = useState<TaskTemplate[]>([])
+  const [templatesOpen, setTemplatesOpen] = useState(false)
+  const [bulkAssignOpen, setBulkAssignOpen] = useState(false)
+  const [backlogReport, setBacklogReport] = useState<BacklogReportRow[]>([])
+
+  const displayTimeZone = user?.timezone ?? 'UTC'
 
   const getDefaultCreateDueDates = useCallback(() => {
     const now = new Date()
     const in24 = new Date(now.getTime() + 24 * 60 * 60 * 1000)
-    const toLocalDateStr = (d: Date) =>
-      `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
-    return { created: toLocalDateStr(now), due: toLocalDateStr(in24) }
-  }, [])
+    return { created: toZoneDateStr(now, displayTimeZone), due: toZoneDateStr(in24, displayTimeZone) }
+  }, [displayTimeZone])
 
   // Filters (used for both admin and non-admin)
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [userIdFilter, setUserIdFilter] = useState('all')
+  const [priorityFilter, setPriorityFilter] = useState('all')
+  const [sortBy, setSortBy] = useState<'due' | 'priority'>('due')
+  const [detailTask, setDetailTask] = useState<Task | null>(null)
   const [dueDateTo, setDueDateTo] = useState('')
   const [createdAtTo, setCreatedAtTo] = useState('')
   const [page, setPage] = useState(1)
@@ -113,6 +192,7 @@ export default function TasksPage() {
   const [editTitle, setEditTitle] = useState('')
   const [editDescription, setEditDescription] = useState('')
   const [editAssignedToId, setEditAssignedToId] = useState('')
+  const [editPriority, setEditPriority] = useState<TaskPriority>('medium')
   const [editCreatedDate, setEditCreatedDate] = useState('')
   const [editDueDate, setEditDueDate] = useState('')
   const [editSubmitting, setEditSubmitting] = useState(false)
@@ -141,9 +221,11 @@ export default function TasksPage() {
       if (userIdFilter && userIdFilter !== 'all') params.set('userId', userIdFilter)
       if (dueDateTo) params.set('dueDateTo', dueDateTo)
       if (createdAtTo) params.set('createdAtTo', createdAtTo)
+      if (priorityFilter !== 'all') params.set('priority', priorityFilter)
+      if (sortBy !== 'due') params.set('sort', sortBy)
       return params
     },
-    [statusFilter, userIdFilter, dueDateTo, createdAtTo]
+    [statusFilter, userIdFilter, dueDateTo, createdAtTo, priorityFilter, sortBy]
   )
 
   const fetchTasks = useCallback(
@@ -169,7 +251,7 @@ export default function TasksPage() {
   )
 
   const fetchUsers = useCallback(async () => {
-    if (!user || user.role !== 'admin') return
+    if (!user || (user.role !== 'admin' && user.role !== 'team_lead')) return
     try {
       const res = await fetch('/api/users')
       const data = await res.json()
@@ -188,17 +270,68 @@ export default function TasksPage() {
     checkSession()
   }, [checkSession])
 
+  const fetchRecurrences = useCallback(async () => {
+    if (!user || (user.role !== 'admin' && user.role !== 'team_lead')) return
+    try {
+      const res = await fetch('/api/task-recurrences')
+      const data = await res.json()
+      if (res.ok) setRecurrences(data.recurrences || [])
+    } catch (e) {
+      console.error(e)
+    }
+  }, [user])
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user || (user.role !== 'admin' && user.role !== 'team_lead')) return
+    try {
+      const res = await fetch('/api/task-templates')
+      const data = await res.json()
+      if (res.ok) setTemplates(data.templates || [])
+    } catch (e) {
+      console.error(e)
+    }
+  }, [user])
+
+  const fetchBacklogReport = useCallback(async () => {
+    if (!user || (user.role !== 'admin' && user.role !== 'team_lead')) return
+    try {
+      const res = await fetch('/api/tasks/backlog-report')
+      const data = await res.json()
+      if (res.ok) setBacklogReport(data.report || [])
+    } catch (e) {
+      console.error(e)
+    }
+  }, [user])
+
   useEffect(() => {
     if (user) {
       fetchUsers()
+      fetchRecurrences()
+      fetchTemplates()
+      fetchBacklogReport()
     }
-  }, [user, fetchUsers])
+  }, [user, fetchUsers, fetchRecurrences, fetchTemplates, fetchBacklogReport])
+
+  // Prefills the create form; the due date is the created date plus the template's offset, in whole days
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId)
+    if (!template) return
+    setTitle(template.title)
+    setDescription(template.description ?? '')
+    setPriority(template.priority)
+    setChecklistText(template.checklist.join('\n'))
+    if (createdDate) {
+      const due = new Date(`${createdDate}T00:00:00`)
+      due.setDate(due.getDate() + Math.max(1, Math.round(template.dueInHours / 24)))
+      setDueDate(`${due.getFullYear()}-${String(due.getMonth() + 1).padStart(2, '0')}-${String(due.getDate()).padStart(2, '0')}`)
+    }
+  }
 
   useEffect(() => {
     if (user) {
       fetchTasks(1)
     }
-  }, [user, statusFilter, userIdFilter, dueDateTo, createdAtTo, fetchTasks])
+  }, [user, statusFilter, userIdFilter, dueDateTo, createdAtTo, priorityFilter, sortBy, fetchTasks])
 
   const handleAddTask = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -213,19 +346,27 @@ export default function TasksPage() {
     }
     const defaults = getDefaultCreateDueDates()
     const usingDefaultDates = createdDate === defaults.created && dueDate === defaults.due
-    // Send current date + live current time (browser UTC) – never 05:30
-    const now = new Date()
-    const pad = (n: number) => String(n).padStart(2, '0')
-    const utcTime = `${pad(now.getUTCHours())}:${pad(now.getUTCMinutes())}:${pad(now.getUTCSeconds())}`
-    const dateWithCurrentTime = (dateStr: string) => `${dateStr}T${utcTime}.000Z`
     setSubmitting(true)
     try {
       const payload: Record<string, unknown> = {
         title: title.trim(),
         description: description.trim() || undefined,
         assignedToId,
-        createdAt: usingDefaultDates ? now.toISOString() : dateWithCurrentTime(createdDate),
-        dueAt: usingDefaultDates ? new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString() : dateWithCurrentTime(dueDate),
+        priority,
+        checklist: checklistText.split('\n').map((line) => line.trim()).filter(Boolean),
+        // Plain dates are days in the assignee's timezone at the current time; left out, the
+        // server makes the task due in 24 hours (past weekends and holidays if the org skips them)
+        createdAt: usingDefaultDates ? undefined : createdDate,
+        dueAt: usingDefaultDates ? undefined : dueDate,
+      }
+      if (repeat !== 'none') {
+        payload.recurrence = {
+          frequency: repeat,
+          daysOfWeek: repeat === 'weekly' ? repeatDays : [],
+          dayOfMonth: repeat === 'monthly' ? parseInt(repeatDayOfMonth, 10) || 1 : null,
+          startsOn: createdDate || undefined,
+          endsOn: repeatEndsOn || null,
+        }
       }
       const res = await fetch('/api/tasks', {
         method: 'POST',
@@ -241,11 +382,16 @@ export default function TasksPage() {
       setTitle('')
       setDescription('')
       setAssignedToId('')
+      setPriority('medium')
+      setChecklistText('')
       const { created, due } = getDefaultCreateDueDates()
       setCreatedDate(created)
       setDueDate(due)
+      setRepeat('none')
+      setRepeatEndsOn('')
       setAddTaskOpen(false)
       fetchTasks(page)
+      if (payload.recurrence) fetchRecurrences()
     } catch {
       setError('Something went wrong')
     } finally {
@@ -255,14 +401,26 @@ export default function TasksPage() {
 
   const handleToggleComplete = async (task: Task) => {
     if (task.status === 'done' || task.completedAt) return
+    // Linked leads move to the task's stage on completion unless the user opts out
+    const advanceLeads =
+      !!task.completeLeadStatus && task.leads.length > 0
+        ? confirm(`Also move ${task.leads.length === 1 ? task.leads[0].lead.name : `${task.leads.length} linked leads`} to "${task.completeLeadStatus.replace(/_/g, ' ')}"?`)
+        : false
     setCompletingId(task.id)
     try {
       const res = await fetch(`/api/tasks/${task.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ completed: true }),
+        body: JSON.stringify({ completed: true, advanceLeads }),
       })
-      if (res.ok) fetchTasks(page)
+      if (res.ok) {
+        const data = await res.json()
+        const skipped: { name: string; reason: string }[] = data.leads?.skipped ?? []
+        if (skipped.length > 0) {
+          alert(`Some leads were not moved:\n${skipped.map((l) => `${l.name}: ${l.reason}`).join('\n')}`)
+        }
+        fetchTasks(page)
+      }
     } catch {
       // ignore
     } finally {
@@ -270,6 +428,41 @@ export default function TasksPage() {
     }
   }
 
+  const handleToggleRecurrence = async (recurrence: TaskRecurrence) => {
+    try {
+      const res = await fetch(`/api/task-recurrences/${recurrence.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !recurrence.isActive }),
+      })
+      if (res.ok) {
+        fetchRecurrences()
+        fetchTasks(page)
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }
+
+  const handleStopRecurrence = async (recurrence: TaskRecurrence) => {
+    if (!confirm(`Stop "${recurrence.title}"? Tasks already created are kept.`)) return
+    try {
+      const res = await fetch(`/api/task-recurrences/${recurrence.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        fetchRecurrences()
+        fetchTasks(page)
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }
+
+  const describeRecurrence = (r: Pick<TaskRecurrence, 'frequency' | 'daysOfWeek' | 'dayOfMonth'>) => {
+    if (r.frequency === 'weekly') return `Weekly on ${r.daysOfWeek.map((d) => WEEKDAY_LABELS[d]).join(', ')}`
+    if (r.frequency === 'monthly') return `Monthly on day ${r.dayOfMonth}`
+    return TASK_RECURRENCE_LABELS[r.frequency]
+  }
+
   const openDeleteModal = (task: Task) => {
     setTaskToDelete(task)
     setDeleteError('')
@@ -300,8 +493,9 @@ export default function TasksPage() {
     setEditTitle(task.title)
     setEditDescription(task.description ?? '')
     setEditAssignedToId(task.assignedTo?.id ?? '')
-    setEditCreatedDate(new Date(task.createdAt).toISOString().slice(0, 10))
-    setEditDueDate(new Date(task.dueAt).toISOString().slice(0, 10))
+    setEditPriority(task.priority)
+    setEditCreatedDate(toZoneDateStr(new Date(task.createdAt), displayTimeZone))
+    setEditDueDate(toZoneDateStr(new Date(task.dueAt), displayTimeZone))
     setEditError('')
   }
 
@@ -317,11 +511,9 @@ export default function TasksPage() {
       setEditError('Due date must be on or after created date.')
       return
     }
-    const now = new Date()
-    const pad = (n: number) => String(n).padStart(2, '0')
-    const utcTime = `${pad(now.getUTCHours())}:${pad(now.getUTCMinutes())}:${pad(now.getUTCSeconds())}`
-    const dateWithCurrentTime = (dateStr: string) =>
-      dateStr ? `${dateStr}T${utcTime}.000Z` : undefined
+    // Only changed dates are sent, so an untouched date keeps its time of day
+    const changedDate = (dateStr: string, original: string) =>
+      dateStr && dateStr !== toZoneDateStr(new Date(original), displayTimeZone) ? dateStr : undefined
     setEditSubmitting(true)
     try {
       const res = await fetch(`/api/tasks/${editingTask.id}`, {
@@ -331,8 +523,9 @@ export default function TasksPage() {
           title: editTitle.trim(),
           description: editDescription.trim() || null,
           assignedToId: editAssignedToId || undefined,
-          createdAt: dateWithCurrentTime(editCreatedDate),
-          dueAt: dateWithCurrentTime(editDueDate),
+          priority: editPriority,
+          createdAt: changedDate(editCreatedDate, editingTask.createdAt),
+          dueAt: changedDate(editDueDate, editingTask.dueAt),
         }),
       })
       const data = await res.json()
@@ -350,12 +543,11 @@ export default function TasksPage() {
     }
   }
 
-  const DISPLAY_TIMEZONE = 'Asia/Kolkata'
   const formatDateTime = (dateStr: string) => {
     const d = new Date(dateStr)
     if (Number.isNaN(d.getTime())) return dateStr
     const formatter = new Intl.DateTimeFormat('en-CA', {
-      timeZone: DISPLAY_TIMEZONE,
+      timeZone: displayTimeZone,
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
@@ -380,6 +572,8 @@ export default function TasksPage() {
     setDueDateTo('')
     setCreatedAtTo('')
     setUserIdFilter('all')
+    setPriorityFilter('all')
+    setSortBy('due')
     setPage(1)
   }
 
@@ -391,7 +585,8 @@ export default function TasksPage() {
     )
   }
 
-  const isAdmin = user.role === 'admin'
+  // Admins manage all tasks, team leads those of their team (the API scopes the list)
+  const canManageTasks = user.role === 'admin' || user.role === 'team_lead'
   const assignableUsers = users
 
   return (
@@ -404,10 +599,22 @@ export default function TasksPage() {
         )}
       >
         <h1 className="text-xl font-semibold text-foreground">
-          {isAdmin ? 'Add Task' : 'MY TASK'}
+          {canManageTasks ? 'Add Task' : 'MY TASK'}
         </h1>
         <div className="flex items-center gap-2">
-          {isAdmin && (
+          {user.role === 'admin' && (
+            <Button onClick={() => setTemplatesOpen(true)} size="sm" variant="outline" className="gap-1">
+              <FileText className="h-4 w-4" />
+              Templates
+            </Button>
+          )}
+          {canManageTasks && templates.length > 0 && (
+            <Button onClick={() => setBulkAssignOpen(true)} size="sm" variant="outline" className="gap-1">
+              <Users className="h-4 w-4" />
+              Bulk assign
+            </Button>
+          )}
+          {canManageTasks && (
             <Button onClick={() => setAddTaskOpen(true)} size="sm" className="gap-1">
               <Plus className="h-4 w-4" />
               Create task
@@ -437,6 +644,23 @@ export default function TasksPage() {
             </DialogDescription>
           </DialogHeader>
           <form onSubmit={handleAddTask} className="space-y-4">
+            {templates.length > 0 && (
+              <div className="space-y-2">
+                <Label>From template (optional)</Label>
+                <Select value="" onValueChange={applyTemplate} disabled={submitting}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Start from a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="task-title">Title</Label>
               <Input
@@ -473,6 +697,34 @@ export default function TasksPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(v) => setPriority(v as TaskPriority)} disabled={submitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {TASK_PRIORITY_LABELS[p]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {repeat === 'none' && (
+              <div className="space-y-2">
+                <Label htmlFor="task-checklist">Checklist (optional, one item per line)</Label>
+                <textarea
+                  id="task-checklist"
+                  value={checklistText}
+                  onChange={(e) => setChecklistText(e.target.value)}
+                  rows={3}
+                  className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  disabled={submitting}
+                />
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="task-created">Created date</Label>
@@ -502,6 +754,78 @@ export default function TasksPage() {
                 />
               </div>
             </div>
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select
+                value={repeat}
+                onValueChange={(v) => setRepeat(v as TaskRecurrenceFrequency | 'none')}
+                disabled={submitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  {TASK_RECURRENCE_FREQUENCIES.map((f) => (
+                    <SelectItem key={f} value={f}>
+                      {TASK_RECURRENCE_LABELS[f]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {repeat !== 'none' && (
+                <p className="text-xs text-muted-foreground">
+                  A new task is created on each day from the created date, due 24 hours later.
+                </p>
+              )}
+            </div>
+            {repeat === 'weekly' && (
+              <div className="flex flex-wrap gap-3">
+                {Object.entries(WEEKDAY_LABELS).map(([day, label]) => (
+                  <label key={day} className="flex items-center gap-1 text-sm">
+                    <Checkbox
+                      checked={repeatDays.includes(Number(day))}
+                      onCheckedChange={(checked) =>
+                        setRepeatDays((days) =>
+                          checked ? [...days, Number(day)].sort() : days.filter((d) => d !== Number(day))
+                        )
+                      }
+                      disabled={submitting}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            )}
+            {repeat !== 'none' && (
+              <div className="grid grid-cols-2 gap-4">
+                {repeat === 'monthly' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="task-repeat-day">Day of month</Label>
+                    <Input
+                      id="task-repeat-day"
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={repeatDayOfMonth}
+                      onChange={(e) => setRepeatDayOfMonth(e.target.value)}
+                      disabled={submitting}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="task-repeat-ends">Ends on (optional)</Label>
+                  <Input
+                    id="task-repeat-ends"
+                    type="date"
+                    value={repeatEndsOn}
+                    min={createdDate}
+                    onChange={(e) => setRepeatEndsOn(e.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+              </div>
+            )}
             {error && <p className="text-sm text-destructive">{error}</p>}
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setAddTaskOpen(false)} disabled={submitting}>
@@ -561,6 +885,21 @@ export default function TasksPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={editPriority} onValueChange={(v) => setEditPriority(v as TaskPriority)} disabled={editSubmitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {TASK_PRIORITY_LABELS[p]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="edit-task-created">Created date</Label>
@@ -644,6 +983,28 @@ export default function TasksPage() {
         </DialogContent>
       </Dialog>
 
+      <TaskTemplatesDialog
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        templates={templates}
+        onChange={fetchTemplates}
+      />
+
+      <BulkAssignDialog
+        open={bulkAssignOpen}
+        onOpenChange={setBulkAssignOpen}
+        templates={templates}
+        users={assignableUsers}
+        onSuccess={() => fetchTasks(page)}
+      />
+
+      <TaskDetailsDialog
+        task={detailTask}
+        onOpenChange={(open) => !open && setDetailTask(null)}
+        onChange={() => fetchTasks(page)}
+        canManage={canManageTasks}
+      />
+
       <main className={cn('flex-1 overflow-auto p-4', sidebarOpen && 'md:pl-[calc(16rem+1rem)]')}>
         <div className="space-y-6">
           <Card>
@@ -651,12 +1012,12 @@ export default function TasksPage() {
               <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                 <div>
                   <CardTitle className="flex items-center gap-2">
-                    {isAdmin ? (
+                    {canManageTasks ? (
                       <ListTodo className="h-5 w-5" />
                     ) : (
                       <CheckCircle2 className="h-5 w-5" />
                     )}
-                    {isAdmin ? 'All tasks' : 'My tasks'}
+                    {canManageTasks ? 'All tasks' : 'My tasks'}
                   </CardTitle>
                 </div>
               </div>
@@ -675,7 +1036,35 @@ export default function TasksPage() {
                     </SelectContent>
                   </Select>
                 </div>
-                {isAdmin && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Priority</Label>
+                  <Select value={priorityFilter} onValueChange={(v) => { setPriorityFilter(v); setPage(1) }}>
+                    <SelectTrigger className="w-[130px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      {TASK_PRIORITIES.map((p) => (
+                        <SelectItem key={p} value={p}>
+                          {TASK_PRIORITY_LABELS[p]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Sort by</Label>
+                  <Select value={sortBy} onValueChange={(v) => { setSortBy(v as 'due' | 'priority'); setPage(1) }}>
+                    <SelectTrigger className="w-[130px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="due">Due date</SelectItem>
+                      <SelectItem value="priority">Priority</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {canManageTasks && (
                   <div className="space-y-1">
                     <Label className="text-xs">User</Label>
                     <Select value={userIdFilter} onValueChange={(v) => { setUserIdFilter(v); setPage(1) }}>
@@ -731,21 +1120,22 @@ export default function TasksPage() {
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          {!isAdmin && (
+                          {!canManageTasks && (
                             <TableHead className="w-10">Done</TableHead>
                           )}
                           <TableHead>Title</TableHead>
-                          {isAdmin && <TableHead>Assignee</TableHead>}
+                          <TableHead>Priority</TableHead>
+                          {canManageTasks && <TableHead>Assignee</TableHead>}
                           <TableHead>Due</TableHead>
                           <TableHead>Created</TableHead>
                           <TableHead>Status</TableHead>
-                          {isAdmin && <TableHead className="w-[100px]">Actions</TableHead>}
+                          {canManageTasks && <TableHead className="w-[100px]">Actions</TableHead>}
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {tasks.map((t) => (
                           <TableRow key={t.id}>
-                            {!isAdmin && (
+                            {!canManageTasks && (
                               <TableCell>
                                 <Checkbox
                                   checked={!!t.completedAt}
@@ -756,13 +1146,59 @@ export default function TasksPage() {
                             )}
                             <TableCell>
                               <div>
-                                <p className="font-medium">{t.title}</p>
+                                <button
+                                  type="button"
+                                  className="font-medium text-left hover:underline"
+                                  onClick={() => setDetailTask(t)}
+                                >
+                                  {t.title}
+                                </button>
                                 {t.description && (
                                   <p className="text-xs text-muted-foreground">{t.description}</p>
                                 )}
+                                {t.leads.length > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    {t.leads.length === 1 ? 'Lead' : 'Leads'}:{' '}
+                                    {t.leads
+                                      .map(({ lead }) => (lead.company ? `${lead.name} (${lead.company})` : lead.name))
+                                      .join(', ')}
+                                  </p>
+                                )}
+                                {t.recurrence && (
+                                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <Repeat className="h-3 w-3" />
+                                    {TASK_RECURRENCE_LABELS[t.recurrence.frequency]}
+                                  </p>
+                                )}
+                                {t.completeLeadStatus && t.leads.length > 0 && !t.completedAt && (
+                                  <p className="text-xs text-muted-foreground">
+                                    When done: move to {t.completeLeadStatus.replace(/_/g, ' ')}
+                                  </p>
+                                )}
+                                {(t.checklist.length > 0 || t._count.comments > 0) && (
+                                  <p className="flex items-center gap-3 text-xs text-muted-foreground">
+                                    {t.checklist.length > 0 && (
+                                      <span className="flex items-center gap-1">
+                                        <ListChecks className="h-3 w-3" />
+                                        {t.checklist.filter((item) => item.completedAt).length}/{t.checklist.length}
+                                      </span>
+                                    )}
+                                    {t._count.comments > 0 && (
+                                      <span className="flex items-center gap-1">
+                                        <MessageSquare className="h-3 w-3" />
+                                        {t._count.comments}
+                                      </span>
+                                    )}
+                                  </p>
+                                )}
                               </div>
                             </TableCell>
-                            {isAdmin && (
+                            <TableCell>
+                              <span className={cn('rounded px-2 py-0.5 text-xs font-medium', PRIORITY_CLASSES[t.priority])}>
+                                {TASK_PRIORITY_LABELS[t.priority]}
+                              </span>
+                            </TableCell>
+                            {canManageTasks && (
                               <TableCell>
                                 {t.assignedTo.username}
                                 <span className="ml-1 text-xs text-muted-foreground">
@@ -776,11 +1212,22 @@ export default function TasksPage() {
                               {(() => {
                                 const s = t.status ?? (t.completedAt ? 'done' : 'undone')
                                 if (s === 'done') return <span className="text-green-600 dark:text-green-400">Done</span>
-                                if (s === 'backlog') return <span className="text-amber-600 dark:text-amber-400">Backlog</span>
+                                if (s === 'backlog') {
+                                  const days = backlogDays(t)
+                                  return (
+                                    <span className="text-amber-600 dark:text-amber-400">
+                                      Backlog
+                                      <span className="block text-xs text-muted-foreground">
+                                        in backlog for {days} day{days === 1 ? '' : 's'}
+                                        {t.escalationLevel >= 2 && ' · escalated'}
+                                      </span>
+                                    </span>
+                                  )
+                                }
                                 return <span className="text-muted-foreground">Undone</span>
                               })()}
                             </TableCell>
-                            {isAdmin && (
+                            {canManageTasks && (
                               <TableCell>
                                 <div className="flex items-center gap-1">
                                   <Button
@@ -864,6 +1311,131 @@ export default function TasksPage() {
               )}
             </CardContent>
           </Card>
+
+          {canManageTasks && recurrences.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Recurring tasks
+                </CardTitle>
+                <CardDescription>
+                  Each occurrence is its own task above; completion is tracked per occurrence.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border border-border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Assignee</TableHead>
+                        <TableHead>Schedule</TableHead>
+                        <TableHead>Next</TableHead>
+                        <TableHead>Done</TableHead>
+                        <TableHead className="w-[100px]">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {recurrences.map((r) => (
+                        <TableRow key={r.id} className={cn(!r.isActive && 'opacity-60')}>
+                          <TableCell className="font-medium">{r.title}</TableCell>
+                          <TableCell>{r.assignedTo.username}</TableCell>
+                          <TableCell>
+                            {describeRecurrence(r)}
+                            {r.endsOn && (
+                              <span className="block text-xs text-muted-foreground">
+                                until {formatDateOnly(r.endsOn)}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {!r.isActive ? 'Paused' : r.nextOccurrenceAt ? formatDateOnly(r.nextOccurrenceAt) : 'Ended'}
+                          </TableCell>
+                          <TableCell>
+                            {r.completedOccurrences} / {r.occurrences}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => handleToggleRecurrence(r)}
+                                title={r.isActive ? 'Pause' : 'Resume'}
+                              >
+                                {r.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-destructive"
+                                onClick={() => handleStopRecurrence(r)}
+                                title="Stop repeating"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {canManageTasks && backlogReport.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  Backlog by user
+                </CardTitle>
+                <CardDescription>
+                  Current backlog and its age in business days per assignee; escalated tasks have passed their priority&apos;s threshold.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border border-border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>In backlog</TableHead>
+                        <TableHead>Escalated</TableHead>
+                        <TableHead>Oldest</TableHead>
+                        <TableHead>Average age</TableHead>
+                        <TableHead>Ever backlogged</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {backlogReport.map((row) => (
+                        <TableRow key={row.user.id}>
+                          <TableCell className="font-medium">
+                            {row.user.username}
+                            <span className="ml-1 text-xs text-muted-foreground">
+                              ({USER_ROLE_LABELS[row.user.role as keyof typeof USER_ROLE_LABELS] ?? row.user.role})
+                            </span>
+                          </TableCell>
+                          <TableCell>{row.backlogCount}</TableCell>
+                          <TableCell className={cn(row.escalatedCount > 0 && 'text-destructive')}>
+                            {row.escalatedCount}
+                          </TableCell>
+                          <TableCell>{row.backlogCount > 0 ? `${row.oldestDays}d` : '—'}</TableCell>
+                          <TableCell>{row.backlogCount > 0 ? `${row.averageDays}d` : '—'}</TableCell>
+                          <TableCell>
+                            {row.everBacklogged} / {row.totalTasks}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,927 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Sidebar } from '@/components/Sidebar'
+import { ThemeToggle } from '@/components/ThemeToggle'
+import { Spinner } from '@/components/ui/spinner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { USER_ROLES, USER_ROLE_LABELS, UserRole } from '@/lib/constants'
+import { cn } from '@/lib/utils'
+import { Users, Plus, KeyRound, MonitorSmartphone, UserX, UserCheck, LockOpen, ShieldAlert, ShieldOff, UsersRound, Trash2 } from 'lucide-react'
+
+interface SessionUser {
+  id: string
+  username: string
+  role: string
+}
+
+interface ManagedUser {
+  id: string
+  username: string
+  role: UserRole
+  isActive: boolean
+  deactivatedAt: string | null
+  lockedUntil: string | null
+  totpEnabled: boolean
+  twoFactorRequired: boolean
+  teamId: string | null
+  createdAt: string
+}
+
+interface Team {
+  id: string
+  name: string
+  members: { id: string; username: string; role: string }[]
+}
+
+interface LoginAttempt {
+  id: string
+  username: string
+  ipAddress: string | null
+  userAgent: string | null
+  reason: string | null
+  createdAt: string
+}
+
+interface TargetedUsername {
+  username: string
+  failedAttempts: number
+  lastAttemptAt: string
+}
+
+const LOGIN_FAILURE_LABELS: Record<string, string> = {
+  unknown_user: 'Unknown username',
+  invalid_password: 'Wrong password',
+  invalid_two_factor: 'Wrong 2FA code',
+  deactivated: 'Deactivated account',
+  locked: 'Account locked',
+  throttled: 'Too many attempts',
+}
+
+interface UserSession {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+}
+
+export default function UsersPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [actionError, setActionError] = useState('')
+  const [busyUserId, setBusyUserId] = useState<string | null>(null)
+
+  // Create user modal
+  const [addUserOpen, setAddUserOpen] = useState(false)
+  const [newUsername, setNewUsername] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [newRole, setNewRole] = useState<UserRole>('outreach')
+  const [newMustChangePassword, setNewMustChangePassword] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  // Reset password modal
+  const [resettingUser, setResettingUser] = useState<ManagedUser | null>(null)
+  const [resetPassword, setResetPassword] = useState('')
+  const [resetMustChangePassword, setResetMustChangePassword] = useState(true)
+  const [resetSubmitting, setResetSubmitting] = useState(false)
+  const [resetError, setResetError] = useState('')
+
+  // Teams
+  const [teams, setTeams] = useState<Team[]>([])
+  const [newTeamName, setNewTeamName] = useState('')
+  const [teamError, setTeamError] = useState('')
+
+  // Failed login audit
+  const [failedLogins, setFailedLogins] = useState<LoginAttempt[]>([])
+  const [targetedUsernames, setTargetedUsernames] = useState<TargetedUsername[]>([])
+
+  // Sessions modal
+  const [sessionsUser, setSessionsUser] = useState<ManagedUser | null>(null)
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [loadingSessions, setLoadingSessions] = useState(false)
+
+  const checkSession = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session')
+      const data = await res.json()
+      if (!res.ok || !data.user) {
+        router.push('/login')
+        return
+      }
+      if (data.user.role !== 'admin') {
+        router.push('/dashboard/tasks')
+        return
+      }
+      setUser(data.user)
+    } catch {
+      router.push('/login')
+    }
+  }, [router])
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true)
+      const res = await fetch('/api/users?includeInactive=true')
+      const data = await res.json()
+      if (res.ok) {
+        setUsers(data.users || [])
+      }
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchTeams = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teams')
+      const data = await res.json()
+      if (res.ok) {
+        setTeams(data.teams || [])
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }, [])
+
+  const fetchFailedLogins = useCallback(async () => {
+    try {
+      const res = await fetch('/api/login-attempts?limit=20')
+      const data = await res.json()
+      if (res.ok) {
+        setFailedLogins(data.attempts || [])
+        setTargetedUsernames(data.targeted || [])
+      }
+    } catch (e) {
+      console.error(e)
+    }
+  }, [])
+
+  useEffect(() => {
+    checkSession()
+  }, [checkSession])
+
+  useEffect(() => {
+    if (user) {
+      fetchUsers()
+      fetchTeams()
+      fetchFailedLogins()
+    }
+  }, [user, fetchUsers, fetchTeams, fetchFailedLogins])
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+      router.push('/login')
+      router.refresh()
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+  }
+
+  const handleAddUser = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          username: newUsername.trim(),
+          password: newPassword,
+          role: newRole,
+          mustChangePassword: newMustChangePassword,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to create user')
+        return
+      }
+      setNewUsername('')
+      setNewPassword('')
+      setNewRole('outreach')
+      setNewMustChangePassword(true)
+      setAddUserOpen(false)
+      fetchUsers()
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const runUserAction = async (target: ManagedUser, url: string, init: RequestInit) => {
+    setActionError('')
+    setBusyUserId(target.id)
+    try {
+      const res = await fetch(url, init)
+      const data = await res.json()
+      if (!res.ok) {
+        setActionError(data.error || 'Action failed')
+        return
+      }
+      fetchUsers()
+      fetchTeams()
+    } catch {
+      setActionError('Action failed')
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const handleRoleChange = (target: ManagedUser, role: string) => {
+    if (role === target.role) return
+    runUserAction(target, `/api/users/${target.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    })
+  }
+
+  const handleTeamChange = (target: ManagedUser, teamId: string) => {
+    runUserAction(target, `/api/users/${target.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ teamId: teamId === 'none' ? null : teamId }),
+    })
+  }
+
+  const handleAddTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setTeamError('')
+    try {
+      const res = await fetch('/api/teams', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newTeamName }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setTeamError(data.details?.[0]?.message || data.error || 'Failed to create team')
+        return
+      }
+      setNewTeamName('')
+      fetchTeams()
+    } catch {
+      setTeamError('Something went wrong')
+    }
+  }
+
+  const handleDeleteTeam = async (team: Team) => {
+    if (!confirm(`Delete team ${team.name}? Its members will be left without a team.`)) return
+    setTeamError('')
+    try {
+      const res = await fetch(`/api/teams/${team.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        setTeamError(data.error || 'Failed to delete team')
+        return
+      }
+      fetchTeams()
+      fetchUsers()
+    } catch {
+      setTeamError('Something went wrong')
+    }
+  }
+
+  const handleTwoFactorRequiredChange = (target: ManagedUser, twoFactorRequired: boolean) => {
+    runUserAction(target, `/api/users/${target.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ twoFactorRequired }),
+    })
+  }
+
+  const handleResetTwoFactor = (target: ManagedUser) => {
+    if (!confirm(`Reset two-factor authentication for ${target.username}? They will be logged out and can enroll a new device.`)) return
+    runUserAction(target, `/api/users/${target.id}/reset-2fa`, { method: 'POST' })
+  }
+
+  const handleToggleActive = (target: ManagedUser) => {
+    if (target.isActive && !confirm(`Deactivate ${target.username}? They will be logged out and unable to sign in.`)) return
+    runUserAction(target, `/api/users/${target.id}/${target.isActive ? 'deactivate' : 'reactivate'}`, {
+      method: 'POST',
+    })
+  }
+
+  const handleUnlock = (target: ManagedUser) => {
+    runUserAction(target, `/api/users/${target.id}/unlock`, { method: 'POST' })
+  }
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!resettingUser) return
+    setResetError('')
+    setResetSubmitting(true)
+    try {
+      const res = await fetch(`/api/users/${resettingUser.id}/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: resetPassword, mustChangePassword: resetMustChangePassword }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setResetError(data.details?.[0]?.message || data.error || 'Failed to reset password')
+        return
+      }
+      setResettingUser(null)
+      setResetPassword('')
+      setResetMustChangePassword(true)
+    } catch {
+      setResetError('Something went wrong')
+    } finally {
+      setResetSubmitting(false)
+    }
+  }
+
+  const fetchSessions = useCallback(async (target: ManagedUser) => {
+    try {
+      setLoadingSessions(true)
+      const res = await fetch(`/api/users/${target.id}/sessions`)
+      const data = await res.json()
+      if (res.ok) {
+        setSessions(data.sessions || [])
+      }
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setLoadingSessions(false)
+    }
+  }, [])
+
+  const openSessionsModal = (target: ManagedUser) => {
+    setSessionsUser(target)
+    setSessions([])
+    fetchSessions(target)
+  }
+
+  const handleRevokeSession = async (sessionId: string) => {
+    if (!sessionsUser) return
+    await fetch(`/api/users/${sessionsUser.id}/sessions/${sessionId}`, { method: 'DELETE' })
+    fetchSessions(sessionsUser)
+  }
+
+  const handleRevokeAllSessions = async () => {
+    if (!sessionsUser) return
+    await fetch(`/api/users/${sessionsUser.id}/sessions`, { method: 'DELETE' })
+    fetchSessions(sessionsUser)
+  }
+
+  const formatDateTime = (dateStr: string | null) => {
+    if (!dateStr) return '-'
+    return new Date(dateStr).toLocaleString()
+  }
+
+  const isLocked = (u: ManagedUser) => !!u.lockedUntil && new Date(u.lockedUntil) > new Date()
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Sidebar user={user} onLogout={handleLogout} isOpen={sidebarOpen} onToggle={setSidebarOpen} />
+      <header
+        className={cn(
+          'flex items-center justify-between border-b border-border bg-card py-3 shrink-0 transition-all duration-300',
+          sidebarOpen ? 'px-6' : 'pl-20 pr-6'
+        )}
+      >
+        <h1 className="text-xl font-semibold text-foreground">Users</h1>
+        <div className="flex items-center gap-2">
+          <Button onClick={() => setAddUserOpen(true)} size="sm" className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add user
+          </Button>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {/* Create user modal */}
+      <Dialog open={addUserOpen} onOpenChange={setAddUserOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add user</DialogTitle>
+            <DialogDescription>
+              Create an account for a new team member. Share the initial password with them directly.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAddUser} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="user-username">Username</Label>
+              <Input
+                id="user-username"
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value)}
+                placeholder="Username"
+                required
+                disabled={submitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-password">Initial password</Label>
+              <Input
+                id="user-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="Password"
+                required
+                disabled={submitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={newRole} onValueChange={(v) => setNewRole(v as UserRole)} disabled={submitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {USER_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="user-must-change"
+                checked={newMustChangePassword}
+                onCheckedChange={(checked) => setNewMustChangePassword(checked === true)}
+                disabled={submitting}
+              />
+              <Label htmlFor="user-must-change" className="font-normal">
+                Require password change at first login
+              </Label>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setAddUserOpen(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? 'Adding...' : 'Add user'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset password modal */}
+      <Dialog
+        open={!!resettingUser}
+        onOpenChange={(open) => {
+          if (!open) {
+            setResettingUser(null)
+            setResetPassword('')
+            setResetError('')
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {resettingUser?.username}. They will be logged out of all devices.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleResetPassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">New password</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(e.target.value)}
+                required
+                disabled={resetSubmitting}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="reset-must-change"
+                checked={resetMustChangePassword}
+                onCheckedChange={(checked) => setResetMustChangePassword(checked === true)}
+                disabled={resetSubmitting}
+              />
+              <Label htmlFor="reset-must-change" className="font-normal">
+                Require password change at next login
+              </Label>
+            </div>
+            {resetError && <p className="text-sm text-destructive">{resetError}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setResettingUser(null)} disabled={resetSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={resetSubmitting}>
+                {resetSubmitting ? 'Saving...' : 'Reset password'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Active sessions modal */}
+      <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Active sessions – {sessionsUser?.username}</DialogTitle>
+            <DialogDescription>
+              Devices currently signed in to this account.
+            </DialogDescription>
+          </DialogHeader>
+          {loadingSessions ? (
+            <div className="flex justify-center py-6">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">No active sessions.</p>
+          ) : (
+            <div className="rounded-md border border-border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Device</TableHead>
+                    <TableHead>IP</TableHead>
+                    <TableHead>Signed in</TableHead>
+                    <TableHead>Last seen</TableHead>
+                    <TableHead className="w-[90px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((s) => (
+                    <TableRow key={s.id}>
+                      <TableCell className="max-w-[220px] truncate text-xs" title={s.userAgent ?? ''}>
+                        {s.userAgent || 'Unknown'}
+                      </TableCell>
+                      <TableCell className="text-xs">{s.ipAddress || '-'}</TableCell>
+                      <TableCell className="text-xs">{formatDateTime(s.createdAt)}</TableCell>
+                      <TableCell className="text-xs">{formatDateTime(s.lastSeenAt)}</TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => handleRevokeSession(s.id)}>
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={handleRevokeAllSessions}
+              disabled={loadingSessions || sessions.length === 0}
+            >
+              Log out all devices
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <main className={cn('flex-1 overflow-auto p-4', sidebarOpen && 'md:pl-[calc(16rem+1rem)]')}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              All users
+            </CardTitle>
+            {actionError && <p className="text-sm text-destructive">{actionError}</p>}
+          </CardHeader>
+          <CardContent>
+            {loading && users.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Spinner className="h-8 w-8" />
+              </div>
+            ) : users.length === 0 ? (
+              <p className="text-muted-foreground text-sm py-6">No users found.</p>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Username</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>2FA</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="w-[170px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((u) => {
+                      const isSelf = u.id === user.id
+                      const busy = busyUserId === u.id
+                      return (
+                        <TableRow key={u.id} className={cn(!u.isActive && 'opacity-60')}>
+                          <TableCell className="font-medium">
+                            {u.username}
+                            {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={u.role}
+                              onValueChange={(v) => handleRoleChange(u, v)}
+                              disabled={isSelf || busy}
+                            >
+                              <SelectTrigger className="w-[130px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {USER_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {USER_ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={u.teamId ?? 'none'}
+                              onValueChange={(v) => handleTeamChange(u, v)}
+                              disabled={busy}
+                            >
+                              <SelectTrigger className="w-[140px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No team</SelectItem>
+                                {teams.map((team) => (
+                                  <SelectItem key={team.id} value={team.id}>
+                                    {team.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {isLocked(u) ? (
+                              <span className="text-amber-600 dark:text-amber-400">
+                                Locked until {formatDateTime(u.lockedUntil)}
+                              </span>
+                            ) : u.isActive ? (
+                              <span className="text-green-600 dark:text-green-400">Active</span>
+                            ) : (
+                              <span className="text-muted-foreground">
+                                Deactivated {u.deactivatedAt ? new Date(u.deactivatedAt).toLocaleDateString() : ''}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              <span className={cn(u.totpEnabled ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground')}>
+                                {u.totpEnabled ? 'Enabled' : 'Off'}
+                              </span>
+                              <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                                <Checkbox
+                                  checked={u.twoFactorRequired}
+                                  onCheckedChange={(checked) => handleTwoFactorRequiredChange(u, checked === true)}
+                                  disabled={busy}
+                                />
+                                Required
+                              </label>
+                            </div>
+                          </TableCell>
+                          <TableCell>{new Date(u.createdAt).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setResettingUser(u)}
+                                title="Reset password"
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => openSessionsModal(u)}
+                                title="Active sessions"
+                              >
+                                <MonitorSmartphone className="h-4 w-4" />
+                              </Button>
+                              {u.totpEnabled && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => handleResetTwoFactor(u)}
+                                  disabled={busy}
+                                  title="Reset two-factor authentication"
+                                >
+                                  <ShieldOff className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {isLocked(u) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => handleUnlock(u)}
+                                  disabled={busy}
+                                  title="Unlock account"
+                                >
+                                  <LockOpen className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {!isSelf && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className={cn(
+                                    'h-8 w-8',
+                                    u.isActive && 'text-destructive hover:text-destructive hover:bg-destructive/10'
+                                  )}
+                                  onClick={() => handleToggleActive(u)}
+                                  disabled={busy}
+                                  title={u.isActive ? 'Deactivate user' : 'Reactivate user'}
+                                >
+                                  {u.isActive ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UsersRound className="h-5 w-5" />
+              Teams
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleAddTeam} className="flex items-center gap-2 max-w-md">
+              <Input
+                placeholder="New team name"
+                value={newTeamName}
+                onChange={(e) => setNewTeamName(e.target.value)}
+                required
+              />
+              <Button type="submit">
+                <Plus className="h-4 w-4 mr-1" />
+                Add team
+              </Button>
+            </form>
+            {teamError && <p className="text-sm text-destructive">{teamError}</p>}
+            {teams.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No teams yet. Team leads see and manage the leads and tasks of their team&apos;s members.
+              </p>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Members</TableHead>
+                      <TableHead className="w-[60px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {teams.map((team) => (
+                      <TableRow key={team.id}>
+                        <TableCell className="font-medium">{team.name}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {team.members.length === 0
+                            ? '-'
+                            : team.members
+                                .map((m) => (m.role === 'team_lead' ? `${m.username} (lead)` : m.username))
+                                .join(', ')}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDeleteTeam(team)}
+                            title="Delete team"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Failed logins
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {targetedUsernames.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {targetedUsernames.map((t) => (
+                  <span
+                    key={t.username}
+                    className="text-xs px-2 py-1 rounded bg-secondary text-secondary-foreground"
+                    title={`Last attempt ${formatDateTime(t.lastAttemptAt)}`}
+                  >
+                    {t.username}: {t.failedAttempts} in 7 days
+                  </span>
+                ))}
+              </div>
+            )}
+            {failedLogins.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No failed logins recorded.</p>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Username</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>IP</TableHead>
+                      <TableHead>Device</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {failedLogins.map((a) => (
+                      <TableRow key={a.id}>
+                        <TableCell className="text-xs">{formatDateTime(a.createdAt)}</TableCell>
+                        <TableCell className="font-medium">{a.username}</TableCell>
+                        <TableCell className="text-xs">
+                          {a.reason ? LOGIN_FAILURE_LABELS[a.reason] ?? a.reason : '-'}
+                        </TableCell>
+                        <TableCell className="text-xs">{a.ipAddress || '-'}</TableCell>
+                        <TableCell className="max-w-[220px] truncate text-xs" title={a.userAgent ?? ''}>
+                          {a.userAgent || '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -11,9 +11,22 @@ export default function LoginPage() {
   const router = useRouter()
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [code, setCode] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
 
+  const redirectAfterLogin = (data: { mustChangePassword?: boolean; mustEnrollTwoFactor?: boolean }) => {
+    if (data.mustChangePassword) {
+      router.push('/dashboard/account?required=1')
+    } else if (data.mustEnrollTwoFactor) {
+      router.push('/dashboard/account?setup2fa=1')
+    } else {
+      router.push('/dashboard/tasks')
+    }
+    router.refresh()
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -36,8 +49,47 @@ export default function LoginPage() {
         return
       }
 
-      router.push('/dashboard/tasks')
-      router.refresh()
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken)
+        setLoading(false)
+        return
+      }
+
+      redirectAfterLogin(data)
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+      setLoading(false)
+    }
+  }
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        // An expired challenge means starting over from the password step
+        if (response.status === 401 && data.expired) {
+          setChallengeToken(null)
+          setCode('')
+        }
+        setError(data.error || 'Verification failed')
+        setLoading(false)
+        return
+      }
+
+      redirectAfterLogin(data)
     } catch (err) {
       setError('An error occurred. Please try again.')
       setLoading(false)
@@ -50,10 +102,52 @@ export default function LoginPage() {
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold text-center">Linke Lead CRM</CardTitle>
           <CardDescription className="text-center">
-            Sign in to your account
+            {challengeToken
+              ? 'Enter the code from your authenticator app or a recovery code'
+              : 'Sign in to your account'}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {challengeToken ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication code</Label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  disabled={loading}
+                />
+              </div>
+              {error && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+                  {error}
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  setChallengeToken(null)
+                  setCode('')
+                  setError('')
+                }}
+                disabled={loading}
+              >
+                Back
+              </Button>
+            </form>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="username">Username</Label>
@@ -88,6 +182,7 @@ export default function LoginPage() {
               {loading ? 'Signing in...' : 'Sign in'}
             </Button>
           </form>
+          )}
         </CardContent>
       </Card>
     </div>
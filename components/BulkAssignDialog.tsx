@@ -0,0 +1,215 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { USER_ROLES, USER_ROLE_LABELS } from '@/lib/constants'
+import type { TaskTemplate } from '@/components/TaskTemplatesDialog'
+
+interface User {
+  id: string
+  username: string
+  role: string
+}
+
+interface BulkAssignResult {
+  userId: string
+  username: string | null
+  status: 'created' | 'failed'
+  error?: string
+}
+
+interface BulkAssignDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  templates: TaskTemplate[]
+  users: User[]
+  onSuccess: () => void
+}
+
+export function BulkAssignDialog({ open, onOpenChange, templates, users, onSuccess }: BulkAssignDialogProps) {
+  const [templateId, setTemplateId] = useState('')
+  const [mode, setMode] = useState<'users' | 'role'>('users')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [role, setRole] = useState('outreach')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [results, setResults] = useState<BulkAssignResult[] | null>(null)
+
+  const reset = () => {
+    setTemplateId('')
+    setMode('users')
+    setSelectedIds(new Set())
+    setError('')
+    setResults(null)
+  }
+
+  const toggleUser = (id: string) => {
+    setSelectedIds((ids) => {
+      const next = new Set(ids)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleAssign = async () => {
+    setError('')
+    if (!templateId) {
+      setError('Choose a template.')
+      return
+    }
+    if (mode === 'users' && selectedIds.size === 0) {
+      setError('Choose at least one user.')
+      return
+    }
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/tasks/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          mode === 'users' ? { templateId, userIds: Array.from(selectedIds) } : { templateId, role }
+        ),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to assign tasks')
+        return
+      }
+      setResults(data.results || [])
+      if (data.created > 0) onSuccess()
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) reset()
+        onOpenChange(value)
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Bulk assign</DialogTitle>
+          <DialogDescription>
+            Give each chosen user their own task from a template.
+          </DialogDescription>
+        </DialogHeader>
+        {results ? (
+          <div className="max-h-[50vh] overflow-y-auto space-y-1">
+            {results.length === 0 && (
+              <p className="text-sm text-muted-foreground">No users matched.</p>
+            )}
+            {results.map((result) => (
+              <div key={result.userId} className="flex justify-between text-sm">
+                <span>{result.username ?? result.userId}</span>
+                {result.status === 'created' ? (
+                  <span className="text-green-600 dark:text-green-400">Created</span>
+                ) : (
+                  <span className="text-destructive">{result.error}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select value={templateId} onValueChange={setTemplateId} disabled={submitting}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Assign to</Label>
+              <Select value={mode} onValueChange={(v) => setMode(v as 'users' | 'role')} disabled={submitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="users">Chosen users</SelectItem>
+                  <SelectItem value="role">Everyone with a role</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {mode === 'users' ? (
+              <div className="max-h-48 overflow-y-auto space-y-2 rounded-md border border-border p-3">
+                {users.map((u) => (
+                  <label key={u.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedIds.has(u.id)}
+                      onCheckedChange={() => toggleUser(u.id)}
+                      disabled={submitting}
+                    />
+                    {u.username}
+                    <span className="text-xs text-muted-foreground">
+                      ({USER_ROLE_LABELS[u.role as keyof typeof USER_ROLE_LABELS] ?? u.role})
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <Select value={role} onValueChange={setRole} disabled={submitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {USER_ROLE_LABELS[r]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => { reset(); onOpenChange(false) }}>Done</Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => { reset(); onOpenChange(false) }} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleAssign} disabled={submitting}>
+                {submitting ? 'Assigning...' : 'Assign'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
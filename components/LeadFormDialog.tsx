@@ -19,7 +19,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { LEAD_STATUS_LABELS, LEAD_STATUSES, SYSTEMS, SYSTEM_LABELS } from '@/lib/constants'
+import { SYSTEMS, SYSTEM_LABELS } from '@/lib/constants'
 
 interface LeadFormData {
   name: string
@@ -40,6 +40,11 @@ interface User {
   role: string
 }
 
+interface StageOption {
+  key: string
+  label: string
+}
+
 interface LeadFormDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -47,6 +52,8 @@ interface LeadFormDialogProps {
   leadId?: string
   initialData?: Partial<LeadFormData>
   isAdmin?: boolean
+  // Stages of the lead's pipeline (the default pipeline for new leads)
+  stages: StageOption[]
 }
 
 export function LeadFormDialog({
@@ -56,7 +63,10 @@ export function LeadFormDialog({
   leadId,
   initialData,
   isAdmin = false,
+  stages,
 }: LeadFormDialogProps) {
+  const initialStatus = stages[0]?.key ?? ''
+
   const [formData, setFormData] = useState<LeadFormData>({
     name: '',
     email: '',
@@ -64,7 +74,7 @@ export function LeadFormDialog({
     profileUrl: '',
     postUrl: '',
     website: '',
-    status: 'new',
+    status: initialStatus,
     system: 'linkedin_one',
     notes: '',
     assignedToId: null,
@@ -92,7 +102,7 @@ export function LeadFormDialog({
           profileUrl: initialData.profileUrl || '',
           postUrl: initialData.postUrl || '',
           website: initialData.website || '',
-          status: initialData.status || 'new',
+          status: initialData.status || initialStatus,
           system: initialData.system || 'linkedin_one',
           notes: initialData.notes || '',
           assignedToId: initialData.assignedToId || null,
@@ -106,14 +116,14 @@ export function LeadFormDialog({
           profileUrl: '',
           postUrl: '',
           website: '',
-          status: 'new',
+          status: initialStatus,
           system: 'linkedin_one',
           notes: '',
           assignedToId: null,
         })
       }
     }
-  }, [initialData, leadId, open])
+  }, [initialData, leadId, open, initialStatus])
 
   const fetchOutreachUsers = async () => {
     try {
@@ -264,9 +274,9 @@ export function LeadFormDialog({
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {LEAD_STATUSES.map((status) => (
-                      <SelectItem key={status} value={status}>
-                        {LEAD_STATUS_LABELS[status as keyof typeof LEAD_STATUS_LABELS]}
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>
+                        {stage.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { cn } from '@/lib/utils'
+
+interface Notification {
+  id: string
+  type: string
+  title: string
+  body: string | null
+  taskId: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+// Refreshes every few minutes; notifications come from the backlog cron, so nothing is more urgent than that
+const POLL_INTERVAL_MS = 5 * 60 * 1000
+
+export function NotificationsBell() {
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const res = await fetch('/api/notifications')
+      if (!res.ok) return
+      const data = await res.json()
+      setNotifications(data.notifications || [])
+      setUnreadCount(data.unreadCount || 0)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const res = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      })
+      if (res.ok) fetchNotifications()
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) markRead([notification.id])
+    if (notification.taskId) router.push('/dashboard/tasks')
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-4 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => markRead()}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications.</p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={cn(
+                  'block w-full border-b border-border px-4 py-2 text-left last:border-b-0 hover:bg-accent',
+                  !notification.readAt && 'bg-secondary/50'
+                )}
+              >
+                <p className={cn('text-sm', !notification.readAt && 'font-medium')}>{notification.title}</p>
+                {notification.body && (
+                  <p className="text-xs text-muted-foreground">{notification.body}</p>
+                )}
+                <p className="mt-0.5 text-xs text-muted-foreground">
+                  {new Date(notification.createdAt).toLocaleString()}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
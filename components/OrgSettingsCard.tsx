@@ -0,0 +1,163 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Spinner } from '@/components/ui/spinner'
+import { TimeZoneSelect } from '@/components/TimeZoneSelect'
+import { WEEKDAY_LABELS } from '@/lib/constants'
+import { Building2 } from 'lucide-react'
+
+interface OrgSettings {
+  timezone: string
+  workingDays: number[]
+  holidays: string[]
+  skipNonWorkingDays: boolean
+  followUpBusinessDays: boolean
+}
+
+export function OrgSettingsCard() {
+  const [settings, setSettings] = useState<OrgSettings | null>(null)
+  const [holidaysText, setHolidaysText] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState(false)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const res = await fetch('/api/settings')
+        const data = await res.json()
+        if (res.ok) {
+          setSettings(data.settings)
+          setHolidaysText(data.settings.holidays.join('\n'))
+        }
+      } catch (e) {
+        console.error(e)
+      }
+    }
+    fetchSettings()
+  }, [])
+
+  const toggleDay = (day: number) => {
+    if (!settings) return
+    setSettings({
+      ...settings,
+      workingDays: settings.workingDays.includes(day)
+        ? settings.workingDays.filter((d) => d !== day)
+        : [...settings.workingDays, day],
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!settings) return
+    setError('')
+    setSuccess(false)
+    setSaving(true)
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          timezone: settings.timezone,
+          workingDays: settings.workingDays,
+          holidays: holidaysText.split('\n').map((line) => line.trim()).filter(Boolean),
+          skipNonWorkingDays: settings.skipNonWorkingDays,
+          followUpBusinessDays: settings.followUpBusinessDays,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to save settings')
+        return
+      }
+      setSettings(data.settings)
+      setHolidaysText(data.settings.holidays.join('\n'))
+      setSuccess(true)
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-md mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Organization settings
+        </CardTitle>
+        <CardDescription>
+          Default timezone for day boundaries and reports, and the working calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!settings ? (
+          <Spinner className="h-5 w-5" />
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <TimeZoneSelect
+                value={settings.timezone}
+                onValueChange={(timezone) => setSettings({ ...settings, timezone })}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Working days</Label>
+              <div className="flex flex-wrap gap-3">
+                {[1, 2, 3, 4, 5, 6, 7].map((day) => (
+                  <label key={day} className="flex items-center gap-1 text-sm">
+                    <Checkbox
+                      checked={settings.workingDays.includes(day)}
+                      onCheckedChange={() => toggleDay(day)}
+                      disabled={saving}
+                    />
+                    {WEEKDAY_LABELS[day]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="org-holidays">Holidays (one YYYY-MM-DD date per line)</Label>
+              <textarea
+                id="org-holidays"
+                value={holidaysText}
+                onChange={(e) => setHolidaysText(e.target.value)}
+                rows={4}
+                className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                disabled={saving}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={settings.skipNonWorkingDays}
+                onCheckedChange={(checked) => setSettings({ ...settings, skipNonWorkingDays: checked === true })}
+                disabled={saving}
+              />
+              Push default due dates past weekends and holidays
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={settings.followUpBusinessDays}
+                onCheckedChange={(checked) => setSettings({ ...settings, followUpBusinessDays: checked === true })}
+                disabled={saving}
+              />
+              Count follow-up timers (texted, first follow-up, replied) in business days
+            </label>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            {success && <p className="text-sm text-green-600 dark:text-green-400">Settings saved.</p>}
+            <Button type="submit" className="w-full" disabled={saving}>
+              {saving ? 'Saving...' : 'Save settings'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
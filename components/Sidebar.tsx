@@ -2,9 +2,10 @@
 
 import { useState } from 'react'
 import { useRouter, usePathname } from 'next/navigation'
-import { LayoutDashboard, BarChart3, LogOut, X, Menu, ClipboardList } from 'lucide-react'
+import { LayoutDashboard, BarChart3, LogOut, X, Menu, ClipboardList, MonitorOff, Users, KeyRound, ScrollText, Workflow, Zap, Copy } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
+import { NotificationsBell } from '@/components/NotificationsBell'
 
 interface SidebarProps {
   user: {
@@ -32,7 +33,19 @@ export function Sidebar({ user, onLogout, isOpen: controlledIsOpen, onToggle }:
     }
   }
 
-  const tasksLabel = user?.role === 'admin' ? 'Add Task' : 'MY TASK'
+  const handleLogoutAll = async () => {
+    if (!confirm('Log out of all devices, including this one?')) return
+
+    try {
+      await fetch('/api/auth/logout-all', { method: 'POST' })
+      router.push('/login')
+      router.refresh()
+    } catch (error) {
+      console.error('Logout all error:', error)
+    }
+  }
+
+  const tasksLabel = user?.role === 'admin' || user?.role === 'team_lead' ? 'Add Task' : 'MY TASK'
   const menuItems = [
     {
       label: tasksLabel,
@@ -52,6 +65,46 @@ export function Sidebar({ user, onLogout, isOpen: controlledIsOpen, onToggle }:
       path: '/dashboard',
       active: pathname === '/dashboard',
     },
+    ...(user?.role === 'admin'
+      ? [
+          {
+            label: 'Users',
+            icon: Users,
+            path: '/dashboard/users',
+            active: pathname === '/dashboard/users',
+          },
+          {
+            label: 'Pipelines',
+            icon: Workflow,
+            path: '/dashboard/pipelines',
+            active: pathname === '/dashboard/pipelines',
+          },
+          {
+            label: 'Automation',
+            icon: Zap,
+            path: '/dashboard/automation',
+            active: pathname === '/dashboard/automation',
+          },
+          {
+            label: 'Duplicates',
+            icon: Copy,
+            path: '/dashboard/duplicates',
+            active: pathname === '/dashboard/duplicates',
+          },
+          {
+            label: 'Audit Log',
+            icon: ScrollText,
+            path: '/dashboard/audit',
+            active: pathname === '/dashboard/audit',
+          },
+        ]
+      : []),
+    {
+      label: 'Account',
+      icon: KeyRound,
+      path: '/dashboard/account',
+      active: pathname === '/dashboard/account',
+    },
   ]
 
   return (
@@ -88,14 +141,17 @@ export function Sidebar({ user, onLogout, isOpen: controlledIsOpen, onToggle }:
               </p>
             )}
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-8 w-8"
-            onClick={() => setIsOpen(false)}
-          >
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            {user && <NotificationsBell />}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setIsOpen(false)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Navigation */}
@@ -120,7 +176,15 @@ export function Sidebar({ user, onLogout, isOpen: controlledIsOpen, onToggle }:
         </nav>
 
         {/* Footer */}
-        <div className="p-4 border-t border-border">
+        <div className="p-4 border-t border-border space-y-1">
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-muted-foreground"
+            onClick={handleLogoutAll}
+          >
+            <MonitorOff className="mr-2 h-5 w-5" />
+            Log out all devices
+          </Button>
           <Button
             variant="ghost"
             className="w-full justify-start text-destructive hover:text-destructive hover:bg-destructive/10"
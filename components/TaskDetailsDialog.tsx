@@ -0,0 +1,298 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Spinner } from '@/components/ui/spinner'
+import { TASK_PRIORITY_LABELS, TaskPriority } from '@/lib/constants'
+import { Trash2, MessageSquare, Reply, X } from 'lucide-react'
+
+export interface ChecklistItem {
+  id: string
+  text: string
+  position: number
+  completedAt: string | null
+  completedBy: { id: string; username: string } | null
+}
+
+interface TaskComment {
+  id: string
+  parentId: string | null
+  body: string
+  createdAt: string
+  author: { id: string; username: string; role: string }
+}
+
+interface TaskDetailsDialogProps {
+  task: {
+    id: string
+    title: string
+    description: string | null
+    priority: TaskPriority
+    completedAt: string | null
+    checklist: ChecklistItem[]
+  } | null
+  onOpenChange: (open: boolean) => void
+  // Called after the checklist changes, so the task list can refresh its progress
+  onChange: () => void
+  canManage: boolean
+}
+
+export function TaskDetailsDialog({ task, onOpenChange, onChange, canManage }: TaskDetailsDialogProps) {
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([])
+  const [newItem, setNewItem] = useState('')
+  const [comments, setComments] = useState<TaskComment[]>([])
+  const [loadingComments, setLoadingComments] = useState(false)
+  const [commentBody, setCommentBody] = useState('')
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null)
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchComments = useCallback(async (taskId: string) => {
+    try {
+      setLoadingComments(true)
+      const res = await fetch(`/api/tasks/${taskId}/comments`)
+      const data = await res.json()
+      if (res.ok) setComments(data.comments || [])
+    } catch (e) {
+      console.error(e)
+    } finally {
+      setLoadingComments(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (task) {
+      setChecklist(task.checklist)
+      setNewItem('')
+      setCommentBody('')
+      setReplyTo(null)
+      setError('')
+      fetchComments(task.id)
+    }
+  }, [task, fetchComments])
+
+  if (!task) return null
+
+  const handleToggleItem = async (item: ChecklistItem) => {
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/checklist/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completed: !item.completedAt }),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setChecklist((items) => items.map((i) => (i.id === item.id ? data.item : i)))
+        onChange()
+      } else {
+        setError(data.error || 'Failed to update item')
+      }
+    } catch {
+      setError('Failed to update item')
+    }
+  }
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newItem.trim()) return
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/checklist`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: newItem.trim() }),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setChecklist((items) => [...items, data.item])
+        setNewItem('')
+        onChange()
+      } else {
+        setError(data.error || 'Failed to add item')
+      }
+    } catch {
+      setError('Failed to add item')
+    }
+  }
+
+  const handleDeleteItem = async (item: ChecklistItem) => {
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/checklist/${item.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        setChecklist((items) => items.filter((i) => i.id !== item.id))
+        onChange()
+      } else {
+        const data = await res.json()
+        setError(data.error || 'Failed to delete item')
+      }
+    } catch {
+      setError('Failed to delete item')
+    }
+  }
+
+  const handleSendComment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!commentBody.trim()) return
+    setSending(true)
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: commentBody.trim(), parentId: replyTo?.id }),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setComments((list) => [...list, data.comment])
+        setCommentBody('')
+        setReplyTo(null)
+        onChange()
+      } else {
+        setError(data.error || 'Failed to add comment')
+      }
+    } catch {
+      setError('Failed to add comment')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const done = checklist.filter((item) => item.completedAt).length
+  const threads = comments.filter((c) => !c.parentId)
+  const repliesTo = (comment: TaskComment) => comments.filter((c) => c.parentId === comment.id)
+
+  const renderComment = (comment: TaskComment) => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.author.username}</span>
+        <span>{new Date(comment.createdAt).toLocaleString()}</span>
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{comment.body}</p>
+    </div>
+  )
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{task.title}</DialogTitle>
+          <DialogDescription>
+            {TASK_PRIORITY_LABELS[task.priority]} priority
+            {task.description && ` · ${task.description}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[65vh] overflow-y-auto space-y-6">
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">
+              Checklist{checklist.length > 0 && ` (${done}/${checklist.length})`}
+            </h3>
+            {checklist.length === 0 && (
+              <p className="text-sm text-muted-foreground">No checklist items.</p>
+            )}
+            {checklist.map((item) => (
+              <div key={item.id} className="flex items-center gap-2">
+                <Checkbox
+                  checked={!!item.completedAt}
+                  onCheckedChange={() => handleToggleItem(item)}
+                  disabled={!!task.completedAt}
+                />
+                <span className={item.completedAt ? 'flex-1 text-sm line-through text-muted-foreground' : 'flex-1 text-sm'}>
+                  {item.text}
+                  {item.completedBy && (
+                    <span className="ml-1 text-xs no-underline">({item.completedBy.username})</span>
+                  )}
+                </span>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive"
+                    onClick={() => handleDeleteItem(item)}
+                    title="Remove item"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {canManage && (
+              <form onSubmit={handleAddItem} className="flex gap-2">
+                <Input
+                  value={newItem}
+                  onChange={(e) => setNewItem(e.target.value)}
+                  placeholder="Add an item"
+                />
+                <Button type="submit" variant="outline" disabled={!newItem.trim()}>
+                  Add
+                </Button>
+              </form>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="flex items-center gap-1 text-sm font-semibold">
+              <MessageSquare className="h-4 w-4" />
+              Comments
+            </h3>
+            {loadingComments && comments.length === 0 ? (
+              <Spinner className="h-5 w-5" />
+            ) : threads.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No comments yet.</p>
+            ) : (
+              threads.map((comment) => (
+                <div key={comment.id} className="rounded-md border border-border p-3 space-y-2">
+                  {renderComment(comment)}
+                  {repliesTo(comment).map((reply) => (
+                    <div key={reply.id} className="ml-4 border-l-2 border-border pl-3">
+                      {renderComment(reply)}
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 px-2 text-xs"
+                    onClick={() => setReplyTo(comment)}
+                  >
+                    <Reply className="h-3 w-3" />
+                    Reply
+                  </Button>
+                </div>
+              ))
+            )}
+            <form onSubmit={handleSendComment} className="space-y-2">
+              {replyTo && (
+                <div className="flex items-center justify-between rounded-md bg-muted px-2 py-1 text-xs">
+                  <span>Replying to {replyTo.author.username}</span>
+                  <button type="button" onClick={() => setReplyTo(null)} title="Cancel reply">
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+              <textarea
+                value={commentBody}
+                onChange={(e) => setCommentBody(e.target.value)}
+                placeholder="Write a comment"
+                rows={3}
+                className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                disabled={sending}
+              />
+              <div className="flex justify-end">
+                <Button type="submit" size="sm" disabled={sending || !commentBody.trim()}>
+                  {sending ? 'Sending...' : 'Comment'}
+                </Button>
+              </div>
+            </form>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
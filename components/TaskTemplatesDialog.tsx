@@ -0,0 +1,263 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TASK_PRIORITIES, TASK_PRIORITY_LABELS, TaskPriority } from '@/lib/constants'
+import { Pencil, Trash2 } from 'lucide-react'
+
+export interface TaskTemplate {
+  id: string
+  name: string
+  title: string
+  description: string | null
+  priority: TaskPriority
+  dueInHours: number
+  checklist: string[]
+  _count?: { tasks: number }
+}
+
+interface TaskTemplatesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  templates: TaskTemplate[]
+  onChange: () => void
+}
+
+const EMPTY_FORM = {
+  name: '',
+  title: '',
+  description: '',
+  priority: 'medium' as TaskPriority,
+  dueInHours: '24',
+  checklist: '',
+}
+
+export function TaskTemplatesDialog({ open, onOpenChange, templates, onChange }: TaskTemplatesDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setError('')
+  }
+
+  const handleEdit = (template: TaskTemplate) => {
+    setEditingId(template.id)
+    setForm({
+      name: template.name,
+      title: template.title,
+      description: template.description ?? '',
+      priority: template.priority,
+      dueInHours: String(template.dueInHours),
+      checklist: template.checklist.join('\n'),
+    })
+    setError('')
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSaving(true)
+    try {
+      const res = await fetch(editingId ? `/api/task-templates/${editingId}` : '/api/task-templates', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          title: form.title.trim(),
+          description: form.description.trim() || null,
+          priority: form.priority,
+          dueInHours: parseInt(form.dueInHours, 10) || 24,
+          checklist: form.checklist.split('\n').map((line) => line.trim()).filter(Boolean),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to save template')
+        return
+      }
+      resetForm()
+      onChange()
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Tasks created from it are kept.`)) return
+    try {
+      const res = await fetch(`/api/task-templates/${template.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        if (editingId === template.id) resetForm()
+        onChange()
+      } else {
+        const data = await res.json()
+        setError(data.error || 'Failed to delete template')
+      }
+    } catch {
+      setError('Failed to delete template')
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) resetForm()
+        onOpenChange(value)
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Task templates</DialogTitle>
+          <DialogDescription>
+            Reusable tasks for bulk assignment and the create dialog.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[65vh] overflow-y-auto space-y-6">
+          <div className="space-y-2">
+            {templates.length === 0 && (
+              <p className="text-sm text-muted-foreground">No templates yet.</p>
+            )}
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between rounded-md border border-border px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium">{template.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {template.title} · {TASK_PRIORITY_LABELS[template.priority]} · due in {template.dueInHours}h
+                    {template.checklist.length > 0 && ` · ${template.checklist.length} checklist items`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(template)} title="Edit template">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleDelete(template)}
+                    title="Delete template"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <h3 className="text-sm font-semibold">{editingId ? 'Edit template' : 'New template'}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Daily connections"
+                  required
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-title">Task title</Label>
+                <Input
+                  id="template-title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  required
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-desc">Description (optional)</Label>
+              <Input
+                id="template-desc"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select
+                  value={form.priority}
+                  onValueChange={(v) => setForm({ ...form, priority: v as TaskPriority })}
+                  disabled={saving}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_PRIORITIES.map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {TASK_PRIORITY_LABELS[p]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-due">Due after (hours)</Label>
+                <Input
+                  id="template-due"
+                  type="number"
+                  min={1}
+                  value={form.dueInHours}
+                  onChange={(e) => setForm({ ...form, dueInHours: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-checklist">Checklist (one item per line)</Label>
+              <textarea
+                id="template-checklist"
+                value={form.checklist}
+                onChange={(e) => setForm({ ...form, checklist: e.target.value })}
+                rows={3}
+                className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                disabled={saving}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                  Cancel edit
+                </Button>
+              )}
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : editingId ? 'Save template' : 'Add template'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+// IANA zones known to the browser; UTC is not always in the list
+const TIME_ZONES = Array.from(
+  new Set(['UTC', ...(typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [])])
+)
+
+// Sentinel for "no zone of my own"; Select items can't have an empty value
+export const ORG_DEFAULT_ZONE = 'org-default'
+
+interface TimeZoneSelectProps {
+  value: string
+  onValueChange: (value: string) => void
+  disabled?: boolean
+  // Label of the extra "use the org timezone" option; omitted for the org setting itself
+  orgDefaultLabel?: string
+}
+
+export function TimeZoneSelect({ value, onValueChange, disabled, orgDefaultLabel }: TimeZoneSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select timezone" />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {orgDefaultLabel && <SelectItem value={ORG_DEFAULT_ZONE}>{orgDefaultLabel}</SelectItem>}
+        {TIME_ZONES.map((zone) => (
+          <SelectItem key={zone} value={zone}>
+            {zone.replace(/_/g, ' ')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
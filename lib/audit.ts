@@ -0,0 +1,100 @@
+import { prisma } from './prisma'
+
+/**
+ * Generic audit trail for every write (leads, tasks, users, teams, pipelines, automation rules).
+ * StatusHistory stays the lead-facing timeline; AuditEvent is the admin record of who changed what.
+ */
+
+export type AuditEntityType = 'lead' | 'task' | 'user' | 'team' | 'pipeline' | 'automation_rule' | 'task_recurrence' | 'task_template' | 'org_settings'
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+// Secrets never end up in the audit trail, only the fact that they changed
+const REDACTED_FIELDS = new Set(['password', 'totpSecret', 'totpRecoveryCodes'])
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt'])
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  return value ?? null
+}
+
+// Relations (nested objects / arrays of objects) are left out; only the record's own fields are diffed
+function isScalar(value: unknown): boolean {
+  if (value === null || value === undefined || value instanceof Date) return true
+  if (Array.isArray(value)) return value.every((item) => typeof item !== 'object' || item === null)
+  return typeof value !== 'object'
+}
+
+/**
+ * Field-level diff between two versions of a record. Pass null as `before` for creates
+ * and null as `after` for deletes to capture the whole record.
+ */
+export function diffChanges(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): AuditChanges {
+  const changes: AuditChanges = {}
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue
+    const from = before?.[key]
+    const to = after?.[key]
+    if (!isScalar(from) || !isScalar(to)) continue
+    // For updates only fields present on both sides are compared (selects may differ)
+    if (before && after && (!(key in before) || !(key in after))) continue
+
+    const normalizedFrom = normalizeValue(from)
+    const normalizedTo = normalizeValue(to)
+    if (JSON.stringify(normalizedFrom) === JSON.stringify(normalizedTo)) continue
+
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { from: '[redacted]', to: '[redacted]' }
+      : { from: normalizedFrom, to: normalizedTo }
+  }
+
+  return changes
+}
+
+/**
+ * Records one audit event. Either pass before/after to have the diff computed,
+ * or explicit changes. Updates that changed nothing (and have no summary) are skipped.
+ * Failures are logged rather than thrown so the audited write itself still succeeds.
+ */
+export async function recordAuditEvent(params: {
+  actorId: string | null
+  entityType: AuditEntityType
+  entityId: string
+  action: string
+  before?: Record<string, any> | null
+  after?: Record<string, any> | null
+  changes?: AuditChanges
+  summary?: string
+}): Promise<void> {
+  try {
+    const changes =
+      params.changes ??
+      (params.before !== undefined || params.after !== undefined
+        ? diffChanges(params.before ?? null, params.after ?? null)
+        : {})
+
+    if (params.action === 'update' && Object.keys(changes).length === 0 && !params.summary) {
+      return
+    }
+
+    await prisma.auditEvent.create({
+      data: {
+        actorId: params.actorId,
+        entityType: params.entityType,
+        entityId: params.entityId,
+        action: params.action,
+        changes: Object.keys(changes).length > 0 ? (changes as any) : undefined,
+        summary: params.summary ?? null,
+      },
+    })
+  } catch (error) {
+    console.error('[Audit] Failed to record audit event:', error)
+  }
+}
@@ -1,7 +1,8 @@
 import bcrypt from 'bcryptjs'
 import { prisma } from './prisma'
+import { ROLE_PERMISSIONS, Permission, PermissionScope } from './constants'
 
-export type UserRole = 'admin' | 'lead_gen' | 'outreach'
+export type UserRole = 'admin' | 'team_lead' | 'lead_gen' | 'outreach'
 
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10)
@@ -15,6 +16,7 @@ export interface SessionUser {
   id: string
   username: string
   role: UserRole
+  teamId?: string | null
 }
 
 export function requireRole(user: SessionUser | null, allowedRoles: UserRole[]): void {
@@ -26,3 +28,85 @@ export function requireRole(user: SessionUser | null, allowedRoles: UserRole[]):
   }
 }
 
+// Anything with an owner a scoped permission can be checked against (leads, tasks).
+// Team scopes also need the assignee's team, so load assignedTo.teamId for those checks.
+export interface PermissionTarget {
+  assignedToId: string | null
+  assignedTo?: { teamId: string | null } | null
+}
+
+export function getPermissionScope(user: SessionUser | null, permission: Permission): PermissionScope | null {
+  if (!user) {
+    return null
+  }
+  return ROLE_PERMISSIONS[user.role]?.[permission] ?? null
+}
+
+/**
+ * Whether the user holds a permission, e.g. can(session, 'lead.changeStatus', lead).
+ * Without a target only the grant itself is checked; with one the scope must also cover it.
+ */
+export function can(user: SessionUser | null, permission: Permission, target?: PermissionTarget): boolean {
+  const scope = getPermissionScope(user, permission)
+  if (!user || !scope) {
+    return false
+  }
+  if (!target || scope === 'all') {
+    return true
+  }
+
+  const isOwn = target.assignedToId === user.id
+  const isUnassigned = !target.assignedToId
+  const isTeam = isOwn || (!!user.teamId && target.assignedTo?.teamId === user.teamId)
+  if (scope === 'own') return isOwn
+  if (scope === 'unassigned') return isUnassigned
+  if (scope === 'team') return isTeam
+  if (scope === 'teamOrUnassigned') return isTeam || isUnassigned
+  return isOwn || isUnassigned
+}
+
+export function requirePermission(user: SessionUser | null, permission: Permission, target?: PermissionTarget): void {
+  if (!user) {
+    throw new Error('Unauthorized')
+  }
+  if (!can(user, permission, target)) {
+    throw new Error('Forbidden')
+  }
+}
+
+// Target for handing a record to a user, e.g. can(session, 'lead.assign', await getAssignmentTarget(newAssigneeId))
+export async function getAssignmentTarget(userId: string | null): Promise<PermissionTarget> {
+  if (!userId) {
+    return { assignedToId: null }
+  }
+  const assignee = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { teamId: true },
+  })
+  return { assignedToId: userId, assignedTo: { teamId: assignee?.teamId ?? null } }
+}
+
+/**
+ * Prisma where clause matching the records a scoped permission reaches.
+ * Returns {} for 'all' and null when the permission is not granted at all.
+ */
+export function getScopeWhere(user: SessionUser, permission: Permission): Record<string, unknown> | null {
+  const scope = getPermissionScope(user, permission)
+  if (!scope) return null
+  if (scope === 'all') return {}
+  if (scope === 'own') return { assignedToId: user.id }
+  if (scope === 'unassigned') return { assignedToId: null }
+
+  // A team lead without a team only reaches their own records
+  const teamWhere = user.teamId
+    ? { OR: [{ assignedToId: user.id }, { assignedTo: { teamId: user.teamId } }] }
+    : { assignedToId: user.id }
+  if (scope === 'team') return teamWhere
+  if (scope === 'teamOrUnassigned') return { OR: [{ assignedToId: null }, teamWhere] }
+  return { OR: [{ assignedToId: null }, { assignedToId: user.id }] }
+}
+
+// First hop of x-forwarded-for (set by Vercel/proxies), falling back to x-real-ip
+export function getClientIp(headers: Headers): string | null {
+  return headers.get('x-forwarded-for')?.split(',')[0]?.trim() || headers.get('x-real-ip')
+}
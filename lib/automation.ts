@@ -1,69 +1,628 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from './prisma'
+import { recordAuditEvent } from './audit'
+import { getStageEnteredWhere, recordStageEntry } from './pipelines'
+import { getSystemUserId } from './system-user'
+import { FOLLOW_UP_FILTERS, FOLLOW_UP_TASKS, FollowUpFilter, generateFollowUpTasks, getFollowUpLeadWhere } from './follow-up-tasks'
+import { WorkingCalendar, getFollowUpCalendar, getThresholdCutoff, getWorkingCalendar } from './working-calendar'
+import { AutomationAction, AutomationRuleField, System } from './constants'
 
 /**
- * Automatically transitions leads from second_followup to junk after 4 days
- * This is called by a cron job at /api/cron/automation (configured in vercel.json)
- * The cron runs daily at midnight (0 0 * * *)
+ * Rule engine for pipeline automation. Admins define rules on the Automation page
+ * ("leads in stage X whose timer is older than N days, or N business days, optionally for one
+ * system: move them to stage Z / create a task / reassign them"). They're stored in AutomationRule and evaluated
+ * by the cron job at /api/cron/automation (configured in vercel.json, daily at midnight).
+ * Each cron hit is an AutomationRun (one at a time, see startAutomationRun) and every
+ * evaluation of a rule within it an AutomationRuleRun. Each lead is handled in its own transaction.
  */
-export async function runAutomationRules() {
-  try {
-    const fourDaysAgo = new Date(Date.now() - 4 * 24 * 60 * 60 * 1000)
 
-    // Get admin user once (for status history tracking)
-    const adminUser = await prisma.user.findFirst({
-      where: { role: 'admin' },
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Rule list/detail responses
+export const AUTOMATION_RULE_INCLUDE = {
+  pipeline: { select: { id: true, name: true } },
+  assignTo: { select: { id: true, username: true } },
+  createdBy: { select: { id: true, username: true } },
+  // Latest run, for the rules table
+  runs: {
+    orderBy: { startedAt: 'desc' as const },
+    take: 1,
+  },
+  _count: { select: { applications: true } },
+}
+
+export interface AutomationRuleRecord {
+  id: string
+  name: string
+  pipelineId: string | null
+  status: string
+  field: string
+  olderThanDays: number
+  businessDays: boolean
+  system: System | null
+  action: AutomationAction
+  toStatus: string | null
+  taskTitle: string | null
+  taskDescription: string | null
+  taskDueDays: number
+  assignToId: string | null
+}
+
+interface MatchedLead {
+  id: string
+  name: string
+  company: string | null
+  status: string
+  assignedToId: string | null
+}
+
+export interface AutomationRuleResult {
+  ruleId: string
+  name: string
+  action: AutomationAction
+  matched: number
+  applied: number
+  skipped: number
+  failed: number
+  error?: string
+}
+
+/**
+ * Checks the stages and user a rule points at. Returns an error message, or null when the rule
+ * can run. Without a pipeline the stages must exist together in at least one pipeline.
+ */
+export async function validateRuleReferences(rule: {
+  pipelineId?: string | null
+  status: string
+  action: AutomationAction
+  toStatus?: string | null
+  assignToId?: string | null
+}): Promise<string | null> {
+  const stageKeys = [rule.status, ...(rule.action === 'move_status' && rule.toStatus ? [rule.toStatus] : [])]
+  const pipelineCount = await prisma.pipeline.count({
+    where: {
+      ...(rule.pipelineId ? { id: rule.pipelineId } : {}),
+      AND: stageKeys.map((key) => ({ stages: { some: { key } } })),
+    },
+  })
+  if (pipelineCount === 0) {
+    return rule.pipelineId
+      ? 'The stages must belong to the selected pipeline'
+      : 'No pipeline has these stages'
+  }
+
+  if (rule.assignToId) {
+    const assignee = await prisma.user.findFirst({
+      where: { id: rule.assignToId, isActive: true },
       select: { id: true },
     })
+    if (!assignee) {
+      return 'Assignee not found or deactivated'
+    }
+  }
+
+  return null
+}
+
+// Where clause for the leads a rule currently applies to. Business-day rules count olderThanDays on the working calendar.
+export function getRuleLeadWhere(rule: AutomationRuleRecord, calendar: WorkingCalendar, now: Date = new Date()): any {
+  const cutoff = getThresholdCutoff(rule.olderThanDays, rule.businessDays ? calendar : null, now)
+  const where: any = {
+    status: rule.status,
+    // Each rule acts on a lead only once
+    automationApplications: { none: { ruleId: rule.id } },
+  }
+
+  if (rule.pipelineId) where.pipelineId = rule.pipelineId
+  if (rule.system) where.system = rule.system
+
+  switch (rule.field as AutomationRuleField) {
+    case 'created':
+      where.createdAt = { lte: cutoff }
+      break
+    case 'updated':
+      where.updatedAt = { lte: cutoff }
+      break
+    default:
+      Object.assign(where, getStageEnteredWhere(rule.status, { lte: cutoff }))
+  }
+
+  if (rule.action === 'move_status') {
+    // Only pipelines that have the target stage
+    where.pipeline = { stages: { some: { key: rule.toStatus } } }
+  } else if (rule.action === 'reassign') {
+    where.OR = [{ assignedToId: null }, { assignedToId: { not: rule.assignToId } }]
+  } else if (rule.action === 'create_task' && !rule.assignToId) {
+    // Tasks go to the lead's assignee; unassigned leads are picked up once someone claims them
+    where.assignedToId = { not: null }
+  }
+
+  return where
+}
+
+type AuditParams = Parameters<typeof recordAuditEvent>[0]
+
+// Thrown inside a lead's transaction when the lead no longer matches, to roll it back
+class LeadChangedError extends Error {}
+
+/**
+ * Action handlers apply a rule to one lead inside the caller's transaction and return the
+ * audit event to record once it has committed. Moves and reassignments only update the lead
+ * if it's still in the state it was matched in.
+ */
+type ActionHandler = (
+  tx: Prisma.TransactionClient,
+  rule: AutomationRuleRecord,
+  lead: MatchedLead,
+  actorId: string
+) => Promise<AuditParams>
 
-    if (!adminUser) {
-      console.warn('[Automation] No admin user found, skipping automation')
-      return { transitioned: 0, error: 'No admin user found' }
+const moveLeadStatus: ActionHandler = async (tx, rule, lead, actorId) => {
+  const toStatus = rule.toStatus as string
+  const reason = `Automated: ${rule.name}`
+
+  const updated = await tx.lead.updateMany({
+    where: { id: lead.id, status: lead.status },
+    data: {
+      status: toStatus,
+    },
+  })
+  if (updated.count === 0) {
+    throw new LeadChangedError()
+  }
+
+  await tx.statusHistory.create({
+    data: {
+      leadId: lead.id,
+      userId: actorId,
+      oldStatus: lead.status,
+      newStatus: toStatus,
+      reason,
+    },
+  })
+  await recordStageEntry(lead.id, toStatus, new Date(), tx)
+
+  return {
+    actorId,
+    entityType: 'lead',
+    entityId: lead.id,
+    action: 'status_change',
+    changes: { status: { from: lead.status, to: toStatus } },
+    summary: reason,
+  }
+}
+
+const createLeadTask: ActionHandler = async (tx, rule, lead, actorId) => {
+  const now = new Date()
+
+  const task = await tx.task.create({
+    data: {
+      title: rule.taskTitle as string,
+      description: rule.taskDescription,
+      assignedToId: (rule.assignToId ?? lead.assignedToId) as string,
+      createdById: actorId,
+      createdAt: now,
+      dueAt: new Date(now.getTime() + rule.taskDueDays * DAY_MS),
+      status: 'undone',
+      leads: { create: { leadId: lead.id } },
+    },
+  })
+
+  return {
+    actorId,
+    entityType: 'task',
+    entityId: task.id,
+    action: 'create',
+    before: null,
+    after: task,
+    summary: `Automated: ${rule.name}`,
+  }
+}
+
+const reassignLead: ActionHandler = async (tx, rule, lead, actorId) => {
+  const updated = await tx.lead.updateMany({
+    where: { id: lead.id, assignedToId: lead.assignedToId },
+    data: {
+      assignedToId: rule.assignToId,
+    },
+  })
+  if (updated.count === 0) {
+    throw new LeadChangedError()
+  }
+
+  return {
+    actorId,
+    entityType: 'lead',
+    entityId: lead.id,
+    action: 'assign',
+    changes: { assignedToId: { from: lead.assignedToId, to: rule.assignToId } },
+    summary: `Automated: ${rule.name}`,
+  }
+}
+
+const ACTION_HANDLERS: Record<AutomationAction, ActionHandler> = {
+  move_status: moveLeadStatus,
+  create_task: createLeadTask,
+  reassign: reassignLead,
+}
+
+/**
+ * Applies a rule to one lead in a single transaction together with its AutomationRuleApplication.
+ * The application is written first, so a lead already handled by this rule (e.g. by an overlapping
+ * run) fails on its unique key and nothing is changed. Returns false when the lead was skipped.
+ */
+async function applyRuleToLead(rule: AutomationRuleRecord, lead: MatchedLead, actorId: string): Promise<boolean> {
+  let audit: AuditParams
+  try {
+    audit = await prisma.$transaction(async (tx) => {
+      await tx.automationRuleApplication.create({
+        data: { ruleId: rule.id, leadId: lead.id },
+      })
+      return ACTION_HANDLERS[rule.action](tx, rule, lead, actorId)
+    })
+  } catch (error: any) {
+    if (error instanceof LeadChangedError || error.code === 'P2002') {
+      return false
     }
+    throw error
+  }
 
-    // Find leads in second_followup status where secondFollowupAt is more than 4 days ago
-    const leadsToTransition = await prisma.lead.findMany({
-      where: {
-        status: 'second_followup',
-        secondFollowupAt: {
-          not: null,
-          lte: fourDaysAgo,
-        },
-      },
+  await recordAuditEvent(audit)
+  return true
+}
+
+// Evaluates one rule and records the run. A lead that fails is counted and the rule carries on.
+async function runRule(
+  rule: AutomationRuleRecord,
+  actorId: string,
+  now: Date,
+  runId: string,
+  calendar: WorkingCalendar
+): Promise<AutomationRuleResult> {
+  const ruleRun = await prisma.automationRuleRun.create({
+    data: { ruleId: rule.id, runId, startedAt: now },
+  })
+  const result: AutomationRuleResult = {
+    ruleId: rule.id,
+    name: rule.name,
+    action: rule.action,
+    matched: 0,
+    applied: 0,
+    skipped: 0,
+    failed: 0,
+  }
+
+  try {
+    const leads: MatchedLead[] = await prisma.lead.findMany({
+      where: getRuleLeadWhere(rule, calendar, now),
       select: {
         id: true,
+        name: true,
+        company: true,
+        status: true,
+        assignedToId: true,
       },
     })
+    result.matched = leads.length
+
+    for (const lead of leads) {
+      try {
+        if (await applyRuleToLead(rule, lead, actorId)) {
+          result.applied++
+        } else {
+          result.skipped++
+        }
+      } catch (error) {
+        console.error(`[Automation] Rule "${rule.name}" failed for lead ${lead.id}:`, error)
+        result.failed++
+        result.error = error instanceof Error ? error.message : 'Rule failed'
+      }
+    }
+  } catch (error) {
+    console.error(`[Automation] Rule "${rule.name}" failed:`, error)
+    result.error = error instanceof Error ? error.message : 'Rule failed'
+  }
+
+  await prisma.automationRuleRun.update({
+    where: { id: ruleRun.id },
+    data: {
+      finishedAt: new Date(),
+      matched: result.matched,
+      applied: result.applied,
+      skipped: result.skipped,
+      failed: result.failed,
+      error: result.error ?? null,
+    },
+  })
+  await prisma.automationRule.update({
+    where: { id: rule.id },
+    data: { lastRunAt: now },
+  })
+
+  return result
+}
+
+const RUN_LOCK_KEY = 'automation'
+// A run still holding the lock after this long is assumed to have crashed
+const RUN_LOCK_TIMEOUT_MS = 30 * 60 * 1000
+
+// Starts an AutomationRun holding the lock, or returns null while another run is in progress
+async function startAutomationRun(): Promise<string | null> {
+  await prisma.automationRun.updateMany({
+    where: { lockKey: RUN_LOCK_KEY, startedAt: { lt: new Date(Date.now() - RUN_LOCK_TIMEOUT_MS) } },
+    data: { lockKey: null, status: 'failed', finishedAt: new Date(), error: 'Timed out without finishing' },
+  })
+
+  try {
+    const run = await prisma.automationRun.create({
+      data: { lockKey: RUN_LOCK_KEY, status: 'running' },
+    })
+    return run.id
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return null
+    }
+    throw error
+  }
+}
+
+export interface AutomationRunSummary {
+  runId: string | null
+  // True when another run held the lock and nothing was done
+  skipped?: boolean
+  transitioned: number
+  tasksCreated: number
+  reassigned: number
+  followUpTasks: number
+  failed: number
+  rules: AutomationRuleResult[]
+  error?: string
+}
+
+/**
+ * Runs every active rule in creation order, then creates the follow-up tasks for leads past the
+ * follow-up thresholds (lib/follow-up-tasks.ts), as one AutomationRun. Only one run executes at a
+ * time; a failing rule or lead is recorded and doesn't stop the others.
+ */
+export async function runAutomationRules(): Promise<AutomationRunSummary> {
+  const empty = { transitioned: 0, tasksCreated: 0, reassigned: 0, followUpTasks: 0, failed: 0, rules: [] }
+
+  let runId: string | null
+  try {
+    runId = await startAutomationRun()
+  } catch (error) {
+    console.error('[Automation] Error starting automation run:', error)
+    return { runId: null, ...empty, error: 'Failed to run automation' }
+  }
+
+  if (!runId) {
+    console.warn('[Automation] Another automation run is in progress, skipping')
+    return { runId: null, skipped: true, ...empty, error: 'Another automation run is in progress' }
+  }
+
+  try {
+    // Automated changes are attributed to the system user, not to a real account
+    const actorId = await getSystemUserId()
+
+    const rules = await prisma.automationRule.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: 'asc' },
+    })
 
-    if (leadsToTransition.length === 0) {
-      return { transitioned: 0 }
+    const now = new Date()
+    const calendar = await getWorkingCalendar()
+    const results: AutomationRuleResult[] = []
+    for (const rule of rules) {
+      results.push(await runRule(rule, actorId, now, runId, calendar))
     }
 
-    // Transition each lead to junk and log the change
-    for (const lead of leadsToTransition) {
-      await prisma.statusHistory.create({
-        data: {
-          leadId: lead.id,
-          userId: adminUser.id,
-          oldStatus: 'second_followup',
-          newStatus: 'junk',
-          reason: 'Automated: Second Follow-up > 4 days',
-        },
-      })
+    const errors: { rule: string; error: string }[] = results
+      .filter((result) => result.error)
+      .map((result) => ({ rule: result.name, error: result.error as string }))
 
-      // Update lead status
-      await prisma.lead.update({
-        where: { id: lead.id },
-        data: {
-          status: 'junk',
-        },
-      })
+    let followUpTasks = 0
+    try {
+      followUpTasks = await generateFollowUpTasks(actorId)
+    } catch (error) {
+      console.error('[Automation] Follow-up task generation failed:', error)
+      errors.push({ rule: 'Follow-up tasks', error: error instanceof Error ? error.message : 'Failed' })
+    }
+
+    const appliedBy = (action: AutomationAction) =>
+      results.filter((result) => result.action === action).reduce((sum, result) => sum + result.applied, 0)
+    const summary: AutomationRunSummary = {
+      runId,
+      transitioned: appliedBy('move_status'),
+      tasksCreated: appliedBy('create_task'),
+      reassigned: appliedBy('reassign'),
+      followUpTasks,
+      failed: results.reduce((sum, result) => sum + result.failed, 0),
+      rules: results,
     }
 
-    console.log(`[Automation] Successfully transitioned ${leadsToTransition.length} leads from second_followup to junk`)
-    return { transitioned: leadsToTransition.length }
+    await prisma.automationRun.update({
+      where: { id: runId },
+      data: {
+        lockKey: null,
+        status: 'completed',
+        finishedAt: new Date(),
+        rulesRun: rules.length,
+        matched: results.reduce((sum, result) => sum + result.matched, 0),
+        transitioned: summary.transitioned,
+        tasksCreated: summary.tasksCreated,
+        reassigned: summary.reassigned,
+        followUpTasks: summary.followUpTasks,
+        failed: summary.failed,
+        errors: errors.length > 0 ? errors : undefined,
+      },
+    })
+
+    console.log(
+      `[Automation] Ran ${rules.length} rules: ${summary.transitioned} leads moved, ${summary.tasksCreated} tasks created, ${summary.reassigned} leads reassigned, ${summary.followUpTasks} follow-up tasks, ${summary.failed} failed`
+    )
+    return summary
   } catch (error) {
     console.error('[Automation] Error running automation rules:', error)
-    return { transitioned: 0, error: 'Failed to run automation' }
+    const message = error instanceof Error ? error.message : 'Failed to run automation'
+    await prisma.automationRun
+      .update({
+        where: { id: runId },
+        data: { lockKey: null, status: 'failed', finishedAt: new Date(), error: message },
+      })
+      .catch((updateError) => console.error('[Automation] Failed to record run failure:', updateError))
+    return { runId, ...empty, error: message }
+  }
+}
+
+export interface AutomationPreviewLead {
+  id: string
+  name: string
+  company: string | null
+  status: string
+  pipelineName: string
+  assignedTo: string | null
+  // What the rule would do to this lead, e.g. "Second Follow-up → Junk"
+  effect: string
+}
+
+export interface AutomationRulePreview {
+  ruleId: string
+  name: string
+  action: AutomationAction
+  isActive: boolean
+  matched: number
+  leads: AutomationPreviewLead[]
+}
+
+export interface FollowUpTaskPreview {
+  filter: FollowUpFilter
+  title: string
+  matched: number
+  leads: AutomationPreviewLead[]
+}
+
+// Leads listed per rule in a preview; `matched` is always the full count
+const PREVIEW_LEAD_LIMIT = 200
+
+const PREVIEW_LEAD_SELECT = {
+  id: true,
+  name: true,
+  company: true,
+  status: true,
+  pipeline: {
+    select: {
+      name: true,
+      stages: { select: { key: true, label: true } },
+    },
+  },
+  assignedTo: { select: { username: true } },
+}
+
+/**
+ * Dry run: which leads each rule would act on right now, without writing anything.
+ * Rules are evaluated against the current data, so a lead that an earlier rule would move
+ * isn't shown again under a later rule that matches its new stage.
+ * Without ruleId the active rules are previewed (what the cron would do); with it that
+ * single rule is, even when paused.
+ */
+export async function previewAutomationRules(ruleId?: string | null): Promise<AutomationRulePreview[]> {
+  const rules = await prisma.automationRule.findMany({
+    where: ruleId ? { id: ruleId } : { isActive: true },
+    include: { assignTo: { select: { username: true } } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const now = new Date()
+  const calendar = await getWorkingCalendar()
+  const previews: AutomationRulePreview[] = []
+
+  for (const rule of rules) {
+    const where = getRuleLeadWhere(rule, calendar, now)
+    const [matched, leads] = await Promise.all([
+      prisma.lead.count({ where }),
+      prisma.lead.findMany({
+        where,
+        select: PREVIEW_LEAD_SELECT,
+        orderBy: { createdAt: 'asc' },
+        take: PREVIEW_LEAD_LIMIT,
+      }),
+    ])
+
+    previews.push({
+      ruleId: rule.id,
+      name: rule.name,
+      action: rule.action,
+      isActive: rule.isActive,
+      matched,
+      leads: leads.map((lead) => {
+        const stageLabel = (key: string | null) =>
+          lead.pipeline.stages.find((stage) => stage.key === key)?.label ?? key ?? ''
+        const assignedTo = lead.assignedTo?.username ?? null
+
+        let effect: string
+        switch (rule.action) {
+          case 'move_status':
+            effect = `${stageLabel(lead.status)} → ${stageLabel(rule.toStatus)}`
+            break
+          case 'create_task':
+            effect = `Task "${rule.taskTitle}" for ${rule.assignTo?.username ?? assignedTo}`
+            break
+          case 'reassign':
+            effect = `${assignedTo ?? 'Unassigned'} → ${rule.assignTo?.username ?? ''}`
+            break
+        }
+
+        return {
+          id: lead.id,
+          name: lead.name,
+          company: lead.company,
+          status: lead.status,
+          pipelineName: lead.pipeline.name,
+          assignedTo,
+          effect,
+        }
+      }),
+    })
   }
+
+  return previews
 }
 
+/**
+ * Dry run of the follow-up tasks the next run would create (see lib/follow-up-tasks.ts): per
+ * lead filter, the leads past its threshold that don't have a follow-up task for it yet.
+ */
+export async function previewFollowUpTasks(): Promise<FollowUpTaskPreview[]> {
+  const calendar = await getFollowUpCalendar()
+
+  return Promise.all(
+    FOLLOW_UP_FILTERS.map(async (filter) => {
+      const where = getFollowUpLeadWhere(filter, calendar)
+      const { title } = FOLLOW_UP_TASKS[filter]
+      const [matched, leads] = await Promise.all([
+        prisma.lead.count({ where }),
+        prisma.lead.findMany({
+          where,
+          select: PREVIEW_LEAD_SELECT,
+          orderBy: { createdAt: 'asc' },
+          take: PREVIEW_LEAD_LIMIT,
+        }),
+      ])
+
+      return {
+        filter,
+        title,
+        matched,
+        leads: leads.map((lead) => ({
+          id: lead.id,
+          name: lead.name,
+          company: lead.company,
+          status: lead.status,
+          pipelineName: lead.pipeline.name,
+          assignedTo: lead.assignedTo?.username ?? null,
+          effect: `Task "${title}" for ${lead.assignedTo?.username}`,
+        })),
+      }
+    })
+  )
+}
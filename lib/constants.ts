@@ -1,37 +1,77 @@
-export type LeadStatus = 'new' | 'requested' | 'texted' | 'replied' | 'meeting_booked' | 'first_followup' | 'second_followup' | 'junk' | 'closed' | 'commented'
-export type UserRole = 'admin' | 'lead_gen' | 'outreach'
+export type UserRole = 'admin' | 'team_lead' | 'lead_gen' | 'outreach'
 export type System = 'linkedin_one' | 'linkedin_two' | 'upwork'
 
-export const LEAD_STATUSES: LeadStatus[] = [
-  'new',
-  'requested',
-  'texted',
-  'replied',
-  'meeting_booked',
-  'first_followup',
-  'second_followup',
-  'junk',
-  'closed',
-  'commented',
+export interface PipelineStageDefinition {
+  key: string
+  label: string
+  color: string
+  isTerminal: boolean
+  isWon: boolean
+  isLost: boolean
+}
+
+// Seeds the default pipeline (fresh installs and the enum migration in prisma/migrate-pipelines.ts).
+// After that, stages live in the database and are managed from the Pipelines page.
+export const DEFAULT_PIPELINE_NAME = 'Outreach'
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStageDefinition[] = [
+  { key: 'new', label: 'New', color: '#64748b', isTerminal: false, isWon: false, isLost: false },
+  { key: 'requested', label: 'Requested', color: '#0ea5e9', isTerminal: false, isWon: false, isLost: false },
+  { key: 'texted', label: 'Texted', color: '#3b82f6', isTerminal: false, isWon: false, isLost: false },
+  { key: 'replied', label: 'Replied', color: '#8b5cf6', isTerminal: false, isWon: false, isLost: false },
+  { key: 'meeting_booked', label: 'Meeting Booked', color: '#22c55e', isTerminal: false, isWon: true, isLost: false },
+  { key: 'first_followup', label: 'First Follow-up', color: '#f59e0b', isTerminal: false, isWon: false, isLost: false },
+  { key: 'second_followup', label: 'Second Follow-up', color: '#f97316', isTerminal: false, isWon: false, isLost: false },
+  { key: 'junk', label: 'Junk', color: '#ef4444', isTerminal: true, isWon: false, isLost: true },
+  { key: 'closed', label: 'Closed', color: '#15803d', isTerminal: true, isWon: true, isLost: false },
+  { key: 'commented', label: 'Commented', color: '#14b8a6', isTerminal: false, isWon: false, isLost: false },
 ]
 
-export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
-  new: 'New',
-  requested: 'Requested',
-  texted: 'Texted',
-  replied: 'Replied',
-  meeting_booked: 'Meeting Booked',
-  first_followup: 'First Follow-up',
-  second_followup: 'Second Follow-up',
-  junk: 'Junk',
-  closed: 'Closed',
-  commented: 'Commented',
+export interface StageTransitionDefinition {
+  fromKey: string
+  toKey: string
+  requiresReason: boolean
+  // Empty = any role allowed to change the lead's status
+  roles: UserRole[]
 }
 
-export const USER_ROLES: UserRole[] = ['admin', 'lead_gen', 'outreach']
+// Allowed moves in the default pipeline. Leaving the pipeline (junk) needs a reason,
+// and reopening junk or closed leads is limited to admins and team leads.
+export const DEFAULT_STAGE_TRANSITIONS: StageTransitionDefinition[] = [
+  { fromKey: 'new', toKey: 'requested', requiresReason: false, roles: [] },
+  { fromKey: 'new', toKey: 'texted', requiresReason: false, roles: [] },
+  { fromKey: 'new', toKey: 'commented', requiresReason: false, roles: [] },
+  { fromKey: 'new', toKey: 'junk', requiresReason: true, roles: [] },
+  { fromKey: 'requested', toKey: 'texted', requiresReason: false, roles: [] },
+  { fromKey: 'requested', toKey: 'commented', requiresReason: false, roles: [] },
+  { fromKey: 'requested', toKey: 'junk', requiresReason: true, roles: [] },
+  { fromKey: 'commented', toKey: 'requested', requiresReason: false, roles: [] },
+  { fromKey: 'commented', toKey: 'texted', requiresReason: false, roles: [] },
+  { fromKey: 'commented', toKey: 'junk', requiresReason: true, roles: [] },
+  { fromKey: 'texted', toKey: 'replied', requiresReason: false, roles: [] },
+  { fromKey: 'texted', toKey: 'first_followup', requiresReason: false, roles: [] },
+  { fromKey: 'texted', toKey: 'junk', requiresReason: true, roles: [] },
+  { fromKey: 'first_followup', toKey: 'replied', requiresReason: false, roles: [] },
+  { fromKey: 'first_followup', toKey: 'second_followup', requiresReason: false, roles: [] },
+  { fromKey: 'first_followup', toKey: 'junk', requiresReason: true, roles: [] },
+  { fromKey: 'second_followup', toKey: 'replied', requiresReason: false, roles: [] },
+  { fromKey: 'second_followup', toKey: 'junk', requiresReason: false, roles: [] },
+  { fromKey: 'replied', toKey: 'meeting_booked', requiresReason: false, roles: [] },
+  { fromKey: 'replied', toKey: 'first_followup', requiresReason: false, roles: [] },
+  { fromKey: 'replied', toKey: 'closed', requiresReason: false, roles: [] },
+  { fromKey: 'replied', toKey: 'junk', requiresReason: true, roles: [] },
+  { fromKey: 'meeting_booked', toKey: 'closed', requiresReason: false, roles: [] },
+  { fromKey: 'meeting_booked', toKey: 'replied', requiresReason: true, roles: [] },
+  { fromKey: 'meeting_booked', toKey: 'junk', requiresReason: true, roles: [] },
+  { fromKey: 'junk', toKey: 'new', requiresReason: true, roles: ['admin', 'team_lead'] },
+  { fromKey: 'closed', toKey: 'replied', requiresReason: true, roles: ['admin', 'team_lead'] },
+]
+
+export const USER_ROLES: UserRole[] = ['admin', 'team_lead', 'lead_gen', 'outreach']
 
 export const USER_ROLE_LABELS: Record<UserRole, string> = {
   admin: 'Admin',
+  team_lead: 'Team Lead',
   lead_gen: 'Lead Gen',
   outreach: 'Outreach',
 }
@@ -48,6 +88,94 @@ export const SYSTEM_LABELS: Record<System, string> = {
   upwork: 'Upwork',
 }
 
+// Permissions checked by can() in lib/auth.ts
+export type Permission =
+  | 'lead.view'
+  | 'lead.viewInProgress'
+  | 'lead.create'
+  | 'lead.import'
+  | 'lead.update'
+  | 'lead.assign'
+  | 'lead.delete'
+  | 'lead.claim'
+  | 'lead.unclaim'
+  | 'lead.changeStatus'
+  | 'lead.merge'
+  | 'lead.movePipeline'
+  | 'task.viewAll'
+  | 'task.manage'
+  | 'task.complete'
+  | 'user.manage'
+  | 'audit.view'
+  | 'pipeline.manage'
+  | 'automation.manage'
+  | 'taskTemplate.manage'
+  | 'settings.manage'
+
+// Which leads/tasks a granted permission reaches: everything, the user's own, unassigned ones,
+// those assigned to anyone in the user's team, or combinations
+export type PermissionScope = 'all' | 'own' | 'unassigned' | 'ownOrUnassigned' | 'team' | 'teamOrUnassigned'
+
+// Role -> permission mapping. A missing permission is denied; add a role here instead of in each route.
+export const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<Permission, PermissionScope>>> = {
+  admin: {
+    'lead.view': 'all',
+    'lead.viewInProgress': 'all',
+    'lead.create': 'all',
+    'lead.import': 'all',
+    'lead.update': 'all',
+    'lead.assign': 'all',
+    'lead.delete': 'all',
+    'lead.claim': 'all',
+    'lead.unclaim': 'all',
+    'lead.changeStatus': 'all',
+    'lead.merge': 'all',
+    'lead.movePipeline': 'all',
+    'task.viewAll': 'all',
+    'task.manage': 'all',
+    'task.complete': 'all',
+    'user.manage': 'all',
+    'audit.view': 'all',
+    'pipeline.manage': 'all',
+    'automation.manage': 'all',
+    'taskTemplate.manage': 'all',
+    'settings.manage': 'all',
+  },
+  team_lead: {
+    // Team leads see, reassign and coach the leads and tasks of their own team
+    'lead.view': 'teamOrUnassigned',
+    'lead.viewInProgress': 'teamOrUnassigned',
+    'lead.update': 'teamOrUnassigned',
+    'lead.assign': 'team',
+    'lead.claim': 'all',
+    'lead.unclaim': 'team',
+    'lead.changeStatus': 'team',
+    'lead.movePipeline': 'team',
+    'task.viewAll': 'team',
+    'task.manage': 'team',
+    'task.complete': 'team',
+  },
+  lead_gen: {
+    // Lead gen works the unclaimed 'new' pool only
+    'lead.view': 'unassigned',
+    'lead.create': 'all',
+    'lead.import': 'all',
+    'lead.update': 'unassigned',
+    'lead.changeStatus': 'unassigned',
+    'task.complete': 'own',
+  },
+  outreach: {
+    // Outreach sees unclaimed leads plus their own, never leads claimed by someone else
+    'lead.view': 'ownOrUnassigned',
+    'lead.viewInProgress': 'ownOrUnassigned',
+    'lead.update': 'ownOrUnassigned',
+    'lead.claim': 'all',
+    'lead.unclaim': 'own',
+    'lead.changeStatus': 'own',
+    'task.complete': 'own',
+  },
+}
+
 // Automation rules
 export const AUTOMATION_RULES = {
   FOLLOWUP_2_TO_JUNK_DAYS: 4,
@@ -56,3 +184,132 @@ export const AUTOMATION_RULES = {
   REPLIED_FILTER_DAYS: 6,
 } as const
 
+export type AutomationAction = 'move_status' | 'create_task' | 'reassign'
+
+export const AUTOMATION_ACTIONS: AutomationAction[] = ['move_status', 'create_task', 'reassign']
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationAction, string> = {
+  move_status: 'Move to stage',
+  create_task: 'Create task',
+  reassign: 'Reassign',
+}
+
+// Lead timestamps a rule can measure age from. stage_entered = when the lead entered the rule's stage.
+export type AutomationRuleField = 'stage_entered' | 'created' | 'updated'
+
+export const AUTOMATION_RULE_FIELDS: AutomationRuleField[] = ['stage_entered', 'created', 'updated']
+
+export const AUTOMATION_RULE_FIELD_LABELS: Record<AutomationRuleField, string> = {
+  stage_entered: 'Entered the stage',
+  created: 'Created',
+  updated: 'Last updated',
+}
+
+// Seeded so fresh installs keep the original second follow-up -> junk behaviour
+export const DEFAULT_AUTOMATION_RULES = [
+  {
+    name: 'Junk stale second follow-ups',
+    status: 'second_followup',
+    field: 'stage_entered' as AutomationRuleField,
+    olderThanDays: AUTOMATION_RULES.FOLLOWUP_2_TO_JUNK_DAYS,
+    businessDays: true,
+    action: 'move_status' as AutomationAction,
+    toStatus: 'junk',
+  },
+]
+
+// Task priorities, highest first (the order used by pickers and filters)
+export type TaskPriority = 'urgent' | 'high' | 'medium' | 'low'
+
+export const TASK_PRIORITIES: TaskPriority[] = ['urgent', 'high', 'medium', 'low']
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+}
+
+// Backlog escalation per priority. The creator is notified when a task goes to backlog; after
+// escalateAfterDays business days in backlog the assignee's team lead and the admins are notified too
+// (null = never).
+export const TASK_ESCALATION_POLICIES: Record<TaskPriority, { escalateAfterDays: number | null }> = {
+  urgent: { escalateAfterDays: 1 },
+  high: { escalateAfterDays: 2 },
+  medium: { escalateAfterDays: 3 },
+  low: { escalateAfterDays: null },
+}
+
+// Task recurrence (see TaskRecurrence in prisma/schema.prisma)
+export type TaskRecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly'
+
+export const TASK_RECURRENCE_FREQUENCIES: TaskRecurrenceFrequency[] = ['daily', 'weekdays', 'weekly', 'monthly']
+
+export const TASK_RECURRENCE_LABELS: Record<TaskRecurrenceFrequency, string> = {
+  daily: 'Every day',
+  weekdays: 'Every weekday',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+}
+
+// ISO weekday numbers, as used by TaskRecurrence.daysOfWeek and luxon
+export const WEEKDAY_LABELS: Record<number, string> = {
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat',
+  7: 'Sun',
+}
+
+// Password policy (enforced by passwordSchema in lib/validations.ts)
+export const PASSWORD_POLICY = {
+  MIN_LENGTH: 8,
+  BANNED_PASSWORDS: [
+    'password',
+    'password1',
+    'password123',
+    '12345678',
+    '123456789',
+    '1234567890',
+    'qwerty123',
+    'qwertyuiop',
+    'iloveyou',
+    'welcome1',
+    'welcome123',
+    'letmein1',
+    'admin123',
+    'changeme',
+    'linkedin',
+    'leadgen123',
+    'outreach123',
+  ],
+} as const
+
+// Login brute-force protection (enforced in lib/login-protection.ts)
+export const LOGIN_PROTECTION = {
+  WINDOW_MINUTES: 15, // failed attempts older than this no longer slow down logins
+  FREE_ATTEMPTS: 3, // failures allowed before backoff kicks in
+  BASE_DELAY_SECONDS: 2, // doubled for every failure after FREE_ATTEMPTS
+  MAX_DELAY_SECONDS: 300,
+  IP_FREE_ATTEMPTS: 10, // per-IP budget is larger to allow shared office networks
+  LOCKOUT_THRESHOLD: 10, // consecutive failures before the account is locked
+  LOCKOUT_MINUTES: 30,
+} as const
+
+// Lead duplicate detection (see lib/lead-duplicates.ts)
+export type LeadDuplicateReason = 'email' | 'profile_url' | 'name_company'
+
+export const LEAD_DUPLICATE_REASON_LABELS: Record<LeadDuplicateReason, string> = {
+  email: 'Same email',
+  profile_url: 'Same profile URL',
+  name_company: 'Similar name and company',
+}
+
+// Minimum name and company similarity (0-1) for a fuzzy match
+export const LEAD_DUPLICATE_SIMILARITY = 0.85
+
+// Fields an admin can take from either lead when merging two
+export const LEAD_MERGE_FIELDS = ['name', 'email', 'company', 'profileUrl', 'postUrl', 'website'] as const
+export type LeadMergeField = (typeof LEAD_MERGE_FIELDS)[number]
@@ -0,0 +1,106 @@
+import { prisma } from './prisma'
+import { recordAuditEvent } from './audit'
+import { AUTOMATION_RULES } from './constants'
+import { LeadActionFilter, getActionFilterWhere } from './lead-query'
+import { WorkingCalendar, getFollowUpCalendar } from './working-calendar'
+
+/**
+ * Follow-up tasks from lead timers. The texted_old, first_followup_old and replied_old filters
+ * on the leads page find leads waiting too long for a follow-up; the automation cron turns each
+ * of them into a Task for the lead's assignee, linked to the lead. TaskLead.followUpFilter plus the
+ * unique (leadId, followUpFilter) index keep it to one task per lead and filter, even when the
+ * task is completed or the lead is still waiting on the next run.
+ */
+
+export type FollowUpFilter = Exclude<LeadActionFilter, 'unclaimed'>
+
+// `age` is e.g. "4+ business days", matching how the filter counts
+export const FOLLOW_UP_TASKS: Record<FollowUpFilter, { title: string; days: number; description: (age: string) => string }> = {
+  texted_old: {
+    title: 'Follow up',
+    days: AUTOMATION_RULES.TEXTED_FILTER_DAYS,
+    description: (age) => `Texted ${age} ago without a reply.`,
+  },
+  first_followup_old: {
+    title: 'Send second follow-up',
+    days: AUTOMATION_RULES.FOLLOWUP_1_FILTER_DAYS,
+    description: (age) => `First follow-up sent ${age} ago.`,
+  },
+  replied_old: {
+    title: 'Respond to reply',
+    days: AUTOMATION_RULES.REPLIED_FILTER_DAYS,
+    description: (age) => `Replied ${age} ago and still waiting on us.`,
+  },
+}
+
+export const FOLLOW_UP_FILTERS = Object.keys(FOLLOW_UP_TASKS) as FollowUpFilter[]
+
+// Leads past the filter's threshold with an active assignee and no follow-up task for it yet
+export function getFollowUpLeadWhere(filter: FollowUpFilter, calendar: WorkingCalendar | null) {
+  return {
+    ...getActionFilterWhere(filter, calendar),
+    assignedTo: { isActive: true },
+    taskLinks: { none: { followUpFilter: filter } },
+  }
+}
+
+// Same window as tasks created by hand
+const FOLLOW_UP_DUE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Creates the missing follow-up tasks and returns how many were created. Leads without an
+ * active assignee are skipped until someone owns them.
+ */
+export async function generateFollowUpTasks(actorId: string): Promise<number> {
+  const calendar = await getFollowUpCalendar()
+  let created = 0
+
+  for (const filter of FOLLOW_UP_FILTERS) {
+    const leads = await prisma.lead.findMany({
+      where: getFollowUpLeadWhere(filter, calendar),
+      select: {
+        id: true,
+        assignedToId: true,
+      },
+    })
+
+    for (const lead of leads) {
+      const now = new Date()
+      const { title, days, description: describe } = FOLLOW_UP_TASKS[filter]
+      const description = describe(`${days}+ ${calendar ? 'business days' : 'days'}`)
+
+      try {
+        const task = await prisma.task.create({
+          data: {
+            title,
+            description,
+            assignedToId: lead.assignedToId as string,
+            createdById: actorId,
+            createdAt: now,
+            dueAt: new Date(now.getTime() + FOLLOW_UP_DUE_MS),
+            status: 'undone',
+            leads: { create: { leadId: lead.id, followUpFilter: filter } },
+          },
+        })
+        created++
+
+        await recordAuditEvent({
+          actorId,
+          entityType: 'task',
+          entityId: task.id,
+          action: 'create',
+          before: null,
+          after: task,
+          summary: `Automated: follow-up for ${filter.replace(/_/g, ' ')}`,
+        })
+      } catch (error: any) {
+        // Created by an overlapping request in the meantime
+        if (error.code !== 'P2002') {
+          throw error
+        }
+      }
+    }
+  }
+
+  return created
+}
@@ -0,0 +1,359 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { recordAuditEvent } from './audit'
+import { PIPELINE_INCLUDE, findStage } from './pipelines'
+import { LEAD_DUPLICATE_SIMILARITY, LEAD_MERGE_FIELDS, LeadDuplicateReason, LeadMergeField } from './constants'
+
+/**
+ * Lead duplicate detection and merging. Two leads are duplicates when their emails match
+ * (case-insensitively) or their profile URLs do after normalization ("exact" matches, which
+ * POST /api/leads and the CSV import refuse), or when both name and company are similar enough
+ * (fuzzy matches, which are created but queued as a LeadDuplicate for an admin to merge or dismiss).
+ */
+
+export interface DuplicateCandidate {
+  id?: string
+  name: string
+  email?: string | null
+  company?: string | null
+  profileUrl?: string | null
+  createdAt?: Date
+}
+
+export interface DuplicateMatch {
+  lead: { id: string; name: string; email: string | null; company: string | null; profileUrl: string | null; createdAt: Date }
+  reason: LeadDuplicateReason
+  score: number
+}
+
+const CANDIDATE_SELECT = { id: true, name: true, email: true, company: true, profileUrl: true, createdAt: true }
+
+// Caps the fuzzy candidates fetched per check; name+company similarity is scored in memory
+const MAX_CANDIDATES = 200
+
+const COMPANY_SUFFIXES = new Set(['inc', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'gmbh', 'pvt', 'plc', 'sa', 'bv'])
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase()
+  return normalized || null
+}
+
+/**
+ * Profile URL without protocol, www/country/mobile subdomain, query, fragment and trailing slash,
+ * e.g. https://in.linkedin.com/in/Jane-Doe/?utm=x -> linkedin.com/in/jane-doe
+ */
+export function normalizeProfileUrl(url: string | null | undefined): string | null {
+  if (!url?.trim()) return null
+  let normalized = url.trim().toLowerCase()
+  try {
+    normalized = decodeURIComponent(normalized)
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  normalized = normalized
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+    .replace(/^(www|m|[a-z]{2})\.linkedin\.com/, 'linkedin.com')
+    .replace(/^www\./, '')
+  return normalized || null
+}
+
+// Lowercase words without accents or punctuation
+export function normalizeName(value: string | null | undefined): string {
+  return (value ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export function normalizeCompany(value: string | null | undefined): string {
+  const words = normalizeName(value).split(' ').filter(Boolean)
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop()
+  }
+  return words.join(' ')
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for equal strings down to 0 for nothing in common
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length)
+}
+
+/**
+ * Why two leads look like the same person, or null. Exact matches score 1; name+company matches
+ * score the lower of the two similarities and need both to reach LEAD_DUPLICATE_SIMILARITY.
+ */
+export function matchLeads(a: DuplicateCandidate, b: DuplicateCandidate): { reason: LeadDuplicateReason; score: number } | null {
+  const emailA = normalizeEmail(a.email)
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    return { reason: 'email', score: 1 }
+  }
+  const urlA = normalizeProfileUrl(a.profileUrl)
+  if (urlA && urlA === normalizeProfileUrl(b.profileUrl)) {
+    return { reason: 'profile_url', score: 1 }
+  }
+  const companyA = normalizeCompany(a.company)
+  const companyB = normalizeCompany(b.company)
+  if (!companyA || !companyB) {
+    return null
+  }
+  const score = Math.min(similarity(normalizeName(a.name), normalizeName(b.name)), similarity(companyA, companyB))
+  return score >= LEAD_DUPLICATE_SIMILARITY ? { reason: 'name_company', score } : null
+}
+
+export function isExactMatch(match: { reason: LeadDuplicateReason }): boolean {
+  return match.reason !== 'name_company'
+}
+
+/**
+ * Existing leads that look like `candidate`, best match first. The database narrows them down by
+ * email and the last profile URL segment (all of them) and the first company word (capped at
+ * MAX_CANDIDATES); matchLeads decides.
+ */
+export async function findDuplicateLeads(candidate: DuplicateCandidate): Promise<DuplicateMatch[]> {
+  const email = normalizeEmail(candidate.email)
+  const url = normalizeProfileUrl(candidate.profileUrl)
+  const urlSlug = url?.split('/').pop()
+  const companyWord = normalizeCompany(candidate.company).split(' ')[0]
+  const notSelf: Prisma.LeadWhereInput = candidate.id ? { id: { not: candidate.id } } : {}
+
+  const exact: Prisma.LeadWhereInput[] = []
+  if (email) exact.push({ email: { equals: email, mode: 'insensitive' } })
+  if (urlSlug) exact.push({ profileUrl: { contains: urlSlug, mode: 'insensitive' } })
+
+  // Separate queries so loose company candidates can't crowd an exact match out of the cap
+  const [exactLeads, companyLeads] = await Promise.all([
+    exact.length > 0
+      ? prisma.lead.findMany({ where: { OR: exact, ...notSelf }, select: CANDIDATE_SELECT })
+      : [],
+    companyWord && companyWord.length >= 2
+      ? prisma.lead.findMany({
+          where: { company: { contains: companyWord, mode: 'insensitive' }, ...notSelf },
+          select: CANDIDATE_SELECT,
+          orderBy: { createdAt: 'asc' },
+          take: MAX_CANDIDATES,
+        })
+      : [],
+  ])
+  const leads = Array.from(new Map([...exactLeads, ...companyLeads].map((lead) => [lead.id, lead])).values())
+
+  const matches: DuplicateMatch[] = []
+  for (const lead of leads) {
+    const match = matchLeads(candidate, lead)
+    if (match) {
+      matches.push({ lead, ...match })
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score)
+}
+
+// Rows queued per createMany while scanning
+const SCAN_BATCH_SIZE = 500
+
+// The newer lead of the pair goes first
+function toDuplicateRow(lead: { id: string; createdAt: Date }, { lead: other, reason, score }: DuplicateMatch) {
+  const newer = other.createdAt > lead.createdAt || (other.createdAt.getTime() === lead.createdAt.getTime() && other.id > lead.id)
+  return {
+    leadId: newer ? other.id : lead.id,
+    matchId: newer ? lead.id : other.id,
+    reason,
+    score,
+  }
+}
+
+/**
+ * Queues the pairs for review, the newer lead first. Pairs already queued (or dismissed) are left
+ * alone. Returns how many were added.
+ */
+export async function flagDuplicates(lead: { id: string; createdAt: Date }, matches: DuplicateMatch[]): Promise<number> {
+  if (matches.length === 0) {
+    return 0
+  }
+  const { count } = await prisma.leadDuplicate.createMany({
+    data: matches.map((match) => toDuplicateRow(lead, match)),
+    skipDuplicates: true,
+  })
+  return count
+}
+
+/**
+ * Checks existing leads against each other and queues the pairs found; for leads that predate the
+ * check or were changed since. Only leads sharing an email, a profile URL or the same normalized
+ * company are compared, so the scan stays fast on large lead lists; similar but differently
+ * spelled companies are still caught when each lead is created or imported. Returns how many
+ * pairs were added.
+ */
+export async function scanLeadDuplicates(): Promise<number> {
+  const leads = await prisma.lead.findMany({ select: CANDIDATE_SELECT, orderBy: { createdAt: 'asc' } })
+  const buckets = new Map<string, typeof leads>()
+  const add = (key: string | null | undefined, lead: (typeof leads)[number]) => {
+    if (!key) return
+    const bucket = buckets.get(key)
+    if (bucket) {
+      bucket.push(lead)
+    } else {
+      buckets.set(key, [lead])
+    }
+  }
+  for (const lead of leads) {
+    add(normalizeEmail(lead.email) && `email:${normalizeEmail(lead.email)}`, lead)
+    add(normalizeProfileUrl(lead.profileUrl) && `url:${normalizeProfileUrl(lead.profileUrl)}`, lead)
+    add(normalizeCompany(lead.company) && `company:${normalizeCompany(lead.company)}`, lead)
+  }
+
+  const rows: ReturnType<typeof toDuplicateRow>[] = []
+  const seen = new Set<string>()
+  for (const bucket of Array.from(buckets.values())) {
+    // Ordered by createdAt, so each lead is compared with the older ones before it
+    for (let i = 1; i < bucket.length; i++) {
+      for (let j = 0; j < i; j++) {
+        const key = `${bucket[i].id}:${bucket[j].id}`
+        if (seen.has(key)) continue
+        const match = matchLeads(bucket[i], bucket[j])
+        if (match) {
+          seen.add(key)
+          rows.push(toDuplicateRow(bucket[i], { lead: bucket[j], ...match }))
+        }
+      }
+    }
+  }
+
+  let flagged = 0
+  for (let i = 0; i < rows.length; i += SCAN_BATCH_SIZE) {
+    const { count } = await prisma.leadDuplicate.createMany({ data: rows.slice(i, i + SCAN_BATCH_SIZE), skipDuplicates: true })
+    flagged += count
+  }
+  return flagged
+}
+
+/**
+ * Merges `sourceId` into `targetId` and deletes the source. Fields listed in `prefer` are taken
+ * from the source; other fields keep the target's value, falling back to the source's when empty.
+ * Notes are concatenated, and the source's status history, stage entries (earliest wins; only
+ * stages of the target's pipeline), rule applications and task links move to the target.
+ * Returns the merged lead, or null when either lead no longer exists.
+ */
+export async function mergeLeads(params: {
+  targetId: string
+  sourceId: string
+  preferSource?: LeadMergeField[]
+  actorId: string
+}) {
+  const { targetId, sourceId, actorId } = params
+  const preferSource = new Set(params.preferSource ?? [])
+
+  const result = await prisma.$transaction(async (tx) => {
+    const [target, source] = await Promise.all([
+      tx.lead.findUnique({
+        where: { id: targetId },
+        include: { stageEntries: true, taskLinks: true, pipeline: { include: PIPELINE_INCLUDE } },
+      }),
+      tx.lead.findUnique({ where: { id: sourceId }, include: { stageEntries: true, taskLinks: true, automationApplications: true } }),
+    ])
+    if (!target || !source) {
+      return null
+    }
+
+    const fields = Object.fromEntries(
+      LEAD_MERGE_FIELDS.map((field) => [
+        field,
+        preferSource.has(field) ? source[field] ?? target[field] : target[field] ?? source[field],
+      ])
+    ) as Pick<typeof target, LeadMergeField>
+    const data: Prisma.LeadUncheckedUpdateInput = {
+      ...fields,
+      assignedToId: target.assignedToId ?? source.assignedToId,
+      notes: Array.from(new Set([target.notes?.trim(), source.notes?.trim()].filter(Boolean))).join('\n\n') || null,
+    }
+
+    await tx.statusHistory.updateMany({ where: { leadId: source.id }, data: { leadId: target.id } })
+
+    for (const entry of source.stageEntries) {
+      // Stage timers of another pipeline would be stray rows on the target
+      if (!findStage(target.pipeline, entry.stageKey)) continue
+      const existing = target.stageEntries.find((e) => e.stageKey === entry.stageKey)
+      if (!existing) {
+        await tx.leadStageEntry.create({ data: { leadId: target.id, stageKey: entry.stageKey, enteredAt: entry.enteredAt } })
+      } else if (entry.enteredAt < existing.enteredAt) {
+        await tx.leadStageEntry.update({ where: { id: existing.id }, data: { enteredAt: entry.enteredAt } })
+      }
+    }
+
+    // Keeps one-off rules from applying to the merged lead again
+    await tx.automationRuleApplication.createMany({
+      data: source.automationApplications.map((a) => ({ ruleId: a.ruleId, leadId: target.id, appliedAt: a.appliedAt })),
+      skipDuplicates: true,
+    })
+
+    const linkedTasks = new Set(target.taskLinks.map((link) => link.taskId))
+    const followUpFilters = new Set(target.taskLinks.map((link) => link.followUpFilter).filter(Boolean))
+    for (const link of source.taskLinks) {
+      if (linkedTasks.has(link.taskId)) continue
+      await tx.taskLead.create({
+        data: {
+          taskId: link.taskId,
+          leadId: target.id,
+          // (leadId, followUpFilter) is unique: the target's own follow-up task wins
+          followUpFilter: link.followUpFilter && !followUpFilters.has(link.followUpFilter) ? link.followUpFilter : null,
+          createdAt: link.createdAt,
+        },
+      })
+    }
+
+    await tx.lead.delete({ where: { id: source.id } })
+    const merged = await tx.lead.update({ where: { id: target.id }, data })
+
+    const { stageEntries: _targetEntries, taskLinks: _targetLinks, pipeline: _pipeline, ...targetBefore } = target
+    const { stageEntries: _sourceEntries, taskLinks: _sourceLinks, automationApplications: _applications, ...sourceBefore } = source
+    return { before: targetBefore, merged, source: sourceBefore }
+  })
+
+  if (!result) {
+    return null
+  }
+
+  await recordAuditEvent({
+    actorId,
+    entityType: 'lead',
+    entityId: result.merged.id,
+    action: 'merge',
+    before: result.before,
+    after: result.merged,
+    summary: `Merged duplicate ${result.source.name} (${result.source.id}) into this lead`,
+  })
+  await recordAuditEvent({
+    actorId,
+    entityType: 'lead',
+    entityId: result.source.id,
+    action: 'delete',
+    before: result.source,
+    after: null,
+    summary: `Merged into ${result.merged.name} (${result.merged.id})`,
+  })
+
+  // The merged lead may now match others (e.g. through the email it took over)
+  await flagDuplicates(result.merged, await findDuplicateLeads(result.merged))
+
+  return result.merged
+}
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { SessionUser } from './auth'
+import { buildLeadWhere, getLeadVisibilityWhere, parseLeadPagination } from './lead-query'
+
+const admin: SessionUser = { id: 'admin-1', username: 'admin', role: 'admin', teamId: null }
+const teamLead: SessionUser = { id: 'lead-1', username: 'lead', role: 'team_lead', teamId: 'team-1' }
+const teamLeadWithoutTeam: SessionUser = { id: 'lead-2', username: 'lead2', role: 'team_lead', teamId: null }
+const leadGen: SessionUser = { id: 'gen-1', username: 'gen', role: 'lead_gen', teamId: null }
+const outreach: SessionUser = { id: 'out-1', username: 'out', role: 'outreach', teamId: 'team-1' }
+
+describe('getLeadVisibilityWhere', () => {
+  it('lets admins see every lead', () => {
+    assert.deepEqual(getLeadVisibilityWhere(admin), {})
+  })
+
+  it('limits team leads to unassigned leads, their own and their team members\'', () => {
+    assert.deepEqual(getLeadVisibilityWhere(teamLead), {
+      OR: [
+        { assignedToId: null },
+        { OR: [{ assignedToId: 'lead-1' }, { assignedTo: { teamId: 'team-1' } }] },
+      ],
+    })
+  })
+
+  it('limits team leads without a team to unassigned leads and their own', () => {
+    assert.deepEqual(getLeadVisibilityWhere(teamLeadWithoutTeam), {
+      OR: [{ assignedToId: null }, { assignedToId: 'lead-2' }],
+    })
+  })
+
+  it('limits lead gen to the unassigned new pool', () => {
+    assert.deepEqual(getLeadVisibilityWhere(leadGen), { assignedToId: null, status: 'new' })
+  })
+
+  it('limits outreach to unassigned leads and their own', () => {
+    assert.deepEqual(getLeadVisibilityWhere(outreach), {
+      OR: [{ assignedToId: null }, { assignedToId: 'out-1' }],
+    })
+  })
+})
+
+describe('buildLeadWhere', () => {
+  it('returns no conditions for an admin without filters', () => {
+    assert.deepEqual(buildLeadWhere(admin), {})
+  })
+
+  it('uses the filter alone for an admin', () => {
+    assert.deepEqual(buildLeadWhere(admin, { status: 'texted' }), { status: 'texted' })
+  })
+
+  it('ignores "all" filters', () => {
+    assert.deepEqual(buildLeadWhere(admin, { pipelineId: 'all', status: 'all', system: 'all' }), {})
+  })
+
+  it('ANDs the team lead scope with the filters', () => {
+    assert.deepEqual(buildLeadWhere(teamLead, { pipelineId: 'p-1', system: 'upwork' }), {
+      AND: [
+        getLeadVisibilityWhere(teamLead),
+        { pipelineId: 'p-1' },
+        { system: 'upwork' },
+      ],
+    })
+  })
+
+  it('ANDs the own-leads scope of a team lead without a team with the filters', () => {
+    assert.deepEqual(buildLeadWhere(teamLeadWithoutTeam, { status: 'replied' }), {
+      AND: [{ OR: [{ assignedToId: null }, { assignedToId: 'lead-2' }] }, { status: 'replied' }],
+    })
+  })
+
+  it('keeps lead gen in the new pool whatever status is requested', () => {
+    assert.deepEqual(buildLeadWhere(leadGen, { status: 'replied' }), {
+      AND: [{ assignedToId: null, status: 'new' }, { status: 'replied' }],
+    })
+  })
+
+  it('ANDs the outreach scope with a search', () => {
+    const where = buildLeadWhere(outreach, { search: 'acme' })
+    assert.deepEqual(where.AND[0], { OR: [{ assignedToId: null }, { assignedToId: 'out-1' }] })
+    assert.deepEqual(where.AND[1].OR[0], { name: { contains: 'acme', mode: 'insensitive' } })
+  })
+
+  it('lets an action filter take precedence over the status filter', () => {
+    assert.deepEqual(buildLeadWhere(outreach, { actionFilter: 'unclaimed', status: 'texted' }), {
+      AND: [
+        { OR: [{ assignedToId: null }, { assignedToId: 'out-1' }] },
+        { status: 'new', assignedToId: null },
+      ],
+    })
+  })
+
+  it('keeps the scope on action filters with a stage-entered threshold', () => {
+    const where = buildLeadWhere(outreach, { actionFilter: 'texted_old', followUpCalendar: null })
+    assert.deepEqual(where.AND[0], { OR: [{ assignedToId: null }, { assignedToId: 'out-1' }] })
+    assert.equal(where.AND[1].status, 'texted')
+    assert.equal(where.AND[1].stageEntries.some.stageKey, 'texted')
+  })
+
+  it('returns null for a user without lead.view', () => {
+    assert.equal(buildLeadWhere({ ...admin, role: 'unknown' as SessionUser['role'] }), null)
+  })
+})
+
+describe('parseLeadPagination', () => {
+  const parse = (query: string) => parseLeadPagination(new URLSearchParams(query))
+
+  it('defaults to the first page of 15', () => {
+    assert.deepEqual(parse(''), { page: 1, limit: 15, skip: 0 })
+  })
+
+  it('skips the earlier pages', () => {
+    assert.deepEqual(parse('page=3&limit=20'), { page: 3, limit: 20, skip: 40 })
+  })
+
+  it('clamps page to at least 1', () => {
+    assert.deepEqual(parse('page=0'), { page: 1, limit: 15, skip: 0 })
+    assert.deepEqual(parse('page=-4'), { page: 1, limit: 15, skip: 0 })
+  })
+
+  it('clamps limit to 1-100', () => {
+    assert.equal(parse('limit=0').limit, 1)
+    assert.equal(parse('limit=5000').limit, 100)
+  })
+
+  it('falls back to the defaults for values that are not numbers', () => {
+    assert.deepEqual(parse('page=abc&limit=NaN'), { page: 1, limit: 15, skip: 0 })
+  })
+})
@@ -0,0 +1,242 @@
+import { prisma } from './prisma'
+import { SessionUser, can, getScopeWhere } from './auth'
+import { AUTOMATION_RULES } from './constants'
+import { getStageEnteredWhere, toStageEnteredAt } from './pipelines'
+import { WorkingCalendar, getThresholdCutoff } from './working-calendar'
+import { Pagination, parsePagination } from './utils'
+
+/**
+ * Shared query building for the lead list endpoints
+ * (/api/leads, /api/leads/status, /api/leads/action, /api/leads/date-filter).
+ * Every list goes through buildLeadWhere so the permission scope is always ANDed
+ * with the requested filters and can't drift between routes.
+ */
+
+export type LeadActionFilter = 'unclaimed' | 'texted_old' | 'first_followup_old' | 'replied_old'
+
+export const LEAD_ACTION_FILTERS: LeadActionFilter[] = [
+  'unclaimed',
+  'texted_old',
+  'first_followup_old',
+  'replied_old',
+]
+
+export interface LeadDateFilter {
+  start: Date
+  end: Date
+  statuses: string[]
+}
+
+export interface LeadQueryFilters {
+  pipelineId?: string | null
+  status?: string | null
+  actionFilter?: string | null
+  system?: string | null
+  search?: string | null
+  date?: LeadDateFilter | null
+  // Working calendar for the action filter thresholds (getFollowUpCalendar); null = calendar days
+  followUpCalendar?: WorkingCalendar | null
+}
+
+export type LeadPagination = Pagination
+
+export function isLeadActionFilter(filter: string | null | undefined): filter is LeadActionFilter {
+  return !!filter && (LEAD_ACTION_FILTERS as string[]).includes(filter)
+}
+
+/**
+ * Which leads the user may see at all: the lead.view scope, limited to the
+ * untouched 'new' pool without lead.viewInProgress. Null when lead.view is not granted.
+ */
+export function getLeadVisibilityWhere(user: SessionUser): any | null {
+  const scopeWhere = getScopeWhere(user, 'lead.view')
+  if (!scopeWhere) {
+    return null
+  }
+  if (!can(user, 'lead.viewInProgress')) {
+    return { ...scopeWhere, status: 'new' }
+  }
+  return scopeWhere
+}
+
+// The thresholds count business days when a working calendar is given
+export function getActionFilterWhere(filter: LeadActionFilter, calendar: WorkingCalendar | null = null): any {
+  const daysAgo = (days: number) => getThresholdCutoff(days, calendar)
+
+  switch (filter) {
+    case 'unclaimed':
+      return { status: 'new', assignedToId: null }
+    case 'texted_old':
+      return {
+        status: 'texted',
+        ...getStageEnteredWhere('texted', { lte: daysAgo(AUTOMATION_RULES.TEXTED_FILTER_DAYS) }),
+      }
+    case 'first_followup_old':
+      return {
+        status: 'first_followup',
+        ...getStageEnteredWhere('first_followup', { lte: daysAgo(AUTOMATION_RULES.FOLLOWUP_1_FILTER_DAYS) }),
+      }
+    case 'replied_old':
+      return {
+        status: 'replied',
+        ...getStageEnteredWhere('replied', { lte: daysAgo(AUTOMATION_RULES.REPLIED_FILTER_DAYS) }),
+      }
+  }
+}
+
+/**
+ * Leads matching a day: created that day, or moved into one of the statuses that day
+ * (via status history or the stage-entered timestamp). Without statuses only creation counts.
+ */
+export function getDateFilterWhere(date: LeadDateFilter): any {
+  const range = { gte: date.start, lte: date.end }
+
+  if (date.statuses.length === 0) {
+    return { createdAt: range }
+  }
+
+  const conditions: any[] = [
+    { createdAt: range, status: { in: date.statuses } },
+    {
+      statusHistory: {
+        some: {
+          newStatus: { in: date.statuses },
+          createdAt: range,
+        },
+      },
+    },
+  ]
+
+  for (const status of date.statuses) {
+    conditions.push({ status, ...getStageEnteredWhere(status, range) })
+  }
+
+  return { OR: conditions }
+}
+
+export function getSearchWhere(search: string): any {
+  return {
+    OR: [
+      { name: { contains: search, mode: 'insensitive' } },
+      { email: { contains: search, mode: 'insensitive' } },
+      { company: { contains: search, mode: 'insensitive' } },
+    ],
+  }
+}
+
+/**
+ * Composes visibility scope and filters into one where clause.
+ * An action filter takes precedence over the status filter. Returns null when the
+ * user may not list leads at all.
+ */
+export function buildLeadWhere(user: SessionUser, filters: LeadQueryFilters = {}): any | null {
+  const visibility = getLeadVisibilityWhere(user)
+  if (!visibility) {
+    return null
+  }
+
+  const conditions: any[] = []
+  if (Object.keys(visibility).length > 0) {
+    conditions.push(visibility)
+  }
+
+  if (filters.pipelineId && filters.pipelineId !== 'all') {
+    conditions.push({ pipelineId: filters.pipelineId })
+  }
+
+  if (isLeadActionFilter(filters.actionFilter)) {
+    conditions.push(getActionFilterWhere(filters.actionFilter, filters.followUpCalendar))
+  } else if (filters.status && filters.status !== 'all') {
+    conditions.push({ status: filters.status })
+  }
+
+  if (filters.date) {
+    conditions.push(getDateFilterWhere(filters.date))
+  }
+
+  if (filters.system && filters.system !== 'all') {
+    conditions.push({ system: filters.system })
+  }
+
+  if (filters.search) {
+    conditions.push(getSearchWhere(filters.search))
+  }
+
+  if (conditions.length === 0) return {}
+  if (conditions.length === 1) return conditions[0]
+  return { AND: conditions }
+}
+
+const DEFAULT_LEAD_PAGE_SIZE = 15
+
+export function parseLeadPagination(searchParams: URLSearchParams): LeadPagination {
+  return parsePagination(searchParams, DEFAULT_LEAD_PAGE_SIZE)
+}
+
+// Includes the assignee, stage-entered times and the latest status change for the "last updated by" column
+export const LEAD_LIST_INCLUDE = {
+  assignedTo: {
+    select: {
+      id: true,
+      username: true,
+      teamId: true,
+    },
+  },
+  stageEntries: {
+    select: {
+      stageKey: true,
+      enteredAt: true,
+    },
+  },
+  statusHistory: {
+    take: 1,
+    orderBy: {
+      createdAt: 'desc' as const,
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+        },
+      },
+    },
+  },
+}
+
+// Flatten stage entries into a stageKey -> date map and the last status change into two fields
+export function withLastStatusUpdater(lead: any) {
+  const { stageEntries, ...rest } = lead
+  return {
+    ...rest,
+    stageEnteredAt: toStageEnteredAt(stageEntries ?? []),
+    lastStatusUpdater: lead.statusHistory[0]?.user || null,
+    lastStatusUpdatedAt: lead.statusHistory[0]?.createdAt || null,
+  }
+}
+
+// Runs a built where clause with pagination; the response shape shared by all list endpoints
+export async function findLeadsPage(where: any, pagination: LeadPagination) {
+  const [total, leads] = await Promise.all([
+    prisma.lead.count({ where }),
+    prisma.lead.findMany({
+      where,
+      skip: pagination.skip,
+      take: pagination.limit,
+      include: LEAD_LIST_INCLUDE,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    }),
+  ])
+
+  return {
+    leads: leads.map(withLastStatusUpdater),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  }
+}
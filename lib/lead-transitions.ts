@@ -0,0 +1,88 @@
+import { UserRole } from './constants'
+import { PipelineTransitionRecord, PipelineWithStages, findStage } from './pipelines'
+
+/**
+ * Status transition rules. Each pipeline carries a declarative graph of allowed moves
+ * (PipelineTransition): the next stages per stage, whether a reason is required, and which
+ * roles may make the move. Both the status route and PUT /api/leads/[id] go through
+ * checkStatusTransition and answer 422 with the allowed moves when it fails.
+ */
+
+export interface AllowedTransition {
+  to: string
+  label: string
+  requiresReason: boolean
+}
+
+export type TransitionCheck =
+  | { allowed: true }
+  | {
+      allowed: false
+      error: string
+      requiresReason?: boolean
+      allowedTransitions: AllowedTransition[]
+    }
+
+function canPerform(transition: PipelineTransitionRecord, role: UserRole): boolean {
+  return transition.roles.length === 0 || transition.roles.includes(role)
+}
+
+// Moves the role may make from a stage. Pipelines without a graph allow every other stage.
+export function getAllowedTransitions(
+  pipeline: PipelineWithStages,
+  fromKey: string,
+  role: UserRole
+): AllowedTransition[] {
+  if (pipeline.transitions.length === 0) {
+    return pipeline.stages
+      .filter((stage) => stage.key !== fromKey)
+      .map((stage) => ({ to: stage.key, label: stage.label, requiresReason: false }))
+  }
+
+  // Listed in stage order rather than the order transitions were saved in
+  return pipeline.stages.flatMap((stage) => {
+    const transition = pipeline.transitions.find(
+      (t) => t.fromKey === fromKey && t.toKey === stage.key && canPerform(t, role)
+    )
+    return transition ? [{ to: stage.key, label: stage.label, requiresReason: transition.requiresReason }] : []
+  })
+}
+
+/**
+ * Whether a lead may move from one stage to another. The target is expected to be a stage
+ * of the pipeline already (checked by the routes with findStage).
+ */
+export function checkStatusTransition(
+  pipeline: PipelineWithStages,
+  fromKey: string,
+  toKey: string,
+  role: UserRole,
+  reason?: string | null
+): TransitionCheck {
+  const allowedTransitions = getAllowedTransitions(pipeline, fromKey, role)
+  const transition = allowedTransitions.find((t) => t.to === toKey)
+  const fromLabel = findStage(pipeline, fromKey)?.label ?? fromKey
+  const toLabel = findStage(pipeline, toKey)?.label ?? toKey
+
+  if (!transition) {
+    return {
+      allowed: false,
+      error:
+        allowedTransitions.length > 0
+          ? `Cannot move a lead from ${fromLabel} to ${toLabel}. Allowed: ${allowedTransitions.map((t) => t.label).join(', ')}`
+          : `Leads in ${fromLabel} cannot be moved to another stage`,
+      allowedTransitions,
+    }
+  }
+
+  if (transition.requiresReason && !reason?.trim()) {
+    return {
+      allowed: false,
+      error: `A reason is required to move a lead from ${fromLabel} to ${toLabel}`,
+      requiresReason: true,
+      allowedTransitions,
+    }
+  }
+
+  return { allowed: true }
+}
@@ -0,0 +1,179 @@
+import { prisma } from './prisma'
+import { LOGIN_PROTECTION } from './constants'
+
+export type LoginFailureReason =
+  | 'unknown_user'
+  | 'invalid_password'
+  | 'invalid_two_factor'
+  | 'deactivated'
+  | 'locked'
+  | 'throttled'
+
+export interface LoginThrottleResult {
+  allowed: boolean
+  reason?: 'locked' | 'backoff'
+  retryAfterSeconds?: number
+}
+
+/**
+ * Exponential backoff: after FREE_ATTEMPTS failures each further attempt has to wait
+ * BASE_DELAY_SECONDS * 2^(extra failures), capped at MAX_DELAY_SECONDS.
+ */
+function getBackoffSeconds(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) {
+    return 0
+  }
+  const delay = LOGIN_PROTECTION.BASE_DELAY_SECONDS * Math.pow(2, failures - freeAttempts)
+  return Math.min(delay, LOGIN_PROTECTION.MAX_DELAY_SECONDS)
+}
+
+function getWindowStart(): Date {
+  return new Date(Date.now() - LOGIN_PROTECTION.WINDOW_MINUTES * 60 * 1000)
+}
+
+async function getRecentFailures(filter: { username: string } | { ipAddress: string }) {
+  const since = getWindowStart()
+  // Rejected (throttled/locked) attempts are audited but don't extend the backoff themselves
+  const where = {
+    ...filter,
+    success: false,
+    reason: { notIn: ['throttled', 'locked'] },
+    createdAt: { gte: since },
+  }
+  const [count, last] = await Promise.all([
+    prisma.loginAttempt.count({ where }),
+    prisma.loginAttempt.findFirst({
+      where,
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+  ])
+  return { count, lastFailureAt: last?.createdAt ?? null }
+}
+
+function getRemainingBackoff(failures: { count: number; lastFailureAt: Date | null }, freeAttempts: number): number {
+  if (!failures.lastFailureAt) {
+    return 0
+  }
+  const delayMs = getBackoffSeconds(failures.count, freeAttempts) * 1000
+  const remainingMs = failures.lastFailureAt.getTime() + delayMs - Date.now()
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0
+}
+
+/**
+ * Decides whether a login attempt may proceed, before the password is checked.
+ * Checks the account lock first, then per-username and per-IP backoff.
+ * Known users back off on their consecutive failure counter (cleared on success or admin unlock);
+ * unknown usernames fall back to the attempt log.
+ */
+export async function checkLoginThrottle(username: string, ipAddress: string | null): Promise<LoginThrottleResult> {
+  const user = await prisma.user.findUnique({
+    where: { username },
+    select: { lockedUntil: true, failedLoginCount: true, lastFailedLoginAt: true },
+  })
+
+  if (user?.lockedUntil && user.lockedUntil > new Date()) {
+    return {
+      allowed: false,
+      reason: 'locked',
+      retryAfterSeconds: Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000),
+    }
+  }
+
+  const usernameFailures = user
+    ? { count: user.failedLoginCount, lastFailureAt: user.lastFailedLoginAt }
+    : await getRecentFailures({ username })
+  const usernameWait = getRemainingBackoff(usernameFailures, LOGIN_PROTECTION.FREE_ATTEMPTS)
+  const ipWait = ipAddress
+    ? getRemainingBackoff(await getRecentFailures({ ipAddress }), LOGIN_PROTECTION.IP_FREE_ATTEMPTS)
+    : 0
+
+  const wait = Math.max(usernameWait, ipWait)
+  if (wait > 0) {
+    return { allowed: false, reason: 'backoff', retryAfterSeconds: wait }
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * Records a failed login for the audit trail and, for known users,
+ * locks the account once LOCKOUT_THRESHOLD consecutive failures are reached.
+ */
+export async function recordFailedLogin(params: {
+  username: string
+  userId?: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  reason: LoginFailureReason
+}): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: {
+      username: params.username,
+      userId: params.userId ?? null,
+      ipAddress: params.ipAddress,
+      userAgent: params.userAgent,
+      success: false,
+      reason: params.reason,
+    },
+  })
+
+  // Only wrong passwords and 2FA codes count towards the lockout; throttled attempts never reach those checks
+  if (params.userId && (params.reason === 'invalid_password' || params.reason === 'invalid_two_factor')) {
+    const existing = await prisma.user.findUnique({
+      where: { id: params.userId },
+      select: { lastFailedLoginAt: true },
+    })
+    // Failures older than the window don't chain into a new streak
+    const continuesStreak = !!existing?.lastFailedLoginAt && existing.lastFailedLoginAt >= getWindowStart()
+
+    const user = await prisma.user.update({
+      where: { id: params.userId },
+      data: {
+        failedLoginCount: continuesStreak ? { increment: 1 } : 1,
+        lastFailedLoginAt: new Date(),
+      },
+      select: { failedLoginCount: true },
+    })
+
+    if (user.failedLoginCount >= LOGIN_PROTECTION.LOCKOUT_THRESHOLD) {
+      await prisma.user.update({
+        where: { id: params.userId },
+        data: {
+          lockedUntil: new Date(Date.now() + LOGIN_PROTECTION.LOCKOUT_MINUTES * 60 * 1000),
+          failedLoginCount: 0,
+        },
+      })
+      console.warn(`[Login] Account ${params.username} locked after ${user.failedLoginCount} failed attempts`)
+    }
+  }
+}
+
+export async function recordSuccessfulLogin(params: {
+  username: string
+  userId: string
+  ipAddress: string | null
+  userAgent: string | null
+}): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: {
+      username: params.username,
+      userId: params.userId,
+      ipAddress: params.ipAddress,
+      userAgent: params.userAgent,
+      success: true,
+    },
+  })
+
+  await prisma.user.update({
+    where: { id: params.userId },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  })
+}
+
+export async function unlockUser(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  })
+}
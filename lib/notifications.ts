@@ -0,0 +1,34 @@
+import { prisma } from './prisma'
+
+/**
+ * In-app notifications, shown by the bell in the sidebar. There is no email or push delivery;
+ * users see them the next time they open the app.
+ */
+
+export type NotificationType = 'task_backlog' | 'task_escalated'
+
+export interface NotificationParams {
+  type: NotificationType
+  title: string
+  body?: string | null
+  taskId?: string | null
+}
+
+// Creates the same notification for each user (duplicates dropped)
+export async function notifyUsers(userIds: string[], params: NotificationParams): Promise<number> {
+  const recipients = Array.from(new Set(userIds))
+  if (recipients.length === 0) {
+    return 0
+  }
+
+  const { count } = await prisma.notification.createMany({
+    data: recipients.map((userId) => ({
+      userId,
+      type: params.type,
+      title: params.title,
+      body: params.body ?? null,
+      taskId: params.taskId ?? null,
+    })),
+  })
+  return count
+}
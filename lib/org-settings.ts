@@ -0,0 +1,72 @@
+import { DateTime } from 'luxon'
+import { prisma } from './prisma'
+
+/**
+ * Org-wide settings and the timezone helpers built on them. Day boundaries ("due today", the
+ * daily performance buckets, recurring task occurrences) are computed in the user's timezone,
+ * falling back to the org timezone; stored timestamps stay UTC. Working days and holidays are
+ * used through lib/working-calendar.ts.
+ */
+
+export const ORG_SETTINGS_ID = 'default'
+
+export interface OrgSettingsValues {
+  timezone: string
+  workingDays: number[]
+  holidays: string[]
+  skipNonWorkingDays: boolean
+  followUpBusinessDays: boolean
+}
+
+export const DEFAULT_ORG_SETTINGS: OrgSettingsValues = {
+  timezone: 'UTC',
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  skipNonWorkingDays: false,
+  followUpBusinessDays: true,
+}
+
+// The settings row is only created once an admin saves; until then the defaults apply
+export async function getOrgSettings(): Promise<OrgSettingsValues> {
+  const settings = await prisma.orgSettings.findUnique({ where: { id: ORG_SETTINGS_ID } })
+  if (!settings) {
+    return DEFAULT_ORG_SETTINGS
+  }
+  return {
+    timezone: settings.timezone,
+    workingDays: settings.workingDays,
+    holidays: settings.holidays,
+    skipNonWorkingDays: settings.skipNonWorkingDays,
+    followUpBusinessDays: settings.followUpBusinessDays,
+  }
+}
+
+export function isValidTimeZone(zone: string): boolean {
+  return DateTime.local().setZone(zone).isValid
+}
+
+// A user's own zone if set (and still valid), otherwise the org's
+export function resolveTimeZone(userZone: string | null | undefined, settings: { timezone: string }): string {
+  if (userZone && isValidTimeZone(userZone)) {
+    return userZone
+  }
+  return isValidTimeZone(settings.timezone) ? settings.timezone : 'UTC'
+}
+
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const [user, settings] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } }),
+    getOrgSettings(),
+  ])
+  return resolveTimeZone(user?.timezone, settings)
+}
+
+// Start and end of a YYYY-MM-DD day in the given zone, or undefined for an invalid date
+export function getDayRange(date: string, zone: string): { gte: Date; lte: Date } | undefined {
+  const parsed = date ? DateTime.fromISO(date, { zone }) : null
+  if (!parsed?.isValid) return undefined
+  return {
+    gte: parsed.startOf('day').toJSDate(),
+    lte: parsed.endOf('day').toJSDate(),
+  }
+}
@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { DEFAULT_PIPELINE_NAME, DEFAULT_PIPELINE_STAGES, DEFAULT_STAGE_TRANSITIONS, UserRole } from './constants'
+
+/**
+ * Lead pipelines and their stages. A lead belongs to one pipeline and its `status`
+ * is the key of a stage in that pipeline. When a lead first enters a stage the time
+ * is kept in LeadStageEntry, which the follow-up filters and automation read.
+ * Which moves are allowed is defined by the pipeline's transitions (see lib/lead-transitions.ts).
+ */
+
+export const PIPELINE_INCLUDE = {
+  stages: {
+    orderBy: {
+      position: 'asc' as const,
+    },
+  },
+  transitions: true,
+}
+
+export interface PipelineStageRecord {
+  id: string
+  key: string
+  label: string
+  color: string
+  position: number
+  isTerminal: boolean
+  isWon: boolean
+  isLost: boolean
+}
+
+export interface PipelineTransitionRecord {
+  fromKey: string
+  toKey: string
+  requiresReason: boolean
+  roles: UserRole[]
+}
+
+export interface PipelineWithStages {
+  id: string
+  name: string
+  isDefault: boolean
+  stages: PipelineStageRecord[]
+  transitions: PipelineTransitionRecord[]
+}
+
+/**
+ * The pipeline new leads land in. Created from DEFAULT_PIPELINE_STAGES the first time
+ * it's needed, so a fresh database works without running the seed.
+ */
+export async function getDefaultPipeline(): Promise<PipelineWithStages> {
+  const existing = await prisma.pipeline.findFirst({
+    where: { isDefault: true },
+    include: PIPELINE_INCLUDE,
+  })
+  if (existing) {
+    return existing
+  }
+
+  try {
+    return await prisma.pipeline.create({
+      data: {
+        name: DEFAULT_PIPELINE_NAME,
+        isDefault: true,
+        stages: {
+          create: DEFAULT_PIPELINE_STAGES.map((stage, index) => ({ ...stage, position: index })),
+        },
+        transitions: {
+          create: DEFAULT_STAGE_TRANSITIONS,
+        },
+      },
+      include: PIPELINE_INCLUDE,
+    })
+  } catch (error: any) {
+    // Another request created it first
+    if (error.code === 'P2002') {
+      const pipeline = await prisma.pipeline.findFirst({
+        where: { isDefault: true },
+        include: PIPELINE_INCLUDE,
+      })
+      if (pipeline) return pipeline
+    }
+    throw error
+  }
+}
+
+// The given pipeline, or the default one when no id is passed. Null if the id doesn't exist.
+export async function getPipeline(pipelineId?: string | null): Promise<PipelineWithStages | null> {
+  if (!pipelineId) {
+    return getDefaultPipeline()
+  }
+  return prisma.pipeline.findUnique({
+    where: { id: pipelineId },
+    include: PIPELINE_INCLUDE,
+  })
+}
+
+export function findStage(pipeline: PipelineWithStages, key: string): PipelineStageRecord | null {
+  return pipeline.stages.find((stage) => stage.key === key) ?? null
+}
+
+// First stage by position; where newly created and imported leads start
+export function getInitialStage(pipeline: PipelineWithStages): PipelineStageRecord {
+  if (pipeline.stages.length === 0) {
+    throw new Error(`Pipeline ${pipeline.name} has no stages`)
+  }
+  return pipeline.stages[0]
+}
+
+/**
+ * Records when a lead entered a stage. Only the first entry is kept, so moving
+ * back into a stage doesn't reset its follow-up clock. Pass `db` to write inside a transaction.
+ */
+export async function recordStageEntry(
+  leadId: string,
+  stageKey: string,
+  enteredAt: Date = new Date(),
+  db: Prisma.TransactionClient = prisma
+) {
+  await db.leadStageEntry.createMany({
+    data: [{ leadId, stageKey, enteredAt }],
+    skipDuplicates: true,
+  })
+}
+
+// Where clause for leads that entered a stage within a date range
+export function getStageEnteredWhere(stageKey: string, enteredAt: { gte?: Date; lte?: Date }): any {
+  return {
+    stageEntries: {
+      some: {
+        stageKey,
+        enteredAt,
+      },
+    },
+  }
+}
+
+// stageKey -> first time the lead entered it, for list responses
+export function toStageEnteredAt(entries: { stageKey: string; enteredAt: Date }[]): Record<string, Date> {
+  const enteredAt: Record<string, Date> = {}
+  for (const entry of entries) {
+    enteredAt[entry.stageKey] = entry.enteredAt
+  }
+  return enteredAt
+}
+
+/**
+ * Replaces a pipeline's stages with the given list, in order. Stages are matched by key,
+ * so existing ones keep their id and leads. Removing a stage that still has leads is refused;
+ * the keys of those stages are returned instead and nothing is changed. Transitions from or
+ * to a removed stage are removed with it.
+ */
+export async function savePipelineStages(
+  pipelineId: string,
+  stages: Omit<PipelineStageRecord, 'id' | 'position'>[]
+): Promise<{ blockedKeys: string[] }> {
+  const existing = await prisma.pipelineStage.findMany({
+    where: { pipelineId },
+    select: { key: true },
+  })
+  const keepKeys = new Set(stages.map((stage) => stage.key))
+  const removedKeys = existing.map((stage) => stage.key).filter((key) => !keepKeys.has(key))
+
+  if (removedKeys.length > 0) {
+    const inUse = await prisma.lead.groupBy({
+      by: ['status'],
+      where: { pipelineId, status: { in: removedKeys } },
+    })
+    if (inUse.length > 0) {
+      return { blockedKeys: inUse.map((group) => group.status) }
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.pipelineStage.deleteMany({
+      where: { pipelineId, key: { in: removedKeys } },
+    }),
+    prisma.pipelineTransition.deleteMany({
+      where: { pipelineId, OR: [{ fromKey: { in: removedKeys } }, { toKey: { in: removedKeys } }] },
+    }),
+    ...stages.map((stage, index) =>
+      prisma.pipelineStage.upsert({
+        where: { pipelineId_key: { pipelineId, key: stage.key } },
+        create: { ...stage, pipelineId, position: index },
+        update: { ...stage, position: index },
+      })
+    ),
+  ])
+
+  return { blockedKeys: [] }
+}
+
+// True when every transition connects two of the given stage keys
+export function transitionsMatchStages(transitions: PipelineTransitionRecord[], stageKeys: string[]): boolean {
+  const keys = new Set(stageKeys)
+  return transitions.every((transition) => keys.has(transition.fromKey) && keys.has(transition.toKey))
+}
+
+// Replaces a pipeline's transition graph. Keys are expected to be stages of the pipeline.
+export async function savePipelineTransitions(pipelineId: string, transitions: PipelineTransitionRecord[]) {
+  await prisma.$transaction([
+    prisma.pipelineTransition.deleteMany({ where: { pipelineId } }),
+    prisma.pipelineTransition.createMany({
+      data: transitions.map((transition) => ({ ...transition, pipelineId })),
+    }),
+  ])
+}
@@ -0,0 +1,157 @@
+import type { SessionUser } from './auth'
+
+/**
+ * Signed session tokens: base64url(JSON payload) + '.' + base64url(HMAC-SHA256).
+ * Uses Web Crypto only so it can run in both the Node.js routes and the Edge middleware.
+ */
+
+export const SESSION_COOKIE_NAME = 'crm_session'
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7 // 7 days
+const LOGIN_CHALLENGE_MAX_AGE = 60 * 5 // 5 minutes to enter the 2FA code
+
+export interface SessionTokenClaims extends SessionUser {
+  sid: string // server-side session record id
+  mustChangePassword?: boolean // middleware keeps the user on the account page until changed
+  mustEnrollTwoFactor?: boolean // same, until two-factor authentication is set up
+}
+
+interface SessionTokenPayload extends SessionTokenClaims {
+  iat: number // issued at (seconds)
+  exp: number // expires at (seconds)
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is not set')
+  }
+  return secret
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+async function signPayload(payload: object): Promise<string> {
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)))
+  const key = await getSigningKey()
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload))
+
+  return `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+// Returns the decoded payload if the signature is valid and `exp` is in the future
+async function verifyPayload<T extends { exp: number }>(token: string): Promise<T | null> {
+  const [encodedPayload, encodedSignature, ...rest] = token.split('.')
+  if (!encodedPayload || !encodedSignature || rest.length > 0) {
+    return null
+  }
+
+  try {
+    const key = await getSigningKey()
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(encodedSignature),
+      encoder.encode(encodedPayload)
+    )
+    if (!isValid) {
+      return null
+    }
+
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload))) as T
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null
+    }
+
+    return payload
+  } catch {
+    return null
+  }
+}
+
+export async function signSessionToken(claims: SessionTokenClaims, expiresAt: Date): Promise<string> {
+  const payload: SessionTokenPayload = {
+    id: claims.id,
+    username: claims.username,
+    role: claims.role,
+    sid: claims.sid,
+    mustChangePassword: claims.mustChangePassword || undefined,
+    mustEnrollTwoFactor: claims.mustEnrollTwoFactor || undefined,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  }
+
+  return signPayload(payload)
+}
+
+/**
+ * Returns the token claims if the token is well-formed, correctly signed and not expired.
+ * Any tampered, malformed or expired token yields null.
+ * This does not check revocation; getSession in lib/session.ts does that against the database.
+ */
+export async function verifySessionToken(token: string): Promise<SessionTokenClaims | null> {
+  const payload = await verifyPayload<SessionTokenPayload>(token)
+  if (!payload || typeof payload.sid !== 'string' || !payload.sid) {
+    return null
+  }
+
+  return {
+    id: payload.id,
+    username: payload.username,
+    role: payload.role,
+    sid: payload.sid,
+    mustChangePassword: payload.mustChangePassword === true,
+    mustEnrollTwoFactor: payload.mustEnrollTwoFactor === true,
+  }
+}
+
+/**
+ * Short-lived token proving the password step succeeded, exchanged for a session
+ * once the second factor is verified. It has no `sid`, so it never passes as a session.
+ */
+export async function signLoginChallenge(userId: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  return signPayload({
+    uid: userId,
+    purpose: 'login_2fa',
+    iat: now,
+    exp: now + LOGIN_CHALLENGE_MAX_AGE,
+  })
+}
+
+export async function verifyLoginChallenge(token: string): Promise<string | null> {
+  const payload = await verifyPayload<{ uid: string; purpose: string; exp: number }>(token)
+  if (!payload || payload.purpose !== 'login_2fa' || typeof payload.uid !== 'string') {
+    return null
+  }
+  return payload.uid
+}
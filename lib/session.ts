@@ -1,12 +1,48 @@
-import { cookies } from 'next/headers'
-import { SessionUser } from './auth'
+import { cookies, headers } from 'next/headers'
+import { SessionUser, UserRole, getClientIp } from './auth'
+import { prisma } from './prisma'
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE,
+  signSessionToken,
+  verifySessionToken,
+} from './session-token'
 
-const SESSION_COOKIE_NAME = 'crm_session'
-const SESSION_MAX_AGE = 60 * 60 * 24 * 7 // 7 days
+// Requirements an account can have pending after login. Until they are met getSession() returns
+// null, except in the routes that pass them in `allow` (the ones needed to meet them)
+export type SessionRequirement = 'changePassword' | 'enrollTwoFactor'
 
-export async function createSession(user: SessionUser): Promise<void> {
+// Only touch lastSeenAt when it is older than this, to avoid a write on every request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000
+
+export async function createSession(
+  user: SessionUser,
+  options: { mustChangePassword?: boolean; mustEnrollTwoFactor?: boolean } = {}
+): Promise<void> {
   const cookieStore = await cookies()
-  cookieStore.set(SESSION_COOKIE_NAME, JSON.stringify(user), {
+  const headerStore = await headers()
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE * 1000)
+
+  // One record per device/browser login
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      userAgent: headerStore.get('user-agent'),
+      ipAddress: getClientIp(headerStore),
+      expiresAt,
+    },
+  })
+
+  const token = await signSessionToken(
+    {
+      ...user,
+      sid: session.id,
+      mustChangePassword: options.mustChangePassword,
+      mustEnrollTwoFactor: options.mustEnrollTwoFactor,
+    },
+    expiresAt
+  )
+  cookieStore.set(SESSION_COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
@@ -15,23 +51,127 @@ export async function createSession(user: SessionUser): Promise<void> {
   })
 }
 
-export async function getSession(): Promise<SessionUser | null> {
+async function getSessionClaims() {
   const cookieStore = await cookies()
   const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)
-  
+
   if (!sessionCookie?.value) {
     return null
   }
 
-  try {
-    return JSON.parse(sessionCookie.value) as SessionUser
-  } catch {
+  // Rejects tampered, malformed and expired tokens
+  return verifySessionToken(sessionCookie.value)
+}
+
+export async function getSession(
+  options: { allow?: SessionRequirement[] } = {}
+): Promise<SessionUser | null> {
+  const claims = await getSessionClaims()
+  if (!claims) {
+    return null
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: claims.sid },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          role: true,
+          teamId: true,
+          isActive: true,
+          mustChangePassword: true,
+          twoFactorRequired: true,
+          totpEnabled: true,
+        },
+      },
+    },
+  })
+
+  // Session must still exist, belong to an active user, and not be revoked or expired
+  if (
+    !session ||
+    session.userId !== claims.id ||
+    !session.user.isActive ||
+    session.revokedAt ||
+    session.expiresAt <= new Date()
+  ) {
+    return null
+  }
+
+  // Checked on the stored user, so the API is gated too (the middleware only covers pages)
+  const allow = options.allow ?? []
+  if (session.user.mustChangePassword && !allow.includes('changePassword')) {
     return null
   }
+  if (session.user.twoFactorRequired && !session.user.totpEnabled && !allow.includes('enrollTwoFactor')) {
+    return null
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastSeenAt: new Date() },
+    })
+  }
+
+  // Use the stored user so role changes apply without logging in again
+  return {
+    id: session.user.id,
+    username: session.user.username,
+    role: session.user.role as UserRole,
+    teamId: session.user.teamId,
+  }
 }
 
 export async function deleteSession(): Promise<void> {
+  const claims = await getSessionClaims()
+  if (claims) {
+    await prisma.session.updateMany({
+      where: { id: claims.sid, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+  }
+
   const cookieStore = await cookies()
   cookieStore.delete(SESSION_COOKIE_NAME)
 }
 
+export async function listActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastSeenAt: true,
+      expiresAt: true,
+    },
+    orderBy: {
+      lastSeenAt: 'desc',
+    },
+  })
+}
+
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return result.count > 0
+}
+
+// "Log out everywhere": revokes every active session of the user
+export async function revokeAllUserSessions(userId: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return result.count
+}
@@ -0,0 +1,71 @@
+import { prisma } from './prisma'
+
+/**
+ * The system user owns automated changes (status history, audit events and tasks created by
+ * automation), so they aren't credited to a real admin and automation runs without one.
+ * It can't log in: it's inactive, has no usable password and is rejected by the login route.
+ * User lists, pickers and performance stats leave it out (isSystem).
+ */
+
+export const SYSTEM_USERNAME = 'system'
+
+// Not a bcrypt hash, so no password ever matches it
+const UNUSABLE_PASSWORD = '!'
+
+let cachedSystemUserId: string | null = null
+
+// Id of the system user, created on first use
+export async function getSystemUserId(): Promise<string> {
+  if (cachedSystemUserId) {
+    return cachedSystemUserId
+  }
+
+  const existing = await prisma.user.findFirst({
+    where: { isSystem: true },
+    select: { id: true },
+  })
+  if (existing) {
+    cachedSystemUserId = existing.id
+    return existing.id
+  }
+
+  try {
+    const user = await prisma.user.create({
+      data: {
+        username: SYSTEM_USERNAME,
+        password: UNUSABLE_PASSWORD,
+        isSystem: true,
+        isActive: false,
+        deactivatedAt: new Date(),
+      },
+      select: { id: true },
+    })
+
+    // Automated changes made before the system user existed were credited to an admin
+    await prisma.statusHistory.updateMany({
+      where: { reason: { startsWith: 'Automated:' } },
+      data: { userId: user.id },
+    })
+    await prisma.auditEvent.updateMany({
+      where: { summary: { startsWith: 'Automated:' } },
+      data: { actorId: user.id },
+    })
+
+    cachedSystemUserId = user.id
+    return user.id
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      // Another request created it first, or a real user already has the name
+      const user = await prisma.user.findFirst({
+        where: { isSystem: true },
+        select: { id: true },
+      })
+      if (user) {
+        cachedSystemUserId = user.id
+        return user.id
+      }
+      throw new Error(`Cannot create the system user: the username "${SYSTEM_USERNAME}" is taken`)
+    }
+    throw error
+  }
+}
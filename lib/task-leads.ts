@@ -0,0 +1,141 @@
+import { prisma } from './prisma'
+import { SessionUser, can } from './auth'
+import { recordAuditEvent } from './audit'
+import { getLeadVisibilityWhere } from './lead-query'
+import { findStage, getPipeline, recordStageEntry } from './pipelines'
+import { checkStatusTransition } from './lead-transitions'
+
+/**
+ * Tasks linked to leads. A task can be linked to any number of leads (TaskLead); follow-up
+ * tasks from lib/follow-up-tasks.ts and rule tasks from lib/automation.ts are linked to the
+ * lead they were created for. Task.completeLeadStatus optionally names the stage the linked
+ * leads move to when the task is completed.
+ */
+
+// Linked leads in task responses
+export const TASK_LEADS_INCLUDE = {
+  select: {
+    lead: { select: { id: true, name: true, company: true, status: true, pipelineId: true } },
+  },
+  orderBy: { createdAt: 'asc' as const },
+}
+
+export interface TaskLeadAdvanceResult {
+  advanced: { id: string; name: string }[]
+  skipped: { id: string; name: string; reason: string }[]
+}
+
+/**
+ * The subset of leadIds the user can see (duplicates dropped). Routes compare the count
+ * with the request to reject links to unknown or hidden leads.
+ */
+export async function findLinkableLeads(user: SessionUser, leadIds: string[]) {
+  const visibilityWhere = getLeadVisibilityWhere(user)
+  if (!visibilityWhere || leadIds.length === 0) {
+    return []
+  }
+
+  return prisma.lead.findMany({
+    where: { AND: [{ id: { in: Array.from(new Set(leadIds)) } }, visibilityWhere] },
+    select: { id: true, pipelineId: true },
+  })
+}
+
+/**
+ * Whether stageKey is a stage of at least one of the given pipelines (for validating
+ * completeLeadStatus against the task's leads).
+ */
+export async function isStageOfAnyPipeline(stageKey: string, pipelineIds: string[]): Promise<boolean> {
+  for (const pipelineId of Array.from(new Set(pipelineIds))) {
+    const pipeline = await getPipeline(pipelineId)
+    if (pipeline && findStage(pipeline, stageKey)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Moves the leads linked to a completed task to task.completeLeadStatus, as the user who
+ * completed it. Each lead goes through the same checks as a manual status change
+ * (lead.changeStatus, the pipeline's transitions); leads that fail one are skipped with the reason.
+ */
+export async function advanceTaskLeads(
+  user: SessionUser,
+  task: { id: string; title: string; completeLeadStatus: string | null }
+): Promise<TaskLeadAdvanceResult> {
+  const result: TaskLeadAdvanceResult = { advanced: [], skipped: [] }
+  const toStatus = task.completeLeadStatus
+  if (!toStatus) {
+    return result
+  }
+
+  const links = await prisma.taskLead.findMany({
+    where: { taskId: task.id },
+    include: { lead: { include: { assignedTo: { select: { teamId: true } } } } },
+    orderBy: { createdAt: 'asc' },
+  })
+  const reason = `Task completed: ${task.title}`
+
+  for (const { lead } of links) {
+    const skip = (why: string) => result.skipped.push({ id: lead.id, name: lead.name, reason: why })
+
+    if (lead.status === toStatus) {
+      continue
+    }
+    if (!can(user, 'lead.changeStatus', lead)) {
+      skip('You do not have permission to change the status of this lead')
+      continue
+    }
+    const pipeline = await getPipeline(lead.pipelineId)
+    if (!pipeline || !findStage(pipeline, toStatus)) {
+      skip(`"${toStatus}" is not a stage of this lead's pipeline`)
+      continue
+    }
+    const transition = checkStatusTransition(pipeline, lead.status, toStatus, user.role, reason)
+    if (!transition.allowed) {
+      skip(transition.error)
+      continue
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Guarded on the status we checked, so a concurrent change is skipped instead of overwritten
+      const { count } = await tx.lead.updateMany({
+        where: { id: lead.id, status: lead.status },
+        data: { status: toStatus },
+      })
+      if (count === 0) {
+        return null
+      }
+      await tx.statusHistory.create({
+        data: {
+          leadId: lead.id,
+          userId: user.id,
+          oldStatus: lead.status,
+          newStatus: toStatus,
+          reason,
+        },
+      })
+      await recordStageEntry(lead.id, toStatus, new Date(), tx)
+      return tx.lead.findUnique({ where: { id: lead.id } })
+    })
+
+    if (!updated) {
+      skip('The lead was changed in the meantime')
+      continue
+    }
+
+    await recordAuditEvent({
+      actorId: user.id,
+      entityType: 'lead',
+      entityId: lead.id,
+      action: 'status_change',
+      before: lead,
+      after: updated,
+      summary: reason,
+    })
+    result.advanced.push({ id: lead.id, name: lead.name })
+  }
+
+  return result
+}
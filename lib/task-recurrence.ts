@@ -0,0 +1,160 @@
+import { DateTime } from 'luxon'
+import { prisma } from './prisma'
+import { recordAuditEvent } from './audit'
+import { getSystemUserId } from './system-user'
+import { TaskRecurrenceFrequency } from './constants'
+import { getOrgSettings, resolveTimeZone } from './org-settings'
+
+/**
+ * Recurring tasks. A TaskRecurrence ("send 30 connection requests every weekday") is set up
+ * once; the backlog cron (lib/tasks-backlog.ts) turns each occurrence day into a regular Task,
+ * created at the start of the day and due at the end of it, in the assignee's timezone, so every
+ * occurrence is completed or goes to backlog on its own. The cron runs once a day at a fixed UTC
+ * time, so each run creates the occurrences whose local day starts before the next run; a day that
+ * starts in the evening UTC (zones west of UTC) is created ahead instead of late. Occurrence days
+ * are stored as the UTC midnight of the calendar date; the unique (recurrenceId, occurrenceDate)
+ * index keeps it to one task per day. Days whose window passed before the cron got to them are skipped.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RecurrencePattern {
+  frequency: TaskRecurrenceFrequency
+  daysOfWeek: number[]
+  dayOfMonth: number | null
+  endsOn: Date | null
+}
+
+// Start of a YYYY-MM-DD day in UTC
+export function parseRecurrenceDate(date: string): Date {
+  return DateTime.fromISO(date, { zone: 'utc' }).startOf('day').toJSDate()
+}
+
+// The calendar date it is in `zone` at `now`, as a stored occurrence day
+function todayIn(zone: string, now: Date): Date {
+  return parseRecurrenceDate(DateTime.fromJSDate(now).setZone(zone).toISODate()!)
+}
+
+function isOccurrenceDay(pattern: RecurrencePattern, day: DateTime): boolean {
+  switch (pattern.frequency) {
+    case 'daily':
+      return true
+    case 'weekdays':
+      return day.weekday <= 5
+    case 'weekly':
+      return pattern.daysOfWeek.includes(day.weekday)
+    case 'monthly':
+      // The 31st falls on the last day of shorter months
+      return day.day === Math.min(pattern.dayOfMonth ?? 1, day.daysInMonth ?? 31)
+  }
+}
+
+/**
+ * Start of the first occurrence day on or after `from`, or null when the series has ended.
+ */
+export function nextOccurrenceOnOrAfter(pattern: RecurrencePattern, from: Date): Date | null {
+  let day = DateTime.fromJSDate(from, { zone: 'utc' }).startOf('day')
+  // Every pattern matches at least once in 31 consecutive days
+  for (let i = 0; i < 31; i++) {
+    if (pattern.endsOn && day.toJSDate() > pattern.endsOn) {
+      return null
+    }
+    if (isOccurrenceDay(pattern, day)) {
+      return day.toJSDate()
+    }
+    day = day.plus({ days: 1 })
+  }
+  return null
+}
+
+/**
+ * Where the series picks up from now: today (in the assignee's timezone) or its start date,
+ * whichever is later. Used when a series is created, edited or resumed (days spent paused are
+ * not made up).
+ */
+export function getResumeOccurrence(
+  pattern: RecurrencePattern & { startsOn: Date },
+  zone: string,
+  now = new Date()
+): Date | null {
+  const today = todayIn(zone, now)
+  return nextOccurrenceOnOrAfter(pattern, pattern.startsOn > today ? pattern.startsOn : today)
+}
+
+/**
+ * Creates the tasks for occurrence days that start (in the assignee's timezone) within the next
+ * 24 hours or have already started, for every active series (or just recurrenceId), and returns
+ * how many were created. Series assigned to a deactivated user keep advancing without creating tasks.
+ */
+export async function generateRecurringTasks(recurrenceId?: string, now = new Date()): Promise<number> {
+  const settings = await getOrgSettings()
+  // Until the next daily run; days starting exactly then are left to it
+  const horizon = new Date(now.getTime() + DAY_MS)
+  const recurrences = await prisma.taskRecurrence.findMany({
+    where: {
+      ...(recurrenceId ? { id: recurrenceId } : {}),
+      isActive: true,
+      // Local days start up to 14 hours before their UTC midnight (UTC+14)
+      nextOccurrenceAt: { lt: new Date(horizon.getTime() + DAY_MS) },
+    },
+    include: { assignedTo: { select: { isActive: true, timezone: true } } },
+  })
+  let created = 0
+
+  for (const recurrence of recurrences) {
+    const zone = resolveTimeZone(recurrence.assignedTo.timezone, settings)
+    // Start of an occurrence day in the assignee's timezone
+    const startOf = (day: Date) => DateTime.fromISO(DateTime.fromJSDate(day, { zone: 'utc' }).toISODate()!, { zone })
+    let next = recurrence.nextOccurrenceAt
+
+    while (next && startOf(next).toJSDate() < horizon) {
+      const start = startOf(next)
+      const createdAt = start.toJSDate()
+      const dueAt = start.plus({ days: 1 }).toJSDate()
+
+      if (dueAt > now && recurrence.assignedTo.isActive) {
+        try {
+          const task = await prisma.task.create({
+            data: {
+              title: recurrence.title,
+              description: recurrence.description,
+              assignedToId: recurrence.assignedToId,
+              createdById: recurrence.createdById,
+              createdAt,
+              dueAt,
+              status: 'undone',
+              priority: recurrence.priority,
+              recurrenceId: recurrence.id,
+              occurrenceDate: next,
+            },
+          })
+          created++
+
+          await recordAuditEvent({
+            actorId: await getSystemUserId(),
+            entityType: 'task',
+            entityId: task.id,
+            action: 'create',
+            before: null,
+            after: task,
+            summary: `Automated: occurrence of recurring task ${recurrence.title}`,
+          })
+        } catch (error: any) {
+          // Created by an overlapping request in the meantime
+          if (error.code !== 'P2002') {
+            throw error
+          }
+        }
+      }
+
+      next = nextOccurrenceOnOrAfter(recurrence, new Date(next.getTime() + DAY_MS))
+    }
+
+    await prisma.taskRecurrence.update({
+      where: { id: recurrence.id },
+      data: { nextOccurrenceAt: next },
+    })
+  }
+
+  return created
+}
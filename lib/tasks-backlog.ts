@@ -1,14 +1,135 @@
 import { prisma } from './prisma'
+import { generateRecurringTasks } from './task-recurrence'
+import { notifyUsers } from './notifications'
+import { TASK_ESCALATION_POLICIES, TASK_PRIORITIES } from './constants'
+import { countBusinessDays, getThresholdCutoff, getWorkingCalendar } from './working-calendar'
 
+// Tasks that went to backlog before backlogAt was recorded count from their due date
+export function getBacklogSince(task: { backlogAt: Date | null; dueAt: Date }): Date {
+  return task.backlogAt ?? task.dueAt
+}
 
+/**
+ * Moves overdue undone tasks to backlog, records when, and notifies each task's creator
+ * (escalation level 1). Each task is flipped with a guarded update so overlapping syncs
+ * (the cron and the tasks list both call this) notify once.
+ */
 export async function syncTaskBacklog() {
   const now = new Date()
-  const result = await prisma.task.updateMany({
+  const overdue = await prisma.task.findMany({
     where: { status: 'undone', dueAt: { lt: now } },
-    data: { status: 'backlog' },
+    select: {
+      id: true,
+      title: true,
+      createdById: true,
+      assignedTo: { select: { username: true } },
+      createdBy: { select: { isActive: true, isSystem: true } },
+    },
+  })
+
+  let moved = 0
+  for (const task of overdue) {
+    const { count } = await prisma.task.updateMany({
+      where: { id: task.id, status: 'undone' },
+      data: { status: 'backlog', backlogAt: now, escalationLevel: 1 },
+    })
+    if (count === 0) continue
+    moved++
+
+    // Tasks from automation have no one behind them to tell; escalation picks those up
+    if (task.createdBy.isActive && !task.createdBy.isSystem) {
+      await notifyUsers([task.createdById], {
+        type: 'task_backlog',
+        title: `"${task.title}" went to backlog`,
+        body: `${task.assignedTo.username} did not complete it by the due date.`,
+        taskId: task.id,
+      })
+    }
+  }
+
+  if (moved > 0) {
+    console.log(`[Tasks Backlog Cron] Moved ${moved} task(s) to backlog (24h passed, no action)`)
+  }
+  return moved
+}
+
+/**
+ * Second escalation: backlog tasks older than their priority's escalateAfterDays (business days
+ * on the org's working calendar, so weekends and holidays don't count) notify the assignee's team
+ * lead(s) and every admin (escalation level 2). Returns how many were escalated.
+ */
+export async function escalateBacklogTasks(now = new Date()): Promise<number> {
+  const admins = await prisma.user.findMany({
+    where: { role: 'admin', isActive: true, isSystem: false },
+    select: { id: true },
   })
-  if (result.count > 0) {
-    console.log(`[Tasks Backlog Cron] Moved ${result.count} task(s) to backlog (24h passed, no action)`)
+  const calendar = await getWorkingCalendar()
+  let escalated = 0
+
+  for (const priority of TASK_PRIORITIES) {
+    const days = TASK_ESCALATION_POLICIES[priority].escalateAfterDays
+    if (days === null) continue
+    const cutoff = getThresholdCutoff(days, calendar, now)
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        status: 'backlog',
+        priority,
+        escalationLevel: { lt: 2 },
+        OR: [{ backlogAt: { lte: cutoff } }, { backlogAt: null, dueAt: { lte: cutoff } }],
+      },
+      select: {
+        id: true,
+        title: true,
+        backlogAt: true,
+        dueAt: true,
+        escalationLevel: true,
+        assignedToId: true,
+        assignedTo: { select: { username: true, teamId: true } },
+      },
+    })
+
+    for (const task of tasks) {
+      const { count } = await prisma.task.updateMany({
+        where: { id: task.id, escalationLevel: task.escalationLevel },
+        data: { escalationLevel: 2 },
+      })
+      if (count === 0) continue
+      escalated++
+
+      const teamLeads = task.assignedTo.teamId
+        ? await prisma.user.findMany({
+            where: { role: 'team_lead', teamId: task.assignedTo.teamId, isActive: true },
+            select: { id: true },
+          })
+        : []
+      const backlogDays = countBusinessDays(getBacklogSince(task), now, calendar)
+
+      await notifyUsers(
+        [...teamLeads, ...admins].map((u) => u.id).filter((id) => id !== task.assignedToId),
+        {
+          type: 'task_escalated',
+          title: `"${task.title}" has been in backlog for ${backlogDays} business day${backlogDays === 1 ? '' : 's'}`,
+          body: `Assigned to ${task.assignedTo.username}.`,
+          taskId: task.id,
+        }
+      )
+    }
+  }
+
+  if (escalated > 0) {
+    console.log(`[Tasks Backlog Cron] Escalated ${escalated} backlog task(s)`)
+  }
+  return escalated
+}
+
+// Backlog cron: close out missed tasks, escalate old backlog, then create today's occurrences of recurring tasks
+export async function runTasksBacklog() {
+  const movedToBacklog = await syncTaskBacklog()
+  const escalated = await escalateBacklogTasks()
+  const occurrencesCreated = await generateRecurringTasks()
+  if (occurrencesCreated > 0) {
+    console.log(`[Tasks Backlog Cron] Created ${occurrencesCreated} recurring task occurrence(s)`)
   }
-  return result.count
+  return { movedToBacklog, escalated, occurrencesCreated }
 }
@@ -0,0 +1,44 @@
+import { DateTime } from 'luxon'
+import { SessionUser, PermissionTarget, can } from './auth'
+import { TASK_LEADS_INCLUDE } from './task-leads'
+
+// Task list/detail responses
+export const TASK_INCLUDE = {
+  assignedTo: { select: { id: true, username: true, role: true } },
+  createdBy: { select: { id: true, username: true } },
+  leads: TASK_LEADS_INCLUDE,
+  recurrence: { select: { id: true, frequency: true } },
+  checklist: {
+    orderBy: { position: 'asc' as const },
+    include: { completedBy: { select: { id: true, username: true } } },
+  },
+  _count: { select: { comments: true } },
+}
+
+/**
+ * Whether the user takes part in a task (reads and writes its comments, ticks its checklist):
+ * the assignee, or anyone who can see it through task.viewAll.
+ */
+export function canAccessTask(user: SessionUser, task: PermissionTarget): boolean {
+  return can(user, 'task.complete', task) || can(user, 'task.viewAll', task)
+}
+
+/**
+ * Task created/due input: a full ISO timestamp, or a YYYY-MM-DD date taken as that day in `zone`
+ * (the assignee's timezone) at the current local time. Null when unparseable.
+ */
+export function parseTaskTimestamp(str: string, zone: string): Date | null {
+  if (!str?.trim()) return null
+  const s = str.trim()
+  if (s.includes('T')) {
+    const dt = s.endsWith('Z') ? DateTime.fromISO(s, { zone: 'utc' }) : DateTime.fromISO(s, { setZone: true })
+    if (dt.isValid) return dt.toUTC().toJSDate()
+    return null
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) {
+    const now = DateTime.now().setZone(zone)
+    const dt = DateTime.fromISO(s, { zone }).set({ hour: now.hour, minute: now.minute, second: now.second })
+    if (dt.isValid) return dt.toJSDate()
+  }
+  return null
+}
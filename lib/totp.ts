@@ -0,0 +1,116 @@
+import crypto from 'crypto'
+
+/**
+ * TOTP (RFC 6238) helpers for two-factor authentication.
+ * 30-second steps, 6 digits, HMAC-SHA1 - the defaults every authenticator app supports.
+ */
+
+const TOTP_ISSUER = 'Linke CRM'
+const TOTP_STEP_SECONDS = 30
+const TOTP_DIGITS = 6
+const TOTP_WINDOW = 1 // accept one step of clock drift either way
+const RECOVERY_CODE_COUNT = 10
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 character')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8)
+  counterBuffer.writeBigUInt64BE(BigInt(counter))
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff)
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+export function getTotpUri(secret: string, username: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${username}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/**
+ * The time step `code` is valid for, or null. Steps at or before `lastStep` (the last one accepted
+ * for the user) are rejected so a code can't be replayed; store the returned step as the new one.
+ */
+export function verifyTotp(secret: string, code: string, lastStep?: number | null): number | null {
+  const normalized = code.replace(/\s+/g, '')
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null
+  }
+
+  const key = base32Decode(secret)
+  const counter = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS)
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const step = counter + drift
+    if (lastStep != null && step <= lastStep) continue
+    const expected = generateHotp(key, step)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step
+    }
+  }
+  return null
+}
+
+// Recovery codes look like "a1b2c-3d4e5"; only their hashes are stored
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex')
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.trim().toLowerCase().replace(/[^a-f0-9]/g, '')
+  return crypto.createHash('sha256').update(normalized).digest('hex')
+}
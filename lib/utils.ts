@@ -5,3 +5,20 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+
+export interface Pagination {
+  page: number
+  limit: number
+  skip: number
+}
+
+const MAX_PAGE_SIZE = 100
+
+// page and limit query params: page is at least 1 and limit 1-100; values that aren't numbers fall back to the defaults
+export function parsePagination(searchParams: URLSearchParams, defaultLimit: number): Pagination {
+  const requestedPage = parseInt(searchParams.get('page') || '', 10)
+  const requestedLimit = parseInt(searchParams.get('limit') || '', 10)
+  const page = Number.isNaN(requestedPage) ? 1 : Math.max(1, requestedPage)
+  const limit = Number.isNaN(requestedLimit) ? defaultLimit : Math.min(MAX_PAGE_SIZE, Math.max(1, requestedLimit))
+  return { page, limit, skip: (page - 1) * limit }
+}
@@ -1,15 +1,80 @@
 import { z } from 'zod'
+import { DateTime } from 'luxon'
+import { LEAD_MERGE_FIELDS, PASSWORD_POLICY } from './constants'
 
 // Auth validations
+
+// Password policy: minimum length, not a common password, not the username
+export function passwordSchema(username?: string) {
+  return z
+    .string()
+    .min(PASSWORD_POLICY.MIN_LENGTH, `Password must be at least ${PASSWORD_POLICY.MIN_LENGTH} characters`)
+    .refine(
+      (password) => !(PASSWORD_POLICY.BANNED_PASSWORDS as readonly string[]).includes(password.toLowerCase()),
+      'Password is too common'
+    )
+    .refine(
+      (password) => !username || password.toLowerCase() !== username.toLowerCase(),
+      'Password must not be the same as the username'
+    )
+}
+
 export const loginSchema = z.object({
   username: z.string().min(1, 'Username is required'),
   password: z.string().min(1, 'Password is required'),
 })
 
-export const createUserSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-  role: z.enum(['admin', 'lead_gen', 'outreach']),
+export const createUserSchema = z
+  .object({
+    username: z.string().min(1, 'Username is required'),
+    password: passwordSchema(),
+    role: z.enum(['admin', 'team_lead', 'lead_gen', 'outreach']),
+    mustChangePassword: z.boolean().optional(),
+    teamId: z.string().nullable().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.password.toLowerCase() === data.username.toLowerCase()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['password'],
+        message: 'Password must not be the same as the username',
+      })
+    }
+  })
+
+export const verifyTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().min(1, 'Code is required'),
+})
+
+export const enableTwoFactorSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+})
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+})
+
+export const updateUserSchema = z.object({
+  role: z.enum(['admin', 'team_lead', 'lead_gen', 'outreach']).optional(),
+  twoFactorRequired: z.boolean().optional(),
+  teamId: z.string().nullable().optional(),
+})
+
+// Team validations
+export const teamSchema = z.object({
+  name: z.string().trim().min(1, 'Team name is required'),
+})
+
+// The username check is applied in the route once the target user is loaded
+export const resetPasswordSchema = z.object({
+  password: passwordSchema(),
+  mustChangePassword: z.boolean().optional(),
+})
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema(),
 })
 
 // Lead validations
@@ -22,34 +87,185 @@ export const createLeadSchema = z.object({
   website: z.string().url().optional().or(z.literal('')),
   notes: z.string().optional(),
   system: z.enum(['linkedin_one', 'linkedin_two', 'upwork']).optional(),
+  pipelineId: z.string().min(1).optional(),
   assignedToId: z.string().optional().nullable(),
 })
 
+// Status is a stage key; whether it belongs to the lead's pipeline is checked in the route
 export const updateLeadSchema = createLeadSchema.partial().extend({
-  status: z.enum(['new', 'requested', 'texted', 'replied', 'meeting_booked', 'first_followup', 'second_followup', 'junk', 'closed', 'commented']).optional(),
+  status: z.string().min(1).optional(),
   assignedToId: z.string().optional().nullable(),
 })
 
+// allowDuplicate creates the lead even when it has the email or profile URL of an existing one
+export const createLeadRequestSchema = createLeadSchema.extend({
+  allowDuplicate: z.boolean().optional(),
+})
+
+export const mergeLeadsSchema = z
+  .object({
+    targetId: z.string().min(1, 'Target lead is required'),
+    sourceId: z.string().min(1, 'Source lead is required'),
+    // Fields to take from the source instead of the target
+    preferSource: z.array(z.enum(LEAD_MERGE_FIELDS)).optional(),
+  })
+  .refine((data) => data.targetId !== data.sourceId, {
+    message: 'Cannot merge a lead into itself',
+    path: ['sourceId'],
+  })
+
+export const updateLeadDuplicateSchema = z.object({
+  status: z.enum(['pending', 'dismissed']),
+})
+
 export const claimLeadSchema = z.object({
   leadId: z.string().min(1, 'Lead ID is required'),
 })
 
 export const changeStatusSchema = z.object({
   leadId: z.string().min(1, 'Lead ID is required'),
-  newStatus: z.enum(['new', 'requested', 'texted', 'replied', 'meeting_booked', 'first_followup', 'second_followup', 'junk', 'closed', 'commented']),
+  newStatus: z.string().min(1, 'Status is required'),
   reason: z.string().optional(),
 })
 
+// Pipeline validations
+export const pipelineStageSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .min(1, 'Stage key is required')
+      .regex(/^[a-z0-9_]+$/, 'Stage key may only contain lowercase letters, numbers and underscores'),
+    label: z.string().trim().min(1, 'Stage label is required'),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6'),
+    isTerminal: z.boolean().default(false),
+    isWon: z.boolean().default(false),
+    isLost: z.boolean().default(false),
+  })
+  .refine((stage) => !(stage.isWon && stage.isLost), {
+    message: 'A stage cannot be both won and lost',
+  })
+
+// Empty roles = any role allowed to change the lead's status
+export const pipelineTransitionSchema = z
+  .object({
+    fromKey: z.string().min(1),
+    toKey: z.string().min(1),
+    requiresReason: z.boolean().default(false),
+    roles: z.array(z.enum(['admin', 'team_lead', 'lead_gen', 'outreach'])).default([]),
+  })
+  .refine((transition) => transition.fromKey !== transition.toKey, {
+    message: 'A transition must move to a different stage',
+  })
+
+// Stages are given in pipeline order; transitions may only reference those stages (checked in the route)
+export const pipelineSchema = z.object({
+  name: z.string().trim().min(1, 'Pipeline name is required'),
+  isDefault: z.boolean().optional(),
+  stages: z
+    .array(pipelineStageSchema)
+    .min(1, 'A pipeline needs at least one stage')
+    .refine((stages) => new Set(stages.map((s) => s.key)).size === stages.length, {
+      message: 'Stage keys must be unique',
+    }),
+  transitions: z.array(pipelineTransitionSchema).optional(),
+})
+
+export const updatePipelineSchema = pipelineSchema.partial()
+
+// Automation rule validations. Stage keys and users are checked against the database in the route.
+// PATCH merges the body into the stored rule and validates the result with this same schema.
+export const automationRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Rule name is required'),
+    isActive: z.boolean().default(true),
+    pipelineId: z.string().min(1).nullable().optional(),
+    status: z.string().min(1, 'Stage is required'),
+    field: z.enum(['stage_entered', 'created', 'updated']).default('stage_entered'),
+    olderThanDays: z.number().int().min(0, 'Days cannot be negative').max(365),
+    businessDays: z.boolean().default(false),
+    system: z.enum(['linkedin_one', 'linkedin_two', 'upwork']).nullable().optional(),
+    action: z.enum(['move_status', 'create_task', 'reassign']),
+    toStatus: z.string().min(1).nullable().optional(),
+    taskTitle: z.string().trim().min(1).nullable().optional(),
+    taskDescription: z.string().nullable().optional(),
+    taskDueDays: z.number().int().min(0).max(365).default(1),
+    assignToId: z.string().min(1).nullable().optional(),
+  })
+  // Each action needs its own settings
+  .superRefine((rule, ctx) => {
+    if (rule.action === 'move_status') {
+      if (!rule.toStatus) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['toStatus'], message: 'Choose the stage to move leads to' })
+      } else if (rule.toStatus === rule.status) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['toStatus'], message: 'Leads must move to a different stage' })
+      }
+    }
+    if (rule.action === 'create_task' && !rule.taskTitle) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['taskTitle'], message: 'Task title is required' })
+    }
+    if (rule.action === 'reassign' && !rule.assignToId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['assignToId'], message: 'Choose who to assign leads to' })
+    }
+  })
+
+const taskPrioritySchema = z.enum(['urgent', 'high', 'medium', 'low'])
+
+const recurrenceDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+
+// Repeat pattern of a recurring task. PATCH /api/task-recurrences/[id] merges the body into the
+// stored pattern and validates the result with this same schema.
+export const taskRecurrenceSchema = z
+  .object({
+    frequency: z.enum(['daily', 'weekdays', 'weekly', 'monthly']),
+    daysOfWeek: z.array(z.number().int().min(1).max(7)).default([]),
+    dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+    startsOn: recurrenceDateSchema.optional(),
+    endsOn: recurrenceDateSchema.nullable().optional(),
+  })
+  .superRefine((recurrence, ctx) => {
+    if (recurrence.frequency === 'weekly' && recurrence.daysOfWeek.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['daysOfWeek'], message: 'Choose at least one day' })
+    }
+    if (recurrence.frequency === 'monthly' && !recurrence.dayOfMonth) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dayOfMonth'], message: 'Choose the day of the month' })
+    }
+    if (recurrence.startsOn && recurrence.endsOn && recurrence.endsOn < recurrence.startsOn) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endsOn'], message: 'End date must be on or after start date' })
+    }
+  })
+
+export const updateTaskRecurrenceSchema = z.object({
+  title: z.string().min(1, 'Title is required').optional(),
+  description: z.string().optional().nullable(),
+  assignedToId: z.string().min(1, 'Assign to a user').optional(),
+  isActive: z.boolean().optional(),
+  priority: taskPrioritySchema.optional(),
+  frequency: z.enum(['daily', 'weekdays', 'weekly', 'monthly']).optional(),
+  daysOfWeek: z.array(z.number().int().min(1).max(7)).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  startsOn: recurrenceDateSchema.optional(),
+  endsOn: recurrenceDateSchema.nullable().optional(),
+})
+
 export const createTaskSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
   assignedToId: z.string().min(1, 'Assign to a user'),
   createdAt: z.string().optional(),
   dueAt: z.string().optional(),
+  leadIds: z.array(z.string().min(1)).optional(),
+  completeLeadStatus: z.string().min(1).optional().nullable(),
+  priority: taskPrioritySchema.optional(),
+  checklist: z.array(z.string().trim().min(1)).max(50).optional(),
+  // Makes this a recurring task; occurrences are created by the backlog cron
+  recurrence: taskRecurrenceSchema.optional(),
 })
 
 export const completeTaskSchema = z.object({
   completed: z.literal(true),
+  // Move the linked leads to the task's completeLeadStatus (default when one is set)
+  advanceLeads: z.boolean().optional(),
 })
 
 export const updateTaskSchema = z.object({
@@ -58,4 +274,81 @@ export const updateTaskSchema = z.object({
   assignedToId: z.string().min(1, 'Assign to a user').optional(),
   createdAt: z.string().optional(),
   dueAt: z.string().optional(),
+  leadIds: z.array(z.string().min(1)).optional(),
+  completeLeadStatus: z.string().min(1).optional().nullable(),
+  priority: taskPrioritySchema.optional(),
+})
+
+export const taskTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required'),
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().nullable().optional(),
+  priority: taskPrioritySchema.default('medium'),
+  dueInHours: z.number().int().min(1, 'Due offset must be at least 1 hour').max(24 * 365),
+  checklist: z.array(z.string().trim().min(1)).max(50).default([]),
+})
+
+// Either explicit users or everyone active with a role (limited to the caller's team for team leads)
+export const bulkAssignTaskSchema = z
+  .object({
+    templateId: z.string().min(1, 'Choose a template'),
+    userIds: z.array(z.string().min(1)).max(500).optional(),
+    role: z.enum(['admin', 'team_lead', 'lead_gen', 'outreach']).optional(),
+  })
+  .refine((data) => (data.userIds?.length ?? 0) > 0 || !!data.role, {
+    message: 'Choose users or a role',
+    path: ['userIds'],
+  })
+
+export const checklistItemSchema = z.object({
+  text: z.string().trim().min(1, 'Item text is required'),
+})
+
+export const updateChecklistItemSchema = z.object({
+  text: z.string().trim().min(1, 'Item text is required').optional(),
+  completed: z.boolean().optional(),
+})
+
+export const taskCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+  parentId: z.string().min(1).optional(),
+})
+
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().min(1)).max(200).optional(),
+})
+
+// Audit log filters; from/to are days in the viewer's timezone
+const auditDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+  .refine((date) => DateTime.fromISO(date).isValid, 'Invalid date')
+
+export const auditEventQuerySchema = z.object({
+  from: auditDateSchema.optional(),
+  to: auditDateSchema.optional(),
+})
+
+// Settings validations
+
+const timeZoneSchema = z
+  .string()
+  .trim()
+  .min(1, 'Timezone is required')
+  .refine((zone) => DateTime.local().setZone(zone).isValid, 'Unknown timezone')
+
+export const orgSettingsSchema = z.object({
+  timezone: timeZoneSchema.optional(),
+  workingDays: z.array(z.number().int().min(1).max(7)).max(7).optional(),
+  holidays: z
+    .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holidays must be YYYY-MM-DD dates'))
+    .max(366)
+    .optional(),
+  skipNonWorkingDays: z.boolean().optional(),
+  followUpBusinessDays: z.boolean().optional(),
+})
+
+export const userPreferencesSchema = z.object({
+  // null = use the org timezone
+  timezone: timeZoneSchema.nullable(),
 })
@@ -0,0 +1,81 @@
+import { DateTime } from 'luxon'
+import { OrgSettingsValues, getOrgSettings, resolveTimeZone } from './org-settings'
+
+/**
+ * The org's working calendar: which weekdays are worked and which dates are holidays, in the org
+ * timezone (all from OrgSettings). Timers such as the follow-up filters and automation rules can
+ * count business days with it, so a lead texted on Friday isn't "4 days old" on Tuesday.
+ */
+
+export type WorkingCalendar = Pick<OrgSettingsValues, 'timezone' | 'workingDays' | 'holidays'>
+
+// Upper bound on day-by-day walks, so a calendar without working days can't loop forever
+const MAX_CALENDAR_DAYS = 3660
+
+export async function getWorkingCalendar(): Promise<WorkingCalendar> {
+  return getOrgSettings()
+}
+
+// The calendar for the follow-up filters, or null when the org counts them in calendar days
+export async function getFollowUpCalendar(): Promise<WorkingCalendar | null> {
+  const settings = await getOrgSettings()
+  return settings.followUpBusinessDays ? settings : null
+}
+
+export function isWorkingDay(day: DateTime, calendar: WorkingCalendar): boolean {
+  return calendar.workingDays.includes(day.weekday) && !calendar.holidays.includes(day.toISODate() ?? '')
+}
+
+/**
+ * `from` moved back by `days` working days, same local time: each step goes back one day and only
+ * counts when that day is a working day. Anything at or before the result is at least `days`
+ * business days old.
+ */
+export function subtractBusinessDays(from: Date, days: number, calendar: WorkingCalendar): Date {
+  let day = DateTime.fromJSDate(from).setZone(resolveTimeZone(null, calendar))
+  let remaining = days
+  for (let i = 0; remaining > 0 && i < MAX_CALENDAR_DAYS; i++) {
+    day = day.minus({ days: 1 })
+    if (isWorkingDay(day, calendar)) remaining--
+  }
+  return day.toJSDate()
+}
+
+// Working days from `from` to `to`: how many whole days can be stepped forward that land on one
+export function countBusinessDays(from: Date, to: Date, calendar: WorkingCalendar): number {
+  let day = DateTime.fromJSDate(from).setZone(resolveTimeZone(null, calendar))
+  const end = DateTime.fromJSDate(to)
+  let count = 0
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+    day = day.plus({ days: 1 })
+    if (day > end) break
+    if (isWorkingDay(day, calendar)) count++
+  }
+  return count
+}
+
+/**
+ * Cutoff for "older than N days" timers: N calendar days before `now`, or N business days when a
+ * calendar is given.
+ */
+export function getThresholdCutoff(days: number, calendar: WorkingCalendar | null, now: Date = new Date()): Date {
+  if (!calendar || calendar.workingDays.length === 0) {
+    return new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+  }
+  return subtractBusinessDays(now, days, calendar)
+}
+
+/**
+ * Default due time for a new task: 24 hours after `from`, pushed day by day past weekends and
+ * holidays (same local time) when the org has skipNonWorkingDays on.
+ */
+export function getDefaultDueAt(from: DateTime, settings: OrgSettingsValues): DateTime {
+  let due = from.plus({ hours: 24 })
+  if (!settings.skipNonWorkingDays || settings.workingDays.length === 0) {
+    return due
+  }
+  for (let i = 0; i < MAX_CALENDAR_DAYS && !isWorkingDay(due, settings); i++) {
+    due = due.plus({ days: 1 })
+  }
+  return due
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/session-token'
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
 
   // Allow public routes
@@ -9,12 +10,29 @@ export function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
-  // Check for session cookie
-  const sessionCookie = request.cookies.get('crm_session')
-  
   // Protect dashboard and other routes
-  if (pathname.startsWith('/dashboard') && !sessionCookie) {
-    return NextResponse.redirect(new URL('/login', request.url))
+  if (pathname.startsWith('/dashboard')) {
+    // Verify the session cookie signature and expiry, not just its presence
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)
+    const session = sessionCookie?.value ? await verifySessionToken(sessionCookie.value) : null
+
+    if (!session) {
+      const response = NextResponse.redirect(new URL('/login', request.url))
+      if (sessionCookie) {
+        response.cookies.delete(SESSION_COOKIE_NAME)
+      }
+      return response
+    }
+
+    // Accounts flagged by an admin must set a new password before using the app
+    if (session.mustChangePassword && pathname !== '/dashboard/account') {
+      return NextResponse.redirect(new URL('/dashboard/account?required=1', request.url))
+    }
+
+    // Accounts required to use 2FA must enroll before using the app
+    if (session.mustEnrollTwoFactor && pathname !== '/dashboard/account') {
+      return NextResponse.redirect(new URL('/dashboard/account?setup2fa=1', request.url))
+    }
   }
 
   return NextResponse.next()
@@ -32,4 +50,3 @@ export const config = {
     '/((?!api|_next/static|_next/image|favicon.ico).*)',
   ],
 }
-
@@ -0,0 +1,238 @@
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { Pool, PoolClient } from "pg";
+import { DEFAULT_PIPELINE_NAME, DEFAULT_PIPELINE_STAGES, DEFAULT_STAGE_TRANSITIONS } from "../lib/constants";
+
+/**
+ * One-off migration from the LeadStatus enum and per-status timestamp columns
+ * to configurable pipelines. Run it BEFORE `npm run db:push` on a database created
+ * with the old schema:
+ *
+ *   npm run db:migrate-pipelines && npm run db:push
+ *
+ * In a single transaction it creates the pipeline tables, puts every lead into the
+ * default pipeline (with the default transition graph), converts the enum columns to text,
+ * copies textedAt, firstFollowupAt, ... into lead_stage_entries and drops the old columns. db push then only adds the remaining
+ * indexes. Safe to run again; finished steps are skipped.
+ */
+
+const databaseUrl = process.env.DATABASE_URL;
+if (!databaseUrl) {
+  throw new Error("DATABASE_URL not found. Migration cannot run.");
+}
+
+const pool = new Pool({ connectionString: databaseUrl });
+
+// Old timestamp column -> the stage it recorded
+const LEGACY_STAGE_COLUMNS: Record<string, string> = {
+  textedAt: "texted",
+  firstFollowupAt: "first_followup",
+  secondFollowupAt: "second_followup",
+  repliedAt: "replied",
+  meetingBookedAt: "meeting_booked",
+  commentedAt: "commented",
+};
+
+async function getColumnType(client: PoolClient, table: string, column: string): Promise<string | null> {
+  const result = await client.query(
+    `SELECT data_type FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`,
+    [table, column]
+  );
+  return result.rows[0]?.data_type ?? null;
+}
+
+async function createTables(client: PoolClient) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS "pipelines" (
+      "id" TEXT NOT NULL,
+      "name" TEXT NOT NULL,
+      "isDefault" BOOLEAN NOT NULL DEFAULT false,
+      "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updatedAt" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "pipelines_pkey" PRIMARY KEY ("id")
+    )
+  `);
+  await client.query(`CREATE UNIQUE INDEX IF NOT EXISTS "pipelines_name_key" ON "pipelines"("name")`);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS "pipeline_stages" (
+      "id" TEXT NOT NULL,
+      "pipelineId" TEXT NOT NULL,
+      "key" TEXT NOT NULL,
+      "label" TEXT NOT NULL,
+      "color" TEXT NOT NULL DEFAULT '#64748b',
+      "position" INTEGER NOT NULL,
+      "isTerminal" BOOLEAN NOT NULL DEFAULT false,
+      "isWon" BOOLEAN NOT NULL DEFAULT false,
+      "isLost" BOOLEAN NOT NULL DEFAULT false,
+      "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updatedAt" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "pipeline_stages_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "pipeline_stages_pipelineId_fkey" FOREIGN KEY ("pipelineId")
+        REFERENCES "pipelines"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+  await client.query(
+    `CREATE UNIQUE INDEX IF NOT EXISTS "pipeline_stages_pipelineId_key_key" ON "pipeline_stages"("pipelineId", "key")`
+  );
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS "pipeline_transitions" (
+      "id" TEXT NOT NULL,
+      "pipelineId" TEXT NOT NULL,
+      "fromKey" TEXT NOT NULL,
+      "toKey" TEXT NOT NULL,
+      "requiresReason" BOOLEAN NOT NULL DEFAULT false,
+      "roles" "UserRole"[],
+      "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "pipeline_transitions_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "pipeline_transitions_pipelineId_fkey" FOREIGN KEY ("pipelineId")
+        REFERENCES "pipelines"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+  await client.query(
+    `CREATE UNIQUE INDEX IF NOT EXISTS "pipeline_transitions_pipelineId_fromKey_toKey_key"
+     ON "pipeline_transitions"("pipelineId", "fromKey", "toKey")`
+  );
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS "lead_stage_entries" (
+      "id" TEXT NOT NULL,
+      "leadId" TEXT NOT NULL,
+      "stageKey" TEXT NOT NULL,
+      "enteredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "lead_stage_entries_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "lead_stage_entries_leadId_fkey" FOREIGN KEY ("leadId")
+        REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+  await client.query(
+    `CREATE UNIQUE INDEX IF NOT EXISTS "lead_stage_entries_leadId_stageKey_key" ON "lead_stage_entries"("leadId", "stageKey")`
+  );
+}
+
+async function ensureDefaultPipeline(client: PoolClient): Promise<string> {
+  const existing = await client.query(`SELECT "id" FROM "pipelines" WHERE "isDefault" = true LIMIT 1`);
+  if (existing.rows[0]) {
+    return existing.rows[0].id;
+  }
+
+  const pipelineId = randomUUID();
+  await client.query(
+    `INSERT INTO "pipelines" ("id", "name", "isDefault", "updatedAt") VALUES ($1, $2, true, NOW())`,
+    [pipelineId, DEFAULT_PIPELINE_NAME]
+  );
+
+  for (const [index, stage] of DEFAULT_PIPELINE_STAGES.entries()) {
+    await client.query(
+      `INSERT INTO "pipeline_stages"
+        ("id", "pipelineId", "key", "label", "color", "position", "isTerminal", "isWon", "isLost", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+      [randomUUID(), pipelineId, stage.key, stage.label, stage.color, index, stage.isTerminal, stage.isWon, stage.isLost]
+    );
+  }
+
+  console.log(`  - Created default pipeline "${DEFAULT_PIPELINE_NAME}" with ${DEFAULT_PIPELINE_STAGES.length} stages`);
+  return pipelineId;
+}
+
+// Seeds the default transition graph unless the pipeline already has one
+async function ensureDefaultTransitions(client: PoolClient, pipelineId: string) {
+  const existing = await client.query(`SELECT 1 FROM "pipeline_transitions" WHERE "pipelineId" = $1 LIMIT 1`, [
+    pipelineId,
+  ]);
+  if (existing.rows[0]) {
+    return;
+  }
+
+  for (const transition of DEFAULT_STAGE_TRANSITIONS) {
+    await client.query(
+      `INSERT INTO "pipeline_transitions" ("id", "pipelineId", "fromKey", "toKey", "requiresReason", "roles")
+       VALUES ($1, $2, $3, $4, $5, $6::"UserRole"[])`,
+      [randomUUID(), pipelineId, transition.fromKey, transition.toKey, transition.requiresReason, transition.roles]
+    );
+  }
+  console.log(`  - Added ${DEFAULT_STAGE_TRANSITIONS.length} default stage transitions`);
+}
+
+async function convertEnumColumns(client: PoolClient) {
+  if ((await getColumnType(client, "leads", "status")) !== "USER-DEFINED") {
+    return;
+  }
+
+  await client.query(`ALTER TABLE "leads" ALTER COLUMN "status" DROP DEFAULT`);
+  await client.query(`ALTER TABLE "leads" ALTER COLUMN "status" TYPE TEXT USING "status"::TEXT`);
+  await client.query(`
+    ALTER TABLE "status_history"
+      ALTER COLUMN "oldStatus" TYPE TEXT USING "oldStatus"::TEXT,
+      ALTER COLUMN "newStatus" TYPE TEXT USING "newStatus"::TEXT
+  `);
+  await client.query(`DROP TYPE IF EXISTS "LeadStatus"`);
+  console.log("  - Converted lead status columns from enum to text");
+}
+
+async function assignPipeline(client: PoolClient, pipelineId: string) {
+  await client.query(`ALTER TABLE "leads" ADD COLUMN IF NOT EXISTS "pipelineId" TEXT`);
+  const result = await client.query(`UPDATE "leads" SET "pipelineId" = $1 WHERE "pipelineId" IS NULL`, [pipelineId]);
+  await client.query(`ALTER TABLE "leads" ALTER COLUMN "pipelineId" SET NOT NULL`);
+  console.log(`  - Moved ${result.rowCount ?? 0} leads into the default pipeline`);
+}
+
+async function copyStageTimestamps(client: PoolClient, initialStageKey: string) {
+  // Every lead entered the first stage when it was created
+  await client.query(
+    `INSERT INTO "lead_stage_entries" ("id", "leadId", "stageKey", "enteredAt")
+     SELECT gen_random_uuid()::TEXT, "id", $1, "createdAt" FROM "leads"
+     ON CONFLICT ("leadId", "stageKey") DO NOTHING`,
+    [initialStageKey]
+  );
+
+  for (const [column, stageKey] of Object.entries(LEGACY_STAGE_COLUMNS)) {
+    if (!(await getColumnType(client, "leads", column))) {
+      continue;
+    }
+
+    const result = await client.query(
+      `INSERT INTO "lead_stage_entries" ("id", "leadId", "stageKey", "enteredAt")
+       SELECT gen_random_uuid()::TEXT, "id", $1, "${column}" FROM "leads" WHERE "${column}" IS NOT NULL
+       ON CONFLICT ("leadId", "stageKey") DO NOTHING`,
+      [stageKey]
+    );
+    await client.query(`ALTER TABLE "leads" DROP COLUMN "${column}"`);
+    console.log(`  - Copied ${result.rowCount ?? 0} ${column} values and dropped the column`);
+  }
+}
+
+async function main() {
+  console.log("🔀 Migrating lead statuses to pipelines...");
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    await createTables(client);
+    const pipelineId = await ensureDefaultPipeline(client);
+    await ensureDefaultTransitions(client, pipelineId);
+    await convertEnumColumns(client);
+    await assignPipeline(client, pipelineId);
+    await copyStageTimestamps(client, DEFAULT_PIPELINE_STAGES[0].key);
+
+    await client.query("COMMIT");
+    console.log("✅ Done. Run `npm run db:push` to add the remaining indexes and foreign keys.");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+main()
+  .then(async () => {
+    await pool.end();
+  })
+  .catch(async (e) => {
+    console.error(e);
+    await pool.end();
+    process.exit(1);
+  });
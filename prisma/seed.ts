@@ -3,6 +3,12 @@ import { PrismaClient } from "@prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
 import { hashPassword } from "../lib/auth";
+import {
+  DEFAULT_AUTOMATION_RULES,
+  DEFAULT_PIPELINE_NAME,
+  DEFAULT_PIPELINE_STAGES,
+  DEFAULT_STAGE_TRANSITIONS,
+} from "../lib/constants";
 
 // Ensure DATABASE_URL is loaded
 const databaseUrl = process.env.DATABASE_URL;
@@ -57,6 +63,33 @@ async function main() {
   console.log(`  - Admin: ${admin.username} (${admin.id})`);
   console.log(`  - Lead Gen: ${leadGen.username} (${leadGen.id})`);
   console.log(`  - Outreach: ${outreach.username} (${outreach.id})`);
+
+  // Default pipeline new leads start in
+  const pipeline = await prisma.pipeline.upsert({
+    where: { name: DEFAULT_PIPELINE_NAME },
+    update: {},
+    create: {
+      name: DEFAULT_PIPELINE_NAME,
+      isDefault: true,
+      stages: {
+        create: DEFAULT_PIPELINE_STAGES.map((stage, index) => ({ ...stage, position: index })),
+      },
+      transitions: {
+        create: DEFAULT_STAGE_TRANSITIONS,
+      },
+    },
+  });
+
+  console.log(`✅ Pipeline: ${pipeline.name} (${pipeline.id})`);
+
+  // Default automation rules, matched by name so re-seeding doesn't duplicate or overwrite them
+  for (const rule of DEFAULT_AUTOMATION_RULES) {
+    const existing = await prisma.automationRule.findFirst({ where: { name: rule.name } });
+    if (!existing) {
+      await prisma.automationRule.create({ data: { ...rule, createdById: admin.id } });
+      console.log(`✅ Automation rule: ${rule.name}`);
+    }
+  }
 }
 
 main()